@@ -1,7 +1,25 @@
 
 import React, { useState, useRef, useCallback, FC, useMemo, useEffect } from 'react';
 import * as XLSX from 'xlsx';
-import { analyzeScriptWithAI, validateApiKey } from './services/geminiService';
+import { PromptRenderSettings, TargetGenerator, GENERATOR_DIALECTS, DEFAULT_GENERATORS, DEFAULT_NEGATIVE_PROMPT, getDialectsForType, resolveGenerator, clampDuration, renderPrompt, stripParameters } from './services/dialects';
+import { ShotDetails, ShotField, SHOT_FIELDS, SHOT_FIELD_LABELS, resolveShotDetails, formatShotValue, normalizeShotOverrides, isShotDetailsEmpty } from './services/shotList';
+import { SubtitleCue, isSubtitleFileName, looksLikeSubtitles, parseSubtitles, cuesToPlainText, segmentCues, formatTimestamp, formatCueRange, buildSubtitleFile } from './services/subtitles';
+import { analyzeScriptWithAI, standardizeScriptWithAI, extractStoryBible, rewriteScenePrompt, generateSceneClips, expandLongVideoScenes, validateApiKey, previewAnalysisInstruction, InstructionPreviewSettings, SceneRewriteAction, MAX_PROMPT_VARIANTS } from './services/geminiService';
+import { StylePreset, BUILT_IN_STYLE_PRESETS, REFERENCE_STYLE_ID, createStylePreset, duplicateStylePreset, findStylePreset, moveStylePreset, normalizeStylePresets, exportStylePresets, parseStylePresetsFile, mergeStylePresets, mergeNegativePrompts } from './services/stylePresets';
+import { PromptTemplate, PromptTemplateSectionId, PROMPT_TEMPLATE_SECTIONS, TEMPLATE_VARIABLES, BUILT_IN_PROMPT_TEMPLATES, DEFAULT_PROMPT_TEMPLATE, DEFAULT_PROMPT_TEMPLATE_ID, findUnknownVariables, getPromptTemplate, duplicatePromptTemplate, normalizePromptTemplate, normalizePromptTemplates, isSameTemplateContent } from './services/promptTemplates';
+import { VideoClip, getClipLimit, needsClipSplit, rerenderClips } from './services/clips';
+import { GeneratedImage, ImageGenerationSettings, ImageModelId, IMAGE_MODELS, DEFAULT_IMAGE_SETTINGS, normalizeImageSettings, runImageQueue, buildImagesZip, buildImageFileName } from './services/imageGeneration';
+import { DEFAULT_CHUNK_CHARS } from './services/chunking';
+import { segmentScript, countWords, estimateNarrationSeconds, sceneCountForDuration, formatDuration, SPEAKING_RATE_PRESETS } from './services/segmenter';
+import { createKeyPool, KeyRotationPolicy, KEY_ROTATION_POLICY_LABELS, PooledKey } from './services/keyPool';
+import { StoryBible, StoryCharacter, StoryLocation, EMPTY_STORY_BIBLE, EMPTY_CHARACTER, CHARACTER_FIELD_LABELS, isStoryBibleEmpty } from './services/storyBible';
+import { DEFAULT_PRICE_TABLE, ModelPrice, RunUsage, UsageSummaryRow, calculateCost, createEmptyRunUsage, findUnpricedModels, mergeRunUsage, formatCost, formatTokens, maskApiKey, summarizeUsageByKey, summarizeUsageByMonth } from './services/usage';
+import { verifyFidelity, repairFidelity, FidelityReport, FidelityIssueType } from './services/fidelity';
+import { RepairEntry, RepairAction, REPAIR_ACTION_LABELS, isCosmeticRepair } from './services/responseRepair';
+import { CacheSettings, CacheStats, DEFAULT_CACHE_SETTINGS, normalizeCacheSettings, hashCacheInput, getCachedResponse, putCachedResponse, getCacheStats, clearResponseCache, formatBytes } from './services/responseCache';
+import { ScriptChange, diffScript, defaultChangeDecisions, applyScriptChanges } from './services/scriptCleaning';
+import { ScriptCleanerSettings, CustomCleanerRule, CleaningPipeline, CLEANER_RULES, CLEANING_PIPELINE_LABELS, DEFAULT_CLEANER_SETTINGS, EMPTY_CUSTOM_RULE, normalizeCleanerSettings, validateCustomRule, cleanScriptWithRules } from './services/scriptRules';
+import { DEFAULT_PROVIDER_PRIORITY, DEFAULT_OPENAI_CONFIG, KEY4U_OPENAI_CONFIG, OPENAI_ENDPOINT_PRESETS, PROVIDER_SLOT_LABELS, OpenAICompatibleConfig, ProviderSlot, isOpenAIConfigured, listOpenAICompatibleModels, normalizeProviderPriority, isAbortError, createAbortError } from './services/providers';
 
 // --- TYPES & CONSTANTS ---
 export interface ImageFile {
@@ -17,26 +35,65 @@ interface ScenePrompt {
   imagePrompt?: string;
   videoPrompt?: string;
   scriptLine: string;
+  // Các phương án prompt (phần tử 0 là prompt gốc); imagePrompt/videoPrompt luôn là phương án đã chọn
+  promptVariants?: string[];
+  selectedVariant?: number;
+  // Prompt trung tính (chưa định dạng) + cài đặt công cụ đích đã dùng để render imagePrompt/videoPrompt
+  basePrompt?: string;
+  negativePrompt?: string;
+  render?: PromptRenderSettings;
+  // Shot list: giá trị do AI điền + các trường người dùng ghi đè
+  shot?: ShotDetails;
+  shotOverrides?: Partial<ShotDetails>;
+  // Chỉ có khi kịch bản là phụ đề SRT/WebVTT: thời gian (giây) và số thứ tự các cue gốc của cảnh
+  startTime?: number;
+  endTime?: number;
+  cueIndices?: number[];
+  // Chỉ với video: cảnh dài hơn giới hạn clip của công cụ đích được tách thành các clip nối tiếp nhau
+  clips?: VideoClip[];
 }
 
-export interface ApiKeyData {
-    key: string;
-    isActive: boolean;
-    status: 'valid' | 'invalid' | 'unknown';
-    lastUsed?: number;
+// Ảnh đã tạo cho một cảnh: chỉ giữ trong bộ nhớ của phiên làm việc (không lưu vào thư viện)
+interface SceneImageState {
+  status: 'queued' | 'generating' | 'done' | 'error';
+  image?: GeneratedImage;   // Ảnh gần nhất, vẫn hiển thị trong lúc tạo lại
+  error?: string;
 }
 
+// Kết quả phân cảnh lưu trong cache (không gồm usage: dùng lại thì không tốn token)
+interface CachedAnalysis {
+  results: { scenes: any[]; provider: string; model: string; repairs: RepairEntry[] };
+  storyBible?: StoryBible;
+}
+
+// Key Gemini kèm thống kê sức khỏe (thành công, lỗi 429, thời gian nghỉ)
+export interface ApiKeyData extends PooledKey {}
+
 export interface SavedSession {
     id: string;
     name: string; // Script filename or custom name
     timestamp: number;
     prompts: ScenePrompt[];
+    script?: string; // Kịch bản gốc dùng để tạo storyboard
+    usage?: RunUsage; // Token đã dùng (theo provider/model/key)
+    storyBible?: StoryBible; // Nhân vật & bối cảnh đã dùng cho lần tạo này
+    promptTemplate?: PromptTemplate; // Bản chụp mẫu prompt đã dùng cho lần tạo này
 }
 
 // Thay đổi mode: Chỉ còn general
 type AppMode = 'general';
 type PromptType = 'image' | 'video';
 type AspectRatio = '16:9' | '9:16' | '1:1';
+// 'duration': số cảnh được suy ra từ thời lượng đọc ước tính (mỗi cảnh N-M giây), sau đó chia như 'fixed'
+type SegmentationMode = 'ai' | 'punctuation' | 'fixed' | 'duration';
+
+interface NarrationSettings {
+    wordsPerMinute: number;
+    minSecondsPerScene: number;
+    maxSecondsPerScene: number;
+}
+
+const DEFAULT_NARRATION: NarrationSettings = { wordsPerMinute: 170, minSecondsPerScene: 4, maxSecondsPerScene: 6 };
 
 // Models
 const MODELS = [
@@ -55,32 +112,6 @@ interface ToastMessage {
     message: string;
 }
 
-// Style Presets (Translated to Vietnamese Labels)
-const PRESET_STYLES = [
-    { id: 'cinematic', label: '🎬 Điện ảnh thực tế (Cinematic)', prompt: 'Cinematic style, 8k resolution, highly detailed, professional composition, atmospheric lighting, sharp focus, photorealistic, raw style.' },
-    { id: 'anime', label: '🌸 Anime (Ghibli)', prompt: 'Anime style, Studio Ghibli inspired, vibrant colors, lush backgrounds, expressive characters, hand-drawn animation feel, detailed aesthetic.' },
-    { id: '3d_pixar', label: '🧸 Hoạt hình 3D (Pixar)', prompt: '3D Disney/Pixar style, cute characters, soft lighting, 3d render, high fidelity, octane render, smooth textures, expressive eyes.' },
-    { id: 'stick_figure', label: '🖍️ Người que (Stick Figure)', prompt: 'Stick figure style, simple line drawing, white background, childish and funny, minimal details, hand-drawn marker look.' },
-    { id: 'oil_painting', label: '🎨 Tranh sơn dầu', prompt: 'Oil painting style, textured brushstrokes, artistic, classic masterpiece vibe, rich colors, heavy impasto, traditional art.' },
-    { id: 'watercolor', label: '💧 Màu nước', prompt: 'Watercolor painting style, soft edges, pastel colors, artistic and dreamy, wet-on-wet technique, paper texture.' },
-    { id: 'cyberpunk', label: '🌃 Cyberpunk (Tương lai)', prompt: 'Cyberpunk style, neon lights, futuristic city, high tech low life, vibrant purple and blue tones, rain-slicked streets, holographic details.' },
-    { id: 'vintage_1950', label: '📺 Cổ điển 1950s', prompt: 'Vintage 1950s photo style, film grain, sepia or faded technicolor, retro fashion, old-school photography aesthetics, nostalgia.' },
-    { id: 'noir', label: '🕵️ Phim Noir (Trắng đen)', prompt: 'Film Noir style, black and white, high contrast, dramatic shadows, dutch angles, mystery, silhouette, classic cinema.' },
-    { id: 'pixel_art', label: '👾 Pixel Art (8-Bit)', prompt: '8-bit Pixel Art, retro game style, blocky, vibrant colors, nostalgic gaming aesthetic, clean sprites.' },
-    { id: 'claymation', label: '🧱 Đất sét (Claymation)', prompt: 'Claymation style, plasticine texture, stop motion look, Aardman inspired, fingerprint details on clay, handmade feel.' },
-    { id: 'comic_book', label: '💬 Truyện tranh (Comic)', prompt: 'Comic book style, bold outlines, halftone patterns, vibrant colors, action lines, graphic novel aesthetic.' },
-    { id: 'fantasy_art', label: '🐉 Giả tưởng Epic (Fantasy)', prompt: 'Fantasy art style, Dungeons & Dragons style, magical atmosphere, glowing effects, epic composition, highly detailed armor and environments.' },
-    { id: 'horror', label: '🧟 Kinh dị (Horror)', prompt: 'Horror style, dark atmosphere, mist, eerie lighting, scary vibes, muted colors, cinematic thriller look.' },
-    { id: 'pencil_sketch', label: '✏️ Phác thảo chì', prompt: 'Pencil sketch style, charcoal, rough lines, artistic shading, monochrome, sketchbook aesthetic.' },
-    { id: 'low_poly', label: '🔷 Low Poly (3D khối)', prompt: 'Low Poly 3D style, geometric shapes, flat shading, minimalist, vibrant colors, game art aesthetic.' },
-    { id: 'steampunk', label: '⚙️ Steampunk (Hơi nước)', prompt: 'Steampunk style, brass and copper tones, gears and clockwork, victorian sci-fi, steam power, industrial aesthetic.' },
-    { id: 'origami', label: '📄 Gấp giấy (Origami)', prompt: 'Paper cut-out style, origami, layered paper texture, depth of field, craft art, soft shadows.' },
-    { id: 'ukiyo_e', label: '🌊 Tranh khắc gỗ Nhật (Ukiyo-e)', prompt: 'Japanese Ukiyo-e woodblock print style, traditional patterns, flat perspective, sweeping lines, Hokusai inspired.' },
-    { id: 'abstract', label: '🌀 Trừu tượng siêu thực', prompt: 'Abstract surrealism, dreamlike, weird shapes, vibrant and contrasting colors, dali-esque, melting reality.' },
-    { id: 'vector_art', label: '📐 Vector Art (Đồ họa phẳng)', prompt: 'Vector art style, flat design, clean lines, bold colors, minimalist, corporate illustration style, smooth gradients, scalable vector graphics aesthetic.' },
-    { id: 'sitcom_cartoon', label: '📺 Sitcom Cartoon (2D)', prompt: 'American 2D sitcom cartoon style, thick black outline, flat colors, clean vector, simple and recognizable character design, slightly goofy but expressive facial expressions.' },
-];
-
 // Giới hạn ảnh tham chiếu tối đa là 3
 const MAX_REFERENCE_IMAGES = 3;
 
@@ -98,6 +129,23 @@ const dataUrlToBase64 = (dataUrl: string): string => {
   return dataUrl.split(',')[1];
 };
 
+// Ảnh mẫu của phong cách: thu nhỏ (cạnh dài tối đa `maxSize` px, JPEG) để lưu gọn trong localStorage / file JSON
+const fileToThumbnail = async (file: File, maxSize: number = 256): Promise<string> => {
+  const { dataUrl } = await fileToDataUrl(file);
+  const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = dataUrl;
+  });
+  const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.width * scale));
+  canvas.height = Math.max(1, Math.round(image.height * scale));
+  canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
+
 const getTimestamp = () => {
   const now = new Date();
   const yyyy = now.getFullYear();
@@ -109,20 +157,107 @@ const getTimestamp = () => {
   return `${yyyy}${mm}${dd}_${h}${m}${s}`;
 };
 
+// Kịch bản dạng phụ đề => danh sách cue + văn bản thuần (không số thứ tự, không mốc thời gian)
+const parseScriptInput = (script: string): { cues: SubtitleCue[]; text: string } => {
+    const cues = looksLikeSubtitles(script) ? parseSubtitles(script) : [];
+    return { cues, text: cues.length > 0 ? cuesToPlainText(cues) : script };
+};
+
+// Thời lượng đọc của kịch bản: phụ đề => theo mốc thời gian thật, văn bản => theo tốc độ đọc
+const estimateScriptSeconds = (script: string, wordsPerMinute: number): number => {
+    const { cues, text } = parseScriptInput(script);
+    if (cues.length > 0) return Math.max(0, cues[cues.length - 1].end - cues[0].start);
+    return estimateNarrationSeconds(text, wordsPerMinute);
+};
+
+// Chế độ 'duration' => chế độ 'fixed' với số cảnh suy ra từ thời lượng đọc
+const resolveSegmentation = (
+    script: string,
+    segmentationMode: SegmentationMode,
+    targetSceneCount: number,
+    narration: NarrationSettings
+): { mode: 'ai' | 'punctuation' | 'fixed'; targetSceneCount: number } => {
+    if (segmentationMode !== 'duration') return { mode: segmentationMode, targetSceneCount };
+    const totalSeconds = estimateScriptSeconds(script, narration.wordsPerMinute);
+    return { mode: 'fixed', targetSceneCount: sceneCountForDuration(totalSeconds, narration.minSecondsPerScene, narration.maxSecondsPerScene) };
+};
+
+// Ước lượng số cảnh để hiển thị tiến độ khi streaming (tách cảnh cục bộ => số cảnh chính xác)
+const estimateSceneCount = (script: string, segmentationMode: 'ai' | 'punctuation' | 'fixed', targetSceneCount: number, localSegmentation: boolean = false): number => {
+    const { cues } = parseScriptInput(script);
+    if (cues.length > 0) return Math.max(1, segmentCues(cues, segmentationMode, targetSceneCount).length);
+    if (localSegmentation && segmentationMode !== 'ai') {
+        return Math.max(1, segmentScript(script, segmentationMode, targetSceneCount).length);
+    }
+    if (segmentationMode === 'fixed') return targetSceneCount;
+    if (segmentationMode === 'punctuation') {
+        return Math.max(1, (script.match(/[.!?…]+(\s|$)/g) || []).length);
+    }
+    const words = script.split(/\s+/).filter(Boolean).length;
+    return Math.max(1, Math.round(words / 11));
+};
+
 const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleString('vi-VN');
 };
 
-const exportToExcel = (prompts: ScenePrompt[], filenamePrefix: string = 'storyboard') => {
+// Định dạng một prompt trung tính theo công cụ đích của cảnh (cảnh cũ chưa có `render` => giữ nguyên)
+const renderVariant = (scene: ScenePrompt, basePrompt: string): string =>
+    scene.render ? renderPrompt(basePrompt, scene.render).prompt : basePrompt;
+
+// Gán prompt trung tính mới cho cảnh và render lại imagePrompt/videoPrompt + negative prompt
+const renderScene = (scene: ScenePrompt, basePrompt: string, render: PromptRenderSettings | undefined = scene.render): ScenePrompt => {
+    const field = scene.videoPrompt ? 'videoPrompt' : 'imagePrompt';
+    if (!render) return { ...scene, basePrompt, [field]: basePrompt };
+    const rendered = renderPrompt(basePrompt, render);
+    return { ...scene, basePrompt, [field]: rendered.prompt, negativePrompt: rendered.negativePrompt, render };
+};
+
+const exportToExcel = (prompts: ScenePrompt[], filenamePrefix: string = 'storyboard', includeAlternatives: boolean = false) => {
       if (prompts.length === 0) return;
+      const withAlternatives = includeAlternatives && prompts.some(p => (p.promptVariants?.length || 0) > 1);
+      const withNegative = prompts.some(p => p.negativePrompt);
+      const withTiming = prompts.some(p => p.startTime !== undefined);
+      const withShotList = prompts.some(p => !isShotDetailsEmpty(resolveShotDetails(p.shot, p.shotOverrides)));
+      const withClips = prompts.some(p => (p.clips?.length || 0) > 0);
       
-      const wsData = prompts.map((p, index) => ({
+      const wsData = prompts.flatMap((p, index) => [{
           'Cảnh': index + 1,
+          ...(withClips ? { 'Clip': p.clips?.length ? `${p.clips.length} clip` : '' } : {}),
+          ...(withTiming ? {
+              'Bắt đầu': p.startTime !== undefined ? formatTimestamp(p.startTime) : '',
+              'Kết thúc': p.endTime !== undefined ? formatTimestamp(p.endTime) : '',
+              'Cue': formatCueRange(p.cueIndices || [])
+          } : {}),
           'Nội dung Script': p.scriptLine,
           // Conditionally add prompt based on existence
           ...(p.imagePrompt ? { 'Prompt Hình ảnh': p.imagePrompt } : {}),
-          ...(p.videoPrompt ? { 'Prompt Video': p.videoPrompt } : {})
-      }));
+          ...(p.videoPrompt ? { 'Prompt Video': p.videoPrompt } : {}),
+          ...(withNegative ? { 'Negative Prompt': p.negativePrompt || '' } : {}),
+          ...(withShotList ? (() => {
+              const shot = resolveShotDetails(p.shot, p.shotOverrides);
+              return Object.fromEntries(SHOT_FIELDS.map(field => [
+                  SHOT_FIELD_LABELS[field],
+                  field === 'durationSeconds' ? (shot.durationSeconds || '') : formatShotValue(shot, field)
+              ]));
+          })() : {}),
+          // Các phương án không được chọn, mỗi phương án một đoạn
+          ...(withAlternatives ? {
+              'Phương án khác': (p.promptVariants || [])
+                  .filter((_, i) => i !== (p.selectedVariant || 0))
+                  .map(variant => renderVariant(p, variant))
+                  .join('\n\n')
+          } : {})
+      },
+      // Các clip nằm ngay dưới cảnh cha, đánh số 3.1, 3.2...
+      ...(p.clips || []).map((clip, clipIndex) => ({
+          'Cảnh': `${index + 1}.${clipIndex + 1}`,
+          'Clip': `${clipIndex + 1}/${p.clips!.length} · ${clip.durationSeconds}s`,
+          'Nội dung Script': `↳ Kết thúc: ${clip.endState}`,
+          'Prompt Video': clip.prompt,
+          ...(withNegative ? { 'Negative Prompt': clip.negativePrompt || '' } : {}),
+          ...(withShotList ? { [SHOT_FIELD_LABELS.durationSeconds]: clip.durationSeconds } : {})
+      }))]);
       
       const wb = XLSX.utils.book_new();
       const ws = XLSX.utils.json_to_sheet(wsData);
@@ -371,6 +506,236 @@ const WelcomeGuide: FC = () => (
     </div>
 );
 
+// FIDELITY REPORT
+const FIDELITY_ISSUE_LABELS: Record<FidelityIssueType, string> = {
+    dropped: 'Bỏ sót',
+    duplicated: 'Lặp lại',
+    paraphrased: 'Diễn giải',
+    added: 'Thêm mới',
+};
+
+const FidelityPanel: FC<{ report: FidelityReport; onRepair: () => void }> = ({ report, onRepair }) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+
+    if (report.issues.length === 0) {
+        return (
+            <div className="flex items-center gap-2 bg-emerald-900/20 border border-emerald-500/30 text-emerald-400 text-xs font-medium p-3 rounded-xl">
+                <CheckCircleIcon className="h-4 w-4" />
+                {report.isExact ? 'Nội dung khớp 100% với kịch bản gốc.' : 'Nội dung khớp với kịch bản gốc (chỉ khác khoảng trắng).'}
+            </div>
+        );
+    }
+
+    const counts = report.issues.reduce((acc, issue) => {
+        acc[issue.type] = (acc[issue.type] || 0) + 1;
+        return acc;
+    }, {} as Partial<Record<FidelityIssueType, number>>);
+
+    return (
+        <div className="bg-amber-900/20 border border-amber-500/30 rounded-xl p-4 space-y-3">
+            <div className="flex items-center justify-between gap-3">
+                <div className="flex items-start gap-2">
+                    <WarningIcon className="h-5 w-5 text-amber-400 flex-shrink-0" />
+                    <div>
+                        <p className="text-sm font-bold text-amber-300">
+                            Phát hiện {report.issues.length} sai lệch so với kịch bản gốc (giữ nguyên {(report.coverage * 100).toFixed(1)}% số từ)
+                        </p>
+                        <p className="text-xs text-amber-200/70 mt-1">
+                            {(Object.keys(counts) as FidelityIssueType[]).map(type => `${FIDELITY_ISSUE_LABELS[type]}: ${counts[type]}`).join(' · ')}
+                        </p>
+                    </div>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                    <button
+                        onClick={() => setIsExpanded(!isExpanded)}
+                        className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-xs font-medium border border-slate-700"
+                    >
+                        {isExpanded ? 'Ẩn chi tiết' : 'Xem chi tiết'}
+                    </button>
+                    <button
+                        onClick={onRepair}
+                        className="px-3 py-1.5 bg-amber-600 hover:bg-amber-500 text-white rounded-lg text-xs font-bold"
+                    >
+                        Tự động sửa
+                    </button>
+                </div>
+            </div>
+            {isExpanded && (
+                <div className="max-h-64 overflow-y-auto space-y-2 pr-1 custom-scrollbar">
+                    {report.issues.map((issue, idx) => (
+                        <div key={idx} className="bg-slate-950/50 border border-slate-800 rounded-lg p-2 text-xs">
+                            <div className="flex items-center gap-2 mb-1">
+                                <span className="font-bold text-slate-400">Cảnh {issue.sceneIndex + 1}</span>
+                                <span className="uppercase text-[10px] font-bold text-amber-400">{FIDELITY_ISSUE_LABELS[issue.type]}</span>
+                            </div>
+                            {issue.originalText && <p className="text-red-300 line-through decoration-red-500/70">{issue.originalText}</p>}
+                            {issue.outputText && <p className="text-emerald-300">{issue.outputText}</p>}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+// RESPONSE REPAIR REPORT
+// Phản hồi của model đã được sửa / bổ sung trong lần tạo gần nhất
+const ResponseRepairPanel: FC<{ entries: RepairEntry[]; onDismiss: () => void }> = ({ entries, onDismiss }) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const warnings = entries.filter(entry => !isCosmeticRepair(entry));
+    const counts = entries.reduce((acc, entry) => {
+        acc[entry.action] = (acc[entry.action] || 0) + 1;
+        return acc;
+    }, {} as Partial<Record<RepairAction, number>>);
+    const hasMissing = entries.some(entry => entry.action === 'still_missing');
+
+    return (
+        <div className={`${warnings.length > 0 ? 'bg-amber-900/20 border-amber-500/30' : 'bg-slate-900/60 border-slate-700'} border rounded-xl p-4 space-y-3`}>
+            <div className="flex items-center justify-between gap-3">
+                <div className="flex items-start gap-2">
+                    <WarningIcon className={`h-5 w-5 flex-shrink-0 ${warnings.length > 0 ? 'text-amber-400' : 'text-slate-500'}`} />
+                    <div>
+                        <p className={`text-sm font-bold ${warnings.length > 0 ? 'text-amber-300' : 'text-slate-300'}`}>
+                            {hasMissing
+                                ? 'Phản hồi của model chưa đầy đủ: một số cảnh vẫn thiếu prompt'
+                                : `Đã tự sửa phản hồi của model (${entries.length} bước)`}
+                        </p>
+                        <p className="text-xs text-slate-400 mt-1">
+                            {(Object.keys(counts) as RepairAction[]).map(action => `${REPAIR_ACTION_LABELS[action]}: ${counts[action]}`).join(' · ')}
+                        </p>
+                    </div>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                    <button
+                        onClick={() => setIsExpanded(!isExpanded)}
+                        className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-xs font-medium border border-slate-700"
+                    >
+                        {isExpanded ? 'Ẩn chi tiết' : 'Xem chi tiết'}
+                    </button>
+                    <button
+                        onClick={onDismiss}
+                        className="p-1.5 text-slate-500 hover:text-slate-300"
+                        title="Ẩn báo cáo"
+                    >
+                        <XMarkIcon className="h-4 w-4" />
+                    </button>
+                </div>
+            </div>
+            {isExpanded && (
+                <div className="max-h-64 overflow-y-auto space-y-1 pr-1 custom-scrollbar">
+                    {entries.map((entry, idx) => (
+                        <div key={idx} className="bg-slate-950/50 border border-slate-800 rounded-lg px-2 py-1.5 text-xs flex gap-2">
+                            <span className={`uppercase text-[10px] font-bold flex-shrink-0 ${isCosmeticRepair(entry) ? 'text-slate-500' : 'text-amber-400'}`}>{REPAIR_ACTION_LABELS[entry.action]}</span>
+                            <span className="text-slate-300">{entry.detail}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+// USAGE & COST
+const UsageSummaryTable: FC<{ title: string; rows: UsageSummaryRow[]; emptyText: string }> = ({ title, rows, emptyText }) => (
+    <div>
+        <label className="block text-sm font-medium text-slate-300 mb-2">{title}</label>
+        {rows.length === 0 ? (
+            <p className="text-xs text-slate-500 italic">{emptyText}</p>
+        ) : (
+            <table className="w-full text-xs">
+                <thead>
+                    <tr className="text-slate-500 text-left">
+                        <th className="font-medium pb-1"></th>
+                        <th className="font-medium pb-1 text-right">Lượt</th>
+                        <th className="font-medium pb-1 text-right">Input</th>
+                        <th className="font-medium pb-1 text-right">Output</th>
+                        <th className="font-medium pb-1 text-right">Chi phí</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map(row => (
+                        <tr key={row.label} className="border-t border-slate-800 text-slate-300">
+                            <td className="py-1 font-mono">{row.label}</td>
+                            <td className="py-1 text-right">{row.runs}</td>
+                            <td className="py-1 text-right font-mono">{formatTokens(row.inputTokens)}</td>
+                            <td className="py-1 text-right font-mono">{formatTokens(row.outputTokens)}</td>
+                            <td
+                                className={`py-1 text-right font-mono ${row.unpricedModels.length > 0 ? 'text-amber-400' : 'text-emerald-400'}`}
+                                title={row.unpricedModels.length > 0 ? `Chưa có giá: ${row.unpricedModels.join(', ')}` : undefined}
+                            >
+                                {formatCost(row.cost, row.unpricedModels)}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        )}
+    </div>
+);
+
+// Bảng giá USD / 1 triệu token, model khớp chính xác hoặc theo tiền tố khi kết thúc bằng `*`
+const PriceTableEditor: FC<{ priceTable: ModelPrice[]; setPriceTable: (table: ModelPrice[]) => void }> = ({ priceTable, setPriceTable }) => {
+    const updateRow = (index: number, changes: Partial<ModelPrice>) => {
+        setPriceTable(priceTable.map((row, i) => i === index ? { ...row, ...changes } : row));
+    };
+    const parsePrice = (value: string) => Math.max(0, parseFloat(value) || 0);
+
+    return (
+        <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">Bảng giá (USD / 1M token)</label>
+            <div className="space-y-1">
+                <div className="grid grid-cols-[1fr_80px_80px_24px] gap-2 text-[10px] uppercase text-slate-500 font-bold">
+                    <span>Model (* = tiền tố)</span><span>Input</span><span>Output</span><span></span>
+                </div>
+                {priceTable.map((row, idx) => (
+                    <div key={idx} className="grid grid-cols-[1fr_80px_80px_24px] gap-2 items-center">
+                        <input
+                            type="text"
+                            value={row.model}
+                            onChange={(e) => updateRow(idx, { model: e.target.value })}
+                            className="bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded p-1.5 font-mono"
+                        />
+                        <input
+                            type="number"
+                            min={0}
+                            step={0.01}
+                            value={row.inputPerMillion}
+                            onChange={(e) => updateRow(idx, { inputPerMillion: parsePrice(e.target.value) })}
+                            className="bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded p-1.5 font-mono"
+                        />
+                        <input
+                            type="number"
+                            min={0}
+                            step={0.01}
+                            value={row.outputPerMillion}
+                            onChange={(e) => updateRow(idx, { outputPerMillion: parsePrice(e.target.value) })}
+                            className="bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded p-1.5 font-mono"
+                        />
+                        <button onClick={() => setPriceTable(priceTable.filter((_, i) => i !== idx))} className="text-slate-500 hover:text-red-400" title="Xóa">
+                            <TrashIcon className="h-4 w-4" />
+                        </button>
+                    </div>
+                ))}
+            </div>
+            <div className="flex items-center gap-4 mt-2">
+                <button
+                    onClick={() => setPriceTable([...priceTable, { model: '', inputPerMillion: 0, outputPerMillion: 0 }])}
+                    className="text-xs text-emerald-400 hover:text-emerald-300 font-medium"
+                >
+                    + Thêm model
+                </button>
+                <button
+                    onClick={() => setPriceTable(DEFAULT_PRICE_TABLE.map(row => ({ ...row })))}
+                    className="text-xs text-slate-400 hover:text-emerald-400 underline"
+                >
+                    Khôi phục mặc định
+                </button>
+            </div>
+            <p className="text-xs text-slate-500 mt-2">* Tên model phải khớp chính xác; thêm <code>*</code> ở cuối để áp cho mọi model cùng tiền tố. Model không có trong bảng (ví dụ model local) hiển thị "không có giá".</p>
+        </div>
+    );
+};
+
 // --- MODALS ---
 const ApiSettingsModal: FC<{
     isOpen: boolean;
@@ -379,17 +744,52 @@ const ApiSettingsModal: FC<{
     setApiKeys: (keys: ApiKeyData[]) => void;
     selectedModel: string;
     setSelectedModel: (model: string) => void;
-    key4uKey: string;
-    setKey4uKey: (key: string) => void;
-}> = ({ isOpen, onClose, apiKeys, setApiKeys, selectedModel, setSelectedModel, key4uKey, setKey4uKey }) => {
+    openAIConfig: OpenAICompatibleConfig;
+    setOpenAIConfig: (config: OpenAICompatibleConfig) => void;
+    providerPriority: ProviderSlot[];
+    setProviderPriority: (priority: ProviderSlot[]) => void;
+    keyRotationPolicy: KeyRotationPolicy;
+    setKeyRotationPolicy: (policy: KeyRotationPolicy) => void;
+    sessions: SavedSession[];
+    priceTable: ModelPrice[];
+    setPriceTable: (table: ModelPrice[]) => void;
+    cacheSettings: CacheSettings;
+    setCacheSettings: (settings: CacheSettings) => void;
+}> = ({ isOpen, onClose, apiKeys, setApiKeys, selectedModel, setSelectedModel, openAIConfig, setOpenAIConfig, providerPriority, setProviderPriority, keyRotationPolicy, setKeyRotationPolicy, sessions, priceTable, setPriceTable, cacheSettings, setCacheSettings }) => {
     const [newKey, setNewKey] = useState('');
     const [isValidating, setIsValidating] = useState(false);
-    const [activeTab, setActiveTab] = useState<'gemini' | 'key4u'>('gemini');
-    const [tempKey4u, setTempKey4u] = useState(key4uKey || '');
+    const [activeTab, setActiveTab] = useState<'gemini' | 'openai' | 'priority' | 'usage' | 'cache'>('gemini');
+    const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
+    const [tempOpenAI, setTempOpenAI] = useState<OpenAICompatibleConfig>(openAIConfig);
+    const [availableModels, setAvailableModels] = useState<string[]>([]);
+    const [isLoadingModels, setIsLoadingModels] = useState(false);
+
+    const [checkingKey, setCheckingKey] = useState<string | null>(null);
+    const [now, setNow] = useState(Date.now());
+
+    const usageByKey = useMemo(() => summarizeUsageByKey(sessions, priceTable), [sessions, priceTable]);
+    const usageByMonth = useMemo(() => summarizeUsageByMonth(sessions, priceTable), [sessions, priceTable]);
+
+    useEffect(() => {
+        setTempOpenAI(openAIConfig);
+    }, [openAIConfig]);
+
+    useEffect(() => {
+        if (isOpen && activeTab === 'cache') getCacheStats().then(setCacheStats);
+    }, [isOpen, activeTab]);
+
+    const handleClearCache = async () => {
+        if (!confirm("Xóa toàn bộ kết quả đã lưu? Lần tạo tiếp theo sẽ gọi lại AI.")) return;
+        await clearResponseCache();
+        setCacheStats(await getCacheStats());
+    };
 
+    // Cập nhật đồng hồ đếm ngược thời gian nghỉ của key
     useEffect(() => {
-        setTempKey4u(key4uKey);
-    }, [key4uKey]);
+        if (!isOpen) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [isOpen]);
 
     if (!isOpen) return null;
 
@@ -422,12 +822,71 @@ const ApiSettingsModal: FC<{
         localStorage.setItem('sbgen_api_keys', JSON.stringify(updatedKeys));
     };
 
+    const handleRecheckKey = async (keyToCheck: string) => {
+        setCheckingKey(keyToCheck);
+        const isValid = await validateApiKey(keyToCheck, selectedModel);
+        setCheckingKey(null);
+        const updatedKeys = apiKeys.map(k => k.key === keyToCheck ? {
+            ...k,
+            status: isValid ? 'valid' as const : 'invalid' as const,
+            ...(isValid ? { cooldownUntil: undefined, consecutiveFailures: 0 } : {})
+        } : k);
+        setApiKeys(updatedKeys);
+        localStorage.setItem('sbgen_api_keys', JSON.stringify(updatedKeys));
+    };
+
+    const handleChangePolicy = (policy: KeyRotationPolicy) => {
+        setKeyRotationPolicy(policy);
+        localStorage.setItem('sbgen_key_policy', policy);
+    };
+
     const toggleActiveKey = (keyToToggle: string) => {
         const updatedKeys = apiKeys.map(k => k.key === keyToToggle ? { ...k, isActive: !k.isActive } : k);
         setApiKeys(updatedKeys);
         localStorage.setItem('sbgen_api_keys', JSON.stringify(updatedKeys));
     };
 
+    const handleLoadModels = async () => {
+        setIsLoadingModels(true);
+        try {
+            const models = await listOpenAICompatibleModels(tempOpenAI.baseUrl, tempOpenAI.apiKey);
+            setAvailableModels(models);
+            if (models.length === 0) {
+                alert('Endpoint không trả về model nào.');
+            } else if (!models.includes(tempOpenAI.model)) {
+                setTempOpenAI({ ...tempOpenAI, model: models[0] });
+            }
+        } catch (error: any) {
+            console.error("Load models failed:", error);
+            alert(`Không thể tải danh sách model: ${error.message || error}`);
+        } finally {
+            setIsLoadingModels(false);
+        }
+    };
+
+    const handleSaveOpenAI = () => {
+        setOpenAIConfig(tempOpenAI);
+        localStorage.setItem('sbgen_openai_config', JSON.stringify(tempOpenAI));
+        alert('Đã lưu cấu hình OpenAI-compatible!');
+    };
+
+    const savePriority = (updated: ProviderSlot[]) => {
+        setProviderPriority(updated);
+        localStorage.setItem('sbgen_provider_priority', JSON.stringify(updated));
+    };
+
+    const moveProvider = (index: number, direction: -1 | 1) => {
+        const target = index + direction;
+        if (target < 0 || target >= providerPriority.length) return;
+        const updated = [...providerPriority];
+        [updated[index], updated[target]] = [updated[target], updated[index]];
+        savePriority(updated);
+    };
+
+    const toggleProvider = (index: number) => {
+        savePriority(providerPriority.map((slot, i) => i === index ? { ...slot, enabled: !slot.enabled } : slot));
+    };
+
     return (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-fade-in">
             <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-lg p-6 shadow-2xl relative">
@@ -447,10 +906,28 @@ const ApiSettingsModal: FC<{
                         Gemini API
                     </button>
                     <button
-                        onClick={() => setActiveTab('key4u')}
-                        className={`pb-2 px-4 text-sm font-bold transition-colors ${activeTab === 'key4u' ? 'text-emerald-400 border-b-2 border-emerald-400' : 'text-slate-400 hover:text-slate-300'}`}
+                        onClick={() => setActiveTab('openai')}
+                        className={`pb-2 px-4 text-sm font-bold transition-colors ${activeTab === 'openai' ? 'text-emerald-400 border-b-2 border-emerald-400' : 'text-slate-400 hover:text-slate-300'}`}
+                    >
+                        OpenAI-compatible
+                    </button>
+                    <button
+                        onClick={() => setActiveTab('priority')}
+                        className={`pb-2 px-4 text-sm font-bold transition-colors ${activeTab === 'priority' ? 'text-emerald-400 border-b-2 border-emerald-400' : 'text-slate-400 hover:text-slate-300'}`}
+                    >
+                        Thứ tự ưu tiên
+                    </button>
+                    <button
+                        onClick={() => setActiveTab('usage')}
+                        className={`pb-2 px-4 text-sm font-bold transition-colors ${activeTab === 'usage' ? 'text-emerald-400 border-b-2 border-emerald-400' : 'text-slate-400 hover:text-slate-300'}`}
+                    >
+                        Chi phí
+                    </button>
+                    <button
+                        onClick={() => setActiveTab('cache')}
+                        className={`pb-2 px-4 text-sm font-bold transition-colors ${activeTab === 'cache' ? 'text-emerald-400 border-b-2 border-emerald-400' : 'text-slate-400 hover:text-slate-300'}`}
                     >
-                        Key4U
+                        Cache
                     </button>
                 </div>
                 
@@ -477,32 +954,65 @@ const ApiSettingsModal: FC<{
 
                         <div className="max-h-40 overflow-y-auto space-y-2 pr-1 custom-scrollbar bg-slate-950/50 p-2 rounded-lg border border-slate-800">
                             {apiKeys.length === 0 && <p className="text-xs text-slate-500 text-center py-4">Chưa có key nào. Vui lòng thêm key.</p>}
-                            {apiKeys.map((k, idx) => (
-                                <div key={idx} className="flex items-center justify-between bg-slate-800 p-2 rounded border border-slate-700">
-                                    <div className="flex items-center gap-2 overflow-hidden">
-                                        <input 
-                                            type="checkbox" 
-                                            checked={k.isActive} 
-                                            onChange={() => toggleActiveKey(k.key)}
-                                            className="h-4 w-4 rounded border-slate-600 text-emerald-600 focus:ring-emerald-600 bg-slate-700"
-                                        />
-                                        <div className="flex flex-col">
-                                            <span className="text-xs font-mono text-slate-300 truncate w-32 md:w-48">
-                                                {k.key.substring(0, 8)}...{k.key.substring(k.key.length - 6)}
-                                            </span>
-                                            <span className={`text-[10px] uppercase font-bold ${k.status === 'valid' ? 'text-emerald-400' : 'text-red-400'}`}>
-                                                {k.status === 'valid' ? 'Hoạt động' : 'Không hợp lệ'}
-                                            </span>
+                            {apiKeys.map((k, idx) => {
+                                const cooldownSeconds = k.cooldownUntil && k.cooldownUntil > now ? Math.ceil((k.cooldownUntil - now) / 1000) : 0;
+                                return (
+                                <div key={idx} className="bg-slate-800 p-2 rounded border border-slate-700">
+                                    <div className="flex items-center justify-between">
+                                        <div className="flex items-center gap-2 overflow-hidden">
+                                            <input 
+                                                type="checkbox" 
+                                                checked={k.isActive} 
+                                                onChange={() => toggleActiveKey(k.key)}
+                                                className="h-4 w-4 rounded border-slate-600 text-emerald-600 focus:ring-emerald-600 bg-slate-700"
+                                            />
+                                            <div className="flex flex-col">
+                                                <span className="text-xs font-mono text-slate-300 truncate w-32 md:w-48">
+                                                    {k.key.substring(0, 8)}...{k.key.substring(k.key.length - 6)}
+                                                </span>
+                                                <span className={`text-[10px] uppercase font-bold ${cooldownSeconds > 0 ? 'text-amber-400' : k.status === 'valid' ? 'text-emerald-400' : k.status === 'unknown' ? 'text-slate-400' : 'text-red-400'}`}>
+                                                    {cooldownSeconds > 0 ? `Tạm nghỉ ${cooldownSeconds}s (429)` : k.status === 'valid' ? 'Hoạt động' : k.status === 'unknown' ? 'Chưa kiểm tra' : 'Không hợp lệ'}
+                                                </span>
+                                            </div>
+                                        </div>
+                                        <div className="flex items-center gap-1">
+                                            <button onClick={() => handleRecheckKey(k.key)} disabled={checkingKey === k.key} className="text-slate-500 hover:text-emerald-400 p-1 disabled:opacity-50" title="Kiểm tra lại">
+                                                {checkingKey === k.key ? <SpinnerIcon className="animate-spin h-4 w-4" /> : <ArrowPathIcon className="h-4 w-4" />}
+                                            </button>
+                                            <button onClick={() => handleDeleteKey(k.key)} className="text-slate-500 hover:text-red-400 p-1">
+                                                <TrashIcon className="h-4 w-4" />
+                                            </button>
                                         </div>
                                     </div>
-                                    <button onClick={() => handleDeleteKey(k.key)} className="text-slate-500 hover:text-red-400 p-1">
-                                        <TrashIcon className="h-4 w-4" />
-                                    </button>
+                                    <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1 pl-6 text-[10px] text-slate-500 font-mono">
+                                        <span className="text-emerald-500/80">✓ {k.successCount || 0}</span>
+                                        <span className="text-red-400/80">✗ {k.errorCount || 0}</span>
+                                        <span className="text-amber-400/80">429: {k.quotaErrorCount || 0}</span>
+                                        {(() => {
+                                            const keyUsage = usageByKey.find(row => row.label === maskApiKey(k.key));
+                                            return keyUsage && <span className="text-emerald-400/80">{formatTokens(keyUsage.totalTokens)} token · {formatCost(keyUsage.cost, keyUsage.unpricedModels)}</span>;
+                                        })()}
+                                        {k.lastUsed && <span>Dùng lúc {new Date(k.lastUsed).toLocaleTimeString('vi-VN')}</span>}
+                                    </div>
+                                    {k.lastError && <p className="pl-6 mt-1 text-[10px] text-red-400/70 truncate" title={k.lastError}>{k.lastError}</p>}
                                 </div>
-                            ))}
+                                );
+                            })}
+                        </div>
+                        <div className="mt-3 flex items-center gap-2">
+                            <label className="text-xs text-slate-400 whitespace-nowrap">Chính sách xoay vòng:</label>
+                            <select
+                                value={keyRotationPolicy}
+                                onChange={(e) => handleChangePolicy(e.target.value as KeyRotationPolicy)}
+                                className="flex-1 bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded-md p-1.5 focus:ring-emerald-500"
+                            >
+                                {(Object.keys(KEY_ROTATION_POLICY_LABELS) as KeyRotationPolicy[]).map(policy => (
+                                    <option key={policy} value={policy}>{KEY_ROTATION_POLICY_LABELS[policy]}</option>
+                                ))}
+                            </select>
                         </div>
                         <p className="text-xs text-slate-500 mt-2">
-                           * Hệ thống sẽ tự động sử dụng ngẫu nhiên các key đang hoạt động để tránh giới hạn.
+                           * Key bị lỗi 429 sẽ tạm nghỉ (30s, 60s, 120s...) và hệ thống tự chuyển sang key khác trước khi dùng key dự phòng.
                         </p>
                     </div>
 
@@ -535,42 +1045,201 @@ const ApiSettingsModal: FC<{
                 </div>
                 )}
 
-                {activeTab === 'key4u' && (
-                    <div className="space-y-6">
+                {activeTab === 'openai' && (
+                    <div className="space-y-5">
                         <div>
-                            <label className="block text-sm font-medium text-slate-300 mb-2">Cấu hình Key4U API</label>
-                            <div className="flex gap-2 mb-4">
-                                <input
-                                    type="password"
-                                    value={tempKey4u}
-                                    onChange={(e) => setTempKey4u(e.target.value)}
-                                    placeholder="Nhập API Key của Key4U (sk-...)"
-                                    className="flex-1 bg-slate-800 border border-slate-700 p-2.5 rounded-md focus:ring-2 focus:ring-emerald-500 text-white text-sm"
-                                />
+                            <label className="block text-sm font-medium text-slate-300 mb-2">Base URL</label>
+                            <div className="flex flex-wrap gap-2 mb-2">
+                                {OPENAI_ENDPOINT_PRESETS.map(preset => (
+                                    <button
+                                        key={preset.id}
+                                        onClick={() => setTempOpenAI({ ...tempOpenAI, baseUrl: preset.baseUrl })}
+                                        className={`px-2 py-1 rounded text-[11px] font-bold border transition-colors ${tempOpenAI.baseUrl === preset.baseUrl ? 'bg-emerald-900/30 border-emerald-500 text-emerald-400' : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-600'}`}
+                                    >
+                                        {preset.label}
+                                    </button>
+                                ))}
+                            </div>
+                            <input
+                                type="text"
+                                value={tempOpenAI.baseUrl}
+                                onChange={(e) => setTempOpenAI({ ...tempOpenAI, baseUrl: e.target.value })}
+                                placeholder="http://localhost:1234/v1"
+                                className="w-full bg-slate-800 border border-slate-700 p-2.5 rounded-md focus:ring-2 focus:ring-emerald-500 text-white text-sm font-mono"
+                            />
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium text-slate-300 mb-2">API Key <span className="text-xs text-slate-500 font-normal">(bỏ trống nếu server local không yêu cầu)</span></label>
+                            <input
+                                type="password"
+                                value={tempOpenAI.apiKey}
+                                onChange={(e) => setTempOpenAI({ ...tempOpenAI, apiKey: e.target.value })}
+                                placeholder="sk-..."
+                                className="w-full bg-slate-800 border border-slate-700 p-2.5 rounded-md focus:ring-2 focus:ring-emerald-500 text-white text-sm"
+                            />
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium text-slate-300 mb-2">Model</label>
+                            <div className="flex gap-2">
+                                {availableModels.length > 0 ? (
+                                    <select
+                                        value={tempOpenAI.model}
+                                        onChange={(e) => setTempOpenAI({ ...tempOpenAI, model: e.target.value })}
+                                        className="flex-1 bg-slate-800 border border-slate-700 p-2.5 rounded-md focus:ring-2 focus:ring-emerald-500 text-white text-sm font-mono"
+                                    >
+                                        {availableModels.map(model => <option key={model} value={model}>{model}</option>)}
+                                    </select>
+                                ) : (
+                                    <input
+                                        type="text"
+                                        value={tempOpenAI.model}
+                                        onChange={(e) => setTempOpenAI({ ...tempOpenAI, model: e.target.value })}
+                                        placeholder="gpt-4o-mini"
+                                        className="flex-1 bg-slate-800 border border-slate-700 p-2.5 rounded-md focus:ring-2 focus:ring-emerald-500 text-white text-sm font-mono"
+                                    />
+                                )}
                                 <button
-                                    onClick={() => {
-                                        setKey4uKey(tempKey4u);
-                                        localStorage.setItem('sbgen_key4u_key', tempKey4u);
-                                        alert('Đã lưu Key4U API Key!');
-                                    }}
-                                    className="bg-emerald-600 hover:bg-emerald-500 text-white px-4 py-2 rounded-md text-sm font-bold min-w-[100px]"
+                                    onClick={handleLoadModels}
+                                    disabled={isLoadingModels || !tempOpenAI.baseUrl}
+                                    className="bg-slate-700 hover:bg-slate-600 text-white px-3 py-2 rounded-md text-xs font-bold disabled:opacity-50 flex items-center gap-1"
+                                    title="Tải danh sách model từ /v1/models"
                                 >
-                                    Lưu Key
+                                    {isLoadingModels ? <SpinnerIcon className="animate-spin h-4 w-4" /> : <ArrowPathIcon className="h-4 w-4" />}
+                                    Tải model
                                 </button>
                             </div>
-                            <div className="mt-4 p-4 bg-slate-900/50 rounded-lg border border-slate-700/50 space-y-3">
-                                <h4 className="text-sm font-bold text-emerald-400">Hướng dẫn lấy Key4U API:</h4>
-                                <ol className="list-decimal list-inside text-xs text-slate-400 space-y-2">
-                                    <li>Truy cập và đăng nhập vào hệ thống Key4U.</li>
-                                    <li>Tạo API Key mới định dạng <code className="bg-slate-800 px-1 rounded text-emerald-300">sk-...</code></li>
-                                    <li>
-                                        Xem hướng dẫn chi tiết tại:{' '}
-                                        <a href="https://docs.key4u.shop/doc-2033270" target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">
-                                            https://docs.key4u.shop/doc-2033270
-                                        </a>
-                                    </li>
-                                </ol>
-                            </div>
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium text-slate-300 mb-2">Temperature: <span className="font-mono text-emerald-400">{tempOpenAI.temperature.toFixed(1)}</span></label>
+                            <input
+                                type="range"
+                                min="0"
+                                max="2"
+                                step="0.1"
+                                value={tempOpenAI.temperature}
+                                onChange={(e) => setTempOpenAI({ ...tempOpenAI, temperature: parseFloat(e.target.value) })}
+                                className="w-full accent-emerald-500"
+                            />
+                        </div>
+
+                        <button
+                            onClick={handleSaveOpenAI}
+                            className="w-full bg-emerald-600 hover:bg-emerald-500 text-white px-4 py-2 rounded-md text-sm font-bold"
+                        >
+                            Lưu cấu hình
+                        </button>
+
+                        <div className="p-4 bg-slate-900/50 rounded-lg border border-slate-700/50 space-y-3">
+                            <h4 className="text-sm font-bold text-emerald-400">Hướng dẫn lấy Key4U API:</h4>
+                            <ol className="list-decimal list-inside text-xs text-slate-400 space-y-2">
+                                <li>Truy cập và đăng nhập vào hệ thống Key4U.</li>
+                                <li>Tạo API Key mới định dạng <code className="bg-slate-800 px-1 rounded text-emerald-300">sk-...</code></li>
+                                <li>
+                                    Xem hướng dẫn chi tiết tại:{' '}
+                                    <a href="https://docs.key4u.shop/doc-2033270" target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">
+                                        https://docs.key4u.shop/doc-2033270
+                                    </a>
+                                </li>
+                            </ol>
+                            <p className="text-xs text-slate-500">
+                                * Với LM Studio / Ollama / vLLM: chạy server local, chọn preset tương ứng rồi bấm <strong>Tải model</strong>.
+                            </p>
+                        </div>
+                    </div>
+                )}
+
+                {activeTab === 'priority' && (
+                    <div className="space-y-4">
+                        <label className="block text-sm font-medium text-slate-300">Thứ tự thử Provider</label>
+                        <div className="space-y-2 bg-slate-950/50 p-2 rounded-lg border border-slate-800">
+                            {providerPriority.map((slot, idx) => (
+                                <div key={slot.id} className={`flex items-center justify-between bg-slate-800 p-2 rounded border border-slate-700 ${slot.enabled ? '' : 'opacity-50'}`}>
+                                    <div className="flex items-center gap-2">
+                                        <input
+                                            type="checkbox"
+                                            checked={slot.enabled}
+                                            onChange={() => toggleProvider(idx)}
+                                            className="h-4 w-4 rounded border-slate-600 text-emerald-600 focus:ring-emerald-600 bg-slate-700"
+                                        />
+                                        <span className="text-xs font-mono text-slate-500 w-4">{idx + 1}.</span>
+                                        <span className="text-sm text-slate-200">{PROVIDER_SLOT_LABELS[slot.id]}</span>
+                                    </div>
+                                    <div className="flex items-center gap-1">
+                                        <button onClick={() => moveProvider(idx, -1)} disabled={idx === 0} className="p-1 text-slate-400 hover:text-emerald-400 disabled:opacity-30" title="Lên">
+                                            <ChevronUpIcon className="h-4 w-4" />
+                                        </button>
+                                        <button onClick={() => moveProvider(idx, 1)} disabled={idx === providerPriority.length - 1} className="p-1 text-slate-400 hover:text-emerald-400 disabled:opacity-30" title="Xuống">
+                                            <ChevronDownIcon className="h-4 w-4" />
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                        <p className="text-xs text-slate-500">
+                            * Hệ thống thử lần lượt từ trên xuống. Provider chưa cấu hình key sẽ được bỏ qua. Mock chỉ dùng để thử nghiệm offline.
+                        </p>
+                        <button
+                            onClick={() => savePriority(DEFAULT_PROVIDER_PRIORITY.map(slot => ({ ...slot })))}
+                            className="text-xs text-slate-400 hover:text-emerald-400 underline"
+                        >
+                            Khôi phục mặc định
+                        </button>
+                    </div>
+                )}
+
+                {activeTab === 'usage' && (
+                    <div className="space-y-6">
+                        <UsageSummaryTable title="Theo tháng" rows={usageByMonth} emptyText="Chưa có dữ liệu token. Chi phí được ghi lại từ các lần tạo storyboard mới." />
+                        <UsageSummaryTable title="Theo API key" rows={usageByKey} emptyText="Chưa có request nào dùng Gemini key." />
+                        <PriceTableEditor priceTable={priceTable} setPriceTable={setPriceTable} />
+                    </div>
+                )}
+
+                {activeTab === 'cache' && (
+                    <div className="space-y-6">
+                        <p className="text-xs text-slate-400">
+                            Kết quả phân cảnh được lưu trong trình duyệt (IndexedDB) theo nội dung kịch bản, thiết lập, model và ảnh tham chiếu.
+                            Chạy lại đúng đầu vào đó sẽ dùng kết quả đã lưu thay vì gọi (và trả tiền cho) AI lần nữa.
+                        </p>
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                id="cacheEnabled"
+                                checked={cacheSettings.enabled}
+                                onChange={(e) => setCacheSettings({ ...cacheSettings, enabled: e.target.checked })}
+                                className="w-4 h-4 text-emerald-500 bg-slate-800 border-slate-600 rounded focus:ring-emerald-500 focus:ring-2"
+                            />
+                            <label htmlFor="cacheEnabled" className="text-sm text-slate-300 cursor-pointer">Lưu và dùng lại kết quả phân cảnh</label>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <label htmlFor="cacheMaxSize" className="text-sm text-slate-300">Dung lượng tối đa</label>
+                            <input
+                                type="number"
+                                id="cacheMaxSize"
+                                min={1}
+                                max={500}
+                                value={cacheSettings.maxSizeMB}
+                                onChange={(e) => setCacheSettings(normalizeCacheSettings({ ...cacheSettings, maxSizeMB: e.target.value }))}
+                                className="w-20 bg-slate-800 border border-slate-700 text-white text-sm rounded p-1.5 focus:ring-1 focus:ring-emerald-500 outline-none"
+                            />
+                            <span className="text-sm text-slate-400">MB</span>
+                            <span className="text-[10px] text-slate-500 italic">(vượt giới hạn sẽ xóa kết quả lâu không dùng nhất)</span>
+                        </div>
+                        <div className="flex items-center justify-between bg-slate-800/50 border border-slate-700 rounded-lg p-3">
+                            <span className="text-sm text-slate-300">
+                                {cacheStats ? `${cacheStats.entries} kết quả · ${formatBytes(cacheStats.totalBytes)}` : 'Đang đọc...'}
+                            </span>
+                            <button
+                                onClick={handleClearCache}
+                                disabled={!cacheStats || cacheStats.entries === 0}
+                                className="flex items-center gap-1 px-3 py-1.5 bg-red-900/40 hover:bg-red-900/60 text-red-300 rounded-lg text-xs font-bold border border-red-500/30 disabled:opacity-40"
+                            >
+                                <TrashIcon className="h-3.5 w-3.5" />
+                                Xóa cache
+                            </button>
                         </div>
                     </div>
                 )}
@@ -692,7 +1361,13 @@ const LibraryModal: FC<{
     sessions: SavedSession[];
     onDelete: (id: string) => void;
     onDownload: (session: SavedSession) => void;
-}> = ({ isOpen, onClose, sessions, onDelete, onDownload }) => {
+    onUseTemplate: (session: SavedSession) => void;
+    priceTable: ModelPrice[];
+    setPriceTable: (table: ModelPrice[]) => void;
+}> = ({ isOpen, onClose, sessions, onDelete, onDownload, onUseTemplate, priceTable, setPriceTable }) => {
+    const [showUsage, setShowUsage] = useState(false);
+    const usageByMonth = useMemo(() => summarizeUsageByMonth(sessions, priceTable), [sessions, priceTable]);
+
     if (!isOpen) return null;
 
     return (
@@ -705,7 +1380,22 @@ const LibraryModal: FC<{
                     <LibraryIcon className="h-6 w-6 text-emerald-400" />
                     Thư viện Session
                 </h3>
-                <p className="text-slate-400 text-sm mb-6">Các phiên làm việc được lưu cục bộ trên trình duyệt.</p>
+                <div className="flex items-center justify-between mb-6">
+                    <p className="text-slate-400 text-sm">Các phiên làm việc được lưu cục bộ trên trình duyệt.</p>
+                    <button
+                        onClick={() => setShowUsage(!showUsage)}
+                        className="text-xs text-slate-400 hover:text-emerald-400 font-medium flex items-center gap-1"
+                    >
+                        Chi phí & Token {showUsage ? <ChevronUpIcon className="h-3 w-3" /> : <ChevronDownIcon className="h-3 w-3" />}
+                    </button>
+                </div>
+
+                {showUsage && (
+                    <div className="bg-slate-950/50 border border-slate-800 rounded-xl p-4 mb-4 space-y-4 max-h-[40vh] overflow-y-auto custom-scrollbar">
+                        <UsageSummaryTable title="Theo tháng" rows={usageByMonth} emptyText="Chưa có dữ liệu token. Chi phí được ghi lại từ các lần tạo storyboard mới." />
+                        <PriceTableEditor priceTable={priceTable} setPriceTable={setPriceTable} />
+                    </div>
+                )}
 
                 <div className="flex-1 overflow-y-auto pr-2 space-y-3 custom-scrollbar">
                     {sessions.length === 0 ? (
@@ -720,6 +1410,23 @@ const LibraryModal: FC<{
                                     <div className="flex items-center gap-4 text-xs text-slate-500">
                                         <span className="flex items-center gap-1"><ClockIcon className="h-3 w-3" /> {formatDate(session.timestamp)}</span>
                                         <span className="bg-slate-800 px-2 py-0.5 rounded text-emerald-400 font-mono">{session.prompts.length} cảnh</span>
+                                        {session.promptTemplate && (
+                                            <button
+                                                onClick={() => onUseTemplate(session)}
+                                                className="bg-slate-800 px-2 py-0.5 rounded text-indigo-300 hover:text-indigo-200 hover:bg-slate-700"
+                                                title="Dùng lại mẫu prompt của phiên này cho lần tạo tiếp theo"
+                                            >
+                                                📝 {session.promptTemplate.name}
+                                            </button>
+                                        )}
+                                        {session.usage && (
+                                            <span
+                                                className="font-mono"
+                                                title={session.usage.entries.map(e => `${e.provider} (${e.model}): ${formatTokens(e.inputTokens)} in / ${formatTokens(e.outputTokens)} out`).join('\n')}
+                                            >
+                                                {formatTokens(session.usage.totalTokens)} token · {formatCost(calculateCost(session.usage.entries, priceTable), findUnpricedModels(session.usage.entries, priceTable))}
+                                            </span>
+                                        )}
                                     </div>
                                 </div>
                                 <div className="flex items-center gap-2">
@@ -747,51 +1454,1233 @@ const LibraryModal: FC<{
     );
 };
 
-interface ControlPanelProps {
-  mode: AppMode;
-  setMode: (mode: AppMode) => void;
-  scenario: string;
-  setScenario: (value: string) => void;
-  referenceImages: ImageFile[];
-  onImageUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
-  onScriptUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
-  onBuildPrompts: () => void;
-  isBuilding: boolean;
-  scriptFileName: string | null;
-  segmentationMode: 'ai' | 'punctuation' | 'fixed';
-  setSegmentationMode: (mode: 'ai' | 'punctuation' | 'fixed') => void;
-  hasPrompts: boolean;
-  targetSceneCount: number;
-  setTargetSceneCount: (count: number) => void;
-  promptType: PromptType;
-  setPromptType: (type: PromptType) => void;
-  selectedStyleId: string;
-  setSelectedStyleId: (id: string) => void;
-  aspectRatio: AspectRatio;
-  setAspectRatio: (ratio: AspectRatio) => void;
-  enableAspectRatio: boolean;
-  setEnableAspectRatio: (enable: boolean) => void;
-  selectedModel: string;
-}
-const ControlPanel: FC<ControlPanelProps> = ({ 
-    mode, setMode, scenario, setScenario, referenceImages, 
-    onImageUpload, onScriptUpload, onBuildPrompts, isBuilding, 
-    scriptFileName, 
-    segmentationMode, setSegmentationMode, hasPrompts,
-    targetSceneCount, setTargetSceneCount,
-    promptType, setPromptType,
-    selectedStyleId, setSelectedStyleId,
-    aspectRatio, setAspectRatio,
-    enableAspectRatio, setEnableAspectRatio,
-    selectedModel
-}) => {
-  const charImgRef = useRef<HTMLInputElement>(null);
-  const scriptFileRef = useRef<HTMLInputElement>(null);
-  const [isRefImagesExpanded, setIsRefImagesExpanded] = useState(false);
-  
-  const scriptReady = useMemo(() => scenario.trim() !== "" || scriptFileName !== null, [scenario, scriptFileName]);
-
-  const canBuild = useMemo(() => {
+// SCENE CARD: hiển thị một cảnh kèm thao tác tạo lại / chỉnh sửa / đổi loại prompt
+// SCRIPT CLEANING REVIEW
+const ScriptChangeRow: FC<{ change: ScriptChange; accepted: boolean; onToggle: () => void }> = ({ change, accepted, onToggle }) => (
+    <div className={`border rounded-lg p-3 ${change.altersSpokenWords ? 'border-amber-500/40 bg-amber-900/10' : 'border-slate-800 bg-slate-950/50'}`}>
+        <div className="flex items-center justify-between gap-3 mb-2">
+            <label className="flex items-center gap-2 text-xs font-medium text-slate-300 cursor-pointer">
+                <input type="checkbox" checked={accepted} onChange={onToggle} className="accent-emerald-500" />
+                {accepted ? 'Chấp nhận' : 'Giữ bản gốc'}
+            </label>
+            {change.altersSpokenWords && (
+                <span className="flex items-center gap-1 text-[10px] font-bold text-amber-400">
+                    <WarningIcon className="h-3.5 w-3.5" />
+                    Lời thoại bị thay đổi
+                </span>
+            )}
+        </div>
+        <div className="grid grid-cols-2 gap-3 text-xs font-mono">
+            <div className={`whitespace-pre-wrap break-words rounded p-2 ${accepted ? 'bg-red-900/20 text-red-300 line-through decoration-red-500/60' : 'bg-slate-800/60 text-slate-200'}`}>
+                {change.originalLines.join('\n') || <span className="italic text-slate-500 no-underline">(trống)</span>}
+            </div>
+            <div className={`whitespace-pre-wrap break-words rounded p-2 ${accepted ? 'bg-emerald-900/20 text-emerald-300' : 'bg-slate-800/30 text-slate-500'}`}>
+                {change.cleanedLines.join('\n') || <span className="italic text-slate-500">(bỏ dòng)</span>}
+            </div>
+        </div>
+        {change.altersSpokenWords && (
+            <p className="mt-2 text-[11px] text-amber-300/90">
+                {change.lostWords.length > 0 && <>Mất: <span className="font-mono">"{change.lostWords.join(' ')}"</span>. </>}
+                {change.addedWords.length > 0 && <>Thêm: <span className="font-mono">"{change.addedWords.join(' ')}"</span>.</>}
+            </p>
+        )}
+    </div>
+);
+
+const CustomRuleRow: FC<{ rule: CustomCleanerRule; onChange: (rule: CustomCleanerRule) => void; onDelete: () => void }> = ({ rule, onChange, onDelete }) => {
+    const error = rule.pattern ? validateCustomRule(rule) : null;
+    const inputClass = "w-full bg-slate-800 border border-slate-700 text-slate-200 text-[11px] rounded p-1 focus:ring-1 focus:ring-emerald-500 outline-none";
+    return (
+        <div className="border border-slate-800 rounded-lg p-2 space-y-1">
+            <div className="flex items-center gap-1.5">
+                <input type="checkbox" checked={rule.enabled} onChange={(e) => onChange({ ...rule, enabled: e.target.checked })} className="accent-emerald-500" />
+                <input value={rule.label} onChange={(e) => onChange({ ...rule, label: e.target.value })} placeholder="Tên quy tắc" className={inputClass} />
+                <button onClick={onDelete} className="text-slate-500 hover:text-red-400" title="Xóa">
+                    <TrashIcon className="h-3.5 w-3.5" />
+                </button>
+            </div>
+            <div className="flex gap-1">
+                <input value={rule.pattern} onChange={(e) => onChange({ ...rule, pattern: e.target.value })} placeholder="Regex, VD: ^Narrator:\s*" className={`${inputClass} font-mono`} />
+                <input value={rule.flags} onChange={(e) => onChange({ ...rule, flags: e.target.value })} placeholder="gi" className={`${inputClass} font-mono w-12 flex-shrink-0`} title="Cờ regex" />
+            </div>
+            <input value={rule.replacement} onChange={(e) => onChange({ ...rule, replacement: e.target.value })} placeholder="Thay bằng (để trống = xóa)" className={`${inputClass} font-mono`} />
+            {error && <p className="text-[10px] text-red-400">{error}</p>}
+        </div>
+    );
+};
+
+const ScriptCleaningModal: FC<{
+    script: string;
+    settings: ScriptCleanerSettings;
+    setSettings: (settings: ScriptCleanerSettings) => void;
+    onRunAI: (text: string) => Promise<{ text: string; usage: RunUsage } | null>;
+    onApply: (text: string, usage: RunUsage | null, acceptedCount: number, totalCount: number) => void;
+    onClose: () => void;
+}> = ({ script, settings, setSettings, onRunAI, onApply, onClose }) => {
+    const [aiResult, setAiResult] = useState<{ input: string; text: string; usage: RunUsage } | null>(null);
+    const [isRunningAI, setIsRunningAI] = useState(false);
+    const [decisions, setDecisions] = useState<Record<number, boolean>>({});
+
+    // Quy tắc offline chạy lại ngay khi đổi tùy chọn => xem trước tức thì
+    const ruleResult = useMemo(() => settings.pipeline === 'ai' ? null : cleanScriptWithRules(script, settings), [script, settings]);
+    const usesAI = settings.pipeline !== 'rules';
+    const aiInput = ruleResult ? ruleResult.text : script;
+    // Đổi quy tắc sau khi đã chạy AI => đầu vào của AI đã khác, phải chạy lại
+    const aiIsCurrent = !!aiResult && aiResult.input === aiInput;
+    const cleanedText = !usesAI ? ruleResult!.text : aiIsCurrent ? aiResult!.text : null;
+    const diff = useMemo(() => cleanedText === null ? null : diffScript(script, cleanedText), [script, cleanedText]);
+    useEffect(() => {
+        if (diff) setDecisions(defaultChangeDecisions(diff));
+    }, [diff]);
+
+    const changes = diff?.changes || [];
+    const acceptedCount = changes.filter(change => decisions[change.id]).length;
+    const flaggedCount = changes.filter(change => change.altersSpokenWords).length;
+    const setAll = (accepted: boolean) => setDecisions(Object.fromEntries(changes.map(change => [change.id, accepted])));
+    const updateCustomRule = (index: number, rule: CustomCleanerRule) =>
+        setSettings({ ...settings, customRules: settings.customRules.map((r, i) => i === index ? rule : r) });
+
+    const runAI = async () => {
+        setIsRunningAI(true);
+        try {
+            const result = await onRunAI(aiInput);
+            if (result) setAiResult({ input: aiInput, ...result });
+        } finally {
+            setIsRunningAI(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-fade-in">
+            <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-6xl p-6 shadow-2xl relative h-[90vh] flex flex-col">
+                <button onClick={onClose} className="absolute top-4 right-4 text-slate-400 hover:text-white">
+                    <XMarkIcon className="h-6 w-6" />
+                </button>
+                <h3 className="text-xl font-bold text-white mb-4">🧹 Làm sạch kịch bản</h3>
+                <div className="flex-1 min-h-0 flex gap-5">
+                    <aside className="w-72 flex-shrink-0 overflow-y-auto space-y-4 pr-1 custom-scrollbar">
+                        <div>
+                            <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Cách làm sạch</label>
+                            <div className="grid grid-cols-3 gap-1">
+                                {(Object.keys(CLEANING_PIPELINE_LABELS) as CleaningPipeline[]).map(pipeline => (
+                                    <button
+                                        key={pipeline}
+                                        onClick={() => setSettings({ ...settings, pipeline })}
+                                        className={`px-2 py-1.5 rounded-lg text-[11px] font-bold border ${settings.pipeline === pipeline ? 'bg-emerald-600 border-emerald-400 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700'}`}
+                                    >
+                                        {CLEANING_PIPELINE_LABELS[pipeline]}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        {settings.pipeline !== 'ai' && (
+                            <>
+                                <div className="space-y-1.5">
+                                    <label className="block text-xs font-bold text-slate-400 uppercase">Quy tắc có sẵn</label>
+                                    {CLEANER_RULES.map(rule => (
+                                        <label key={rule.id} className="flex items-start gap-2 text-xs text-slate-300 cursor-pointer" title={rule.example}>
+                                            <input
+                                                type="checkbox"
+                                                checked={settings.rules[rule.id]}
+                                                onChange={(e) => setSettings({ ...settings, rules: { ...settings.rules, [rule.id]: e.target.checked } })}
+                                                className="accent-emerald-500 mt-0.5"
+                                            />
+                                            <span className="flex-1">
+                                                {rule.label}
+                                                <span className="block text-[10px] text-slate-500">{rule.example}</span>
+                                            </span>
+                                            {!!ruleResult?.counts[rule.id] && <span className="text-[10px] font-mono text-emerald-400">{ruleResult.counts[rule.id]}</span>}
+                                        </label>
+                                    ))}
+                                </div>
+                                <div className="space-y-1.5">
+                                    <label className="flex items-center justify-between text-xs font-bold text-slate-400 uppercase">
+                                        Quy tắc tự thêm (regex, từng dòng)
+                                        {!!ruleResult?.counts.custom && <span className="text-[10px] font-mono text-emerald-400 normal-case">{ruleResult.counts.custom}</span>}
+                                    </label>
+                                    {settings.customRules.map((rule, idx) => (
+                                        <CustomRuleRow
+                                            key={rule.id}
+                                            rule={rule}
+                                            onChange={(updated) => updateCustomRule(idx, updated)}
+                                            onDelete={() => setSettings({ ...settings, customRules: settings.customRules.filter((_, i) => i !== idx) })}
+                                        />
+                                    ))}
+                                    <button
+                                        onClick={() => setSettings({ ...settings, customRules: [...settings.customRules, { ...EMPTY_CUSTOM_RULE, id: Date.now().toString() }] })}
+                                        className="text-xs text-emerald-400 hover:text-emerald-300 font-medium"
+                                    >
+                                        + Thêm quy tắc
+                                    </button>
+                                </div>
+                            </>
+                        )}
+                        {usesAI && (
+                            <div className="space-y-2">
+                                <button
+                                    onClick={runAI}
+                                    disabled={isRunningAI}
+                                    className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white rounded-lg text-xs font-bold"
+                                >
+                                    {isRunningAI ? <SpinnerIcon className="animate-spin h-4 w-4" /> : <SparklesIcon className="h-4 w-4" />}
+                                    {aiResult ? 'Chạy lại AI' : 'Chạy AI'}
+                                </button>
+                                <p className="text-[10px] text-slate-500">
+                                    {settings.pipeline === 'rules_then_ai'
+                                        ? 'AI nhận kịch bản đã qua quy tắc offline. Đổi quy tắc thì cần chạy lại AI.'
+                                        : 'AI làm sạch trực tiếp kịch bản gốc.'}
+                                </p>
+                            </div>
+                        )}
+                    </aside>
+
+                    <div className="flex-1 min-w-0 flex flex-col">
+                        {!diff ? (
+                            <div className="flex-1 flex items-center justify-center text-sm text-slate-500 text-center px-6">
+                                {isRunningAI
+                                    ? 'AI đang làm sạch kịch bản...'
+                                    : aiResult ? 'Quy tắc đã thay đổi sau lần chạy AI trước. Bấm "Chạy lại AI" để xem kết quả mới.' : 'Bấm "Chạy AI" để xem các thay đổi.'}
+                            </div>
+                        ) : changes.length === 0 ? (
+                            <div className="flex-1 flex items-center justify-center text-sm text-slate-500">
+                                Không có thay đổi nào: kịch bản đã sạch theo các quy tắc đang bật.
+                            </div>
+                        ) : (
+                            <>
+                                <p className="text-xs text-slate-400 mb-3">
+                                    {changes.length} thay đổi
+                                    {flaggedCount > 0
+                                        ? <span className="text-amber-400"> · {flaggedCount} thay đổi làm khác lời thoại (mặc định giữ bản gốc)</span>
+                                        : ' · chỉ bỏ ghi chú sân khấu, Markdown và nối dòng'}
+                                </p>
+                                <div className="flex flex-wrap gap-2 mb-3">
+                                    <button onClick={() => setAll(true)} className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-xs font-medium border border-slate-700">Chấp nhận tất cả</button>
+                                    <button onClick={() => setAll(false)} className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-xs font-medium border border-slate-700">Từ chối tất cả</button>
+                                    {flaggedCount > 0 && (
+                                        <button onClick={() => setDecisions(defaultChangeDecisions(diff))} className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-amber-300 rounded-lg text-xs font-medium border border-slate-700">Chỉ giữ thay đổi an toàn</button>
+                                    )}
+                                </div>
+                                <div className="grid grid-cols-2 gap-3 px-3 mb-2 text-[10px] font-bold uppercase text-slate-500">
+                                    <span>Bản gốc</span>
+                                    <span>Bản đã làm sạch</span>
+                                </div>
+                                <div className="flex-1 overflow-y-auto space-y-2 pr-1 custom-scrollbar">
+                                    {diff.segments.map((segment, idx) => segment.type === 'equal' ? (
+                                        <p key={idx} className="text-center text-[10px] text-slate-600">··· {segment.lines.length} dòng giữ nguyên ···</p>
+                                    ) : (
+                                        <ScriptChangeRow
+                                            key={idx}
+                                            change={segment.change}
+                                            accepted={!!decisions[segment.change.id]}
+                                            onToggle={() => setDecisions({ ...decisions, [segment.change.id]: !decisions[segment.change.id] })}
+                                        />
+                                    ))}
+                                </div>
+                            </>
+                        )}
+                    </div>
+                </div>
+                <div className="flex justify-end gap-2 mt-4 pt-4 border-t border-slate-800">
+                    <button onClick={onClose} className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-sm font-medium">Hủy</button>
+                    <button
+                        onClick={() => diff && onApply(applyScriptChanges(diff, decisions), usesAI ? aiResult!.usage : null, acceptedCount, changes.length)}
+                        disabled={changes.length === 0}
+                        className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-40 text-white rounded-lg text-sm font-bold"
+                    >
+                        Áp dụng {acceptedCount}/{changes.length} thay đổi
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const StylePresetModal: FC<{
+    presets: StylePreset[];
+    setPresets: (presets: StylePreset[]) => void;
+    selectedId: string;
+    onSelect: (id: string) => void;
+    onImport: (file: File) => void;
+    onExport: () => void;
+    onClose: () => void;
+}> = ({ presets, setPresets, selectedId, onSelect, onImport, onExport, onClose }) => {
+    const [editingId, setEditingId] = useState(selectedId === REFERENCE_STYLE_ID ? (presets[0] || BUILT_IN_STYLE_PRESETS[0]).id : selectedId);
+    const [thumbnailError, setThumbnailError] = useState('');
+    const importRef = useRef<HTMLInputElement>(null);
+    const thumbnailRef = useRef<HTMLInputElement>(null);
+
+    const editing = findStylePreset(presets, editingId) || BUILT_IN_STYLE_PRESETS[0];
+    const updateEditing = (changes: Partial<StylePreset>) =>
+        setPresets(presets.map(style => style.id === editing.id ? { ...style, ...changes } : style));
+    const addPreset = (style: StylePreset) => {
+        setPresets([...presets, style]);
+        setEditingId(style.id);
+    };
+    const deleteEditing = () => {
+        if (!confirm(`Xóa phong cách "${editing.label}"?`)) return;
+        setPresets(presets.filter(style => style.id !== editing.id));
+        if (selectedId === editing.id) onSelect(REFERENCE_STYLE_ID);
+        setEditingId(BUILT_IN_STYLE_PRESETS[0].id);
+    };
+    const handleThumbnail = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            updateEditing({ thumbnail: await fileToThumbnail(file) });
+            setThumbnailError('');
+        } catch {
+            setThumbnailError(`Không đọc được ảnh ${file.name}.`);
+        }
+    };
+
+    const renderRow = (style: StylePreset, index?: number) => (
+        <div
+            key={style.id}
+            onClick={() => setEditingId(style.id)}
+            className={`flex items-center gap-2 px-2 py-1.5 rounded-lg border text-xs cursor-pointer ${style.id === editing.id ? 'bg-slate-800 border-emerald-500 text-white' : 'bg-slate-900 border-slate-800 text-slate-300 hover:border-slate-600'}`}
+        >
+            {style.thumbnail
+                ? <img src={style.thumbnail} alt="" className="w-8 h-8 rounded object-cover flex-shrink-0" />
+                : <span className="w-8 h-8 rounded bg-slate-800 flex-shrink-0" />}
+            <span className="flex-1 truncate font-medium">{style.builtIn ? '🔒 ' : ''}{style.label || 'Chưa đặt tên'}</span>
+            {style.id === selectedId && <span className="text-[10px] text-emerald-400 whitespace-nowrap">✓</span>}
+            {index !== undefined && (
+                <span className="flex flex-col">
+                    <button
+                        onClick={(e) => { e.stopPropagation(); setPresets(moveStylePreset(presets, index, -1)); }}
+                        disabled={index === 0}
+                        className="text-[9px] leading-none text-slate-500 hover:text-white disabled:opacity-30"
+                        title="Lên trên"
+                    >
+                        ▲
+                    </button>
+                    <button
+                        onClick={(e) => { e.stopPropagation(); setPresets(moveStylePreset(presets, index, 1)); }}
+                        disabled={index === presets.length - 1}
+                        className="text-[9px] leading-none text-slate-500 hover:text-white disabled:opacity-30"
+                        title="Xuống dưới"
+                    >
+                        ▼
+                    </button>
+                </span>
+            )}
+        </div>
+    );
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-fade-in">
+            <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-5xl p-6 shadow-2xl relative h-[85vh] flex flex-col">
+                <button onClick={onClose} className="absolute top-4 right-4 text-slate-400 hover:text-white">
+                    <XMarkIcon className="h-6 w-6" />
+                </button>
+                <h3 className="text-xl font-bold text-white mb-4">🎭 Phong cách</h3>
+                <div className="flex-1 min-h-0 flex gap-5">
+                    <aside className="w-72 flex-shrink-0 flex flex-col gap-3">
+                        <div className="flex-1 overflow-y-auto space-y-1 pr-1 custom-scrollbar">
+                            <p className="text-[10px] font-bold uppercase text-slate-500 mb-1">Phong cách của bạn</p>
+                            {presets.length === 0 && <p className="text-[11px] text-slate-600 italic mb-2">Chưa có. Tạo mới, nhân bản hoặc nhập file JSON của nhóm.</p>}
+                            {presets.map((style, idx) => renderRow(style, idx))}
+                            <p className="text-[10px] font-bold uppercase text-slate-500 pt-3 mb-1">Có sẵn</p>
+                            {BUILT_IN_STYLE_PRESETS.map(style => renderRow(style))}
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            <button onClick={() => addPreset(createStylePreset())} className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-emerald-400 rounded-lg text-xs font-medium border border-slate-700">+ Tạo mới</button>
+                            <button onClick={() => addPreset(duplicateStylePreset(editing))} className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-xs font-medium border border-slate-700">Nhân bản</button>
+                            <button onClick={() => importRef.current?.click()} className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-xs font-medium border border-slate-700">Nhập JSON</button>
+                            <button onClick={onExport} disabled={presets.length === 0} className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 text-slate-300 rounded-lg text-xs font-medium border border-slate-700">Xuất JSON</button>
+                        </div>
+                        <input
+                            type="file"
+                            ref={importRef}
+                            accept=".json,application/json"
+                            className="hidden"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                e.target.value = '';
+                                if (file) onImport(file);
+                            }}
+                        />
+                    </aside>
+
+                    <div className="flex-1 min-w-0 flex flex-col gap-3 overflow-y-auto custom-scrollbar pr-1">
+                        {editing.builtIn && (
+                            <p className="text-xs text-amber-300 bg-amber-900/20 border border-amber-500/30 rounded-lg px-3 py-2">
+                                Phong cách có sẵn chỉ đọc. Bấm "Nhân bản" để tạo bản có thể chỉnh sửa.
+                            </p>
+                        )}
+                        <div className="flex gap-4">
+                            <div className="flex-shrink-0 flex flex-col items-center gap-2">
+                                {editing.thumbnail
+                                    ? <img src={editing.thumbnail} alt={editing.label} className="w-32 h-32 rounded-lg object-cover border border-slate-700" />
+                                    : <div className="w-32 h-32 rounded-lg border-2 border-dashed border-slate-700 flex items-center justify-center text-[10px] text-slate-600 text-center px-2">Chưa có ảnh mẫu</div>}
+                                {!editing.builtIn && (
+                                    <div className="flex gap-2">
+                                        <button onClick={() => thumbnailRef.current?.click()} className="text-[11px] text-emerald-400 hover:text-emerald-300 font-medium">{editing.thumbnail ? 'Đổi ảnh' : 'Thêm ảnh'}</button>
+                                        {editing.thumbnail && <button onClick={() => updateEditing({ thumbnail: undefined })} className="text-[11px] text-slate-500 hover:text-red-400">Bỏ</button>}
+                                    </div>
+                                )}
+                                <input type="file" ref={thumbnailRef} accept="image/*" className="hidden" onChange={handleThumbnail} />
+                                {thumbnailError && <p className="text-[10px] text-red-400 w-32 text-center">{thumbnailError}</p>}
+                            </div>
+                            <div className="flex-1 space-y-3">
+                                <div className="flex gap-2">
+                                    <input
+                                        value={editing.label}
+                                        onChange={(e) => updateEditing({ label: e.target.value })}
+                                        readOnly={editing.builtIn}
+                                        placeholder="Tên phong cách (VD: 🎙️ Kênh lịch sử)"
+                                        className="flex-1 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-emerald-500"
+                                    />
+                                    {!editing.builtIn && (
+                                        <button onClick={deleteEditing} className="p-2 text-slate-400 hover:text-red-400 hover:bg-red-900/20 rounded-lg transition-colors" title="Xóa phong cách">
+                                            <TrashIcon className="h-5 w-5" />
+                                        </button>
+                                    )}
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Prompt phong cách</label>
+                                    <textarea
+                                        value={editing.prompt}
+                                        onChange={(e) => updateEditing({ prompt: e.target.value })}
+                                        readOnly={editing.builtIn}
+                                        rows={5}
+                                        placeholder="Mô tả phong cách bằng tiếng Anh, được đặt ở đầu mọi prompt"
+                                        className="w-full bg-slate-950 border border-slate-800 rounded-lg p-3 text-xs text-slate-200 resize-none outline-none focus:border-emerald-500"
+                                    />
+                                    {!editing.prompt.trim() && !editing.builtIn && <p className="text-[11px] text-amber-400">Phong cách chưa có prompt sẽ không được lưu.</p>}
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Negative prompt (tùy chọn)</label>
+                                    <input
+                                        value={editing.negativePrompt}
+                                        onChange={(e) => updateEditing({ negativePrompt: e.target.value })}
+                                        readOnly={editing.builtIn}
+                                        placeholder="VD: photorealistic, 3d render"
+                                        className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white outline-none focus:border-emerald-500"
+                                    />
+                                    <p className="text-[10px] text-slate-500 mt-1">Được gộp với negative prompt của lần chạy (công cụ đích phải hỗ trợ negative prompt).</p>
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+                <div className="flex justify-end gap-2 mt-4 pt-4 border-t border-slate-800">
+                    <button onClick={onClose} className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-sm font-medium">Đóng</button>
+                    <button
+                        onClick={() => { onSelect(editing.id); onClose(); }}
+                        disabled={!editing.prompt.trim()}
+                        className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-40 text-white rounded-lg text-sm font-bold"
+                    >
+                        Dùng phong cách này
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const PromptTemplateModal: FC<{
+    templates: PromptTemplate[];
+    setTemplates: (templates: PromptTemplate[]) => void;
+    selectedId: string;
+    onSelect: (id: string) => void;
+    previewSettings: InstructionPreviewSettings;
+    onClose: () => void;
+}> = ({ templates, setTemplates, selectedId, onSelect, previewSettings, onClose }) => {
+    const [editingId, setEditingId] = useState(selectedId);
+    const [sectionId, setSectionId] = useState<PromptTemplateSectionId>('preamble');
+    const [showPreview, setShowPreview] = useState(false);
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+    const editing = getPromptTemplate(templates, editingId);
+    const section = PROMPT_TEMPLATE_SECTIONS.find(s => s.id === sectionId)!;
+    const sectionText = editing.sections[sectionId];
+    const unknownVariables = findUnknownVariables(sectionText);
+    const preview = showPreview ? previewAnalysisInstruction(editing, previewSettings) : '';
+
+    const updateEditing = (changes: Partial<PromptTemplate>) =>
+        setTemplates(templates.map(t => t.id === editing.id ? { ...t, ...changes } : t));
+    const updateSection = (text: string) => updateEditing({ sections: { ...editing.sections, [sectionId]: text } });
+    const addTemplate = (template: PromptTemplate) => {
+        setTemplates([...templates, template]);
+        setEditingId(template.id);
+    };
+    const deleteEditing = () => {
+        if (!confirm(`Xóa mẫu "${editing.name}"?`)) return;
+        setTemplates(templates.filter(t => t.id !== editing.id));
+        if (selectedId === editing.id) onSelect(DEFAULT_PROMPT_TEMPLATE_ID);
+        setEditingId(DEFAULT_PROMPT_TEMPLATE_ID);
+    };
+    // Chèn biến vào vị trí con trỏ trong ô soạn thảo
+    const insertVariable = (name: string) => {
+        const token = `{{${name}}}`;
+        const start = textareaRef.current?.selectionStart ?? sectionText.length;
+        const end = textareaRef.current?.selectionEnd ?? sectionText.length;
+        updateSection(sectionText.substring(0, start) + token + sectionText.substring(end));
+        requestAnimationFrame(() => {
+            textareaRef.current?.focus();
+            textareaRef.current?.setSelectionRange(start + token.length, start + token.length);
+        });
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-fade-in">
+            <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-6xl p-6 shadow-2xl relative h-[90vh] flex flex-col">
+                <button onClick={onClose} className="absolute top-4 right-4 text-slate-400 hover:text-white">
+                    <XMarkIcon className="h-6 w-6" />
+                </button>
+                <h3 className="text-xl font-bold text-white mb-4">📝 Mẫu prompt</h3>
+                <div className="flex-1 min-h-0 flex gap-5">
+                    <aside className="w-64 flex-shrink-0 flex flex-col gap-3">
+                        <div className="flex-1 overflow-y-auto space-y-1 pr-1 custom-scrollbar">
+                            {[...BUILT_IN_PROMPT_TEMPLATES, ...templates].map(template => (
+                                <button
+                                    key={template.id}
+                                    onClick={() => setEditingId(template.id)}
+                                    className={`w-full text-left px-3 py-2 rounded-lg border text-xs ${template.id === editing.id ? 'bg-slate-800 border-emerald-500 text-white' : 'bg-slate-900 border-slate-800 text-slate-300 hover:border-slate-600'}`}
+                                >
+                                    <span className="flex items-center justify-between gap-2 font-bold">
+                                        <span className="truncate">{template.builtIn ? '🔒 ' : ''}{template.name}</span>
+                                        {template.id === selectedId && <span className="text-[10px] text-emerald-400 font-medium whitespace-nowrap">✓ đang dùng</span>}
+                                    </span>
+                                    {template.description && <span className="block text-[10px] text-slate-500 mt-0.5 line-clamp-2">{template.description}</span>}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            <button
+                                onClick={() => addTemplate(duplicatePromptTemplate(DEFAULT_PROMPT_TEMPLATE, 'Mẫu mới'))}
+                                className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-emerald-400 rounded-lg text-xs font-medium border border-slate-700"
+                            >
+                                + Tạo mới
+                            </button>
+                            <button
+                                onClick={() => addTemplate(duplicatePromptTemplate(editing))}
+                                className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-xs font-medium border border-slate-700"
+                            >
+                                Nhân bản
+                            </button>
+                        </div>
+                    </aside>
+
+                    <div className="flex-1 min-w-0 flex flex-col gap-3">
+                        {editing.builtIn ? (
+                            <p className="text-xs text-amber-300 bg-amber-900/20 border border-amber-500/30 rounded-lg px-3 py-2">
+                                Mẫu có sẵn chỉ đọc. Bấm "Nhân bản" để tạo bản có thể chỉnh sửa.
+                            </p>
+                        ) : (
+                            <div className="flex gap-2">
+                                <input
+                                    value={editing.name}
+                                    onChange={(e) => updateEditing({ name: e.target.value })}
+                                    placeholder="Tên mẫu"
+                                    className="w-56 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-emerald-500"
+                                />
+                                <input
+                                    value={editing.description}
+                                    onChange={(e) => updateEditing({ description: e.target.value })}
+                                    placeholder="Mô tả ngắn (VD: truyện lịch sử, ASMR thời tiền sử...)"
+                                    className="flex-1 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-emerald-500"
+                                />
+                                <button
+                                    onClick={deleteEditing}
+                                    className="p-2 text-slate-400 hover:text-red-400 hover:bg-red-900/20 rounded-lg transition-colors"
+                                    title="Xóa mẫu"
+                                >
+                                    <TrashIcon className="h-5 w-5" />
+                                </button>
+                            </div>
+                        )}
+
+                        <div className="flex flex-wrap gap-1">
+                            {PROMPT_TEMPLATE_SECTIONS.map(s => (
+                                <button
+                                    key={s.id}
+                                    onClick={() => { setSectionId(s.id); setShowPreview(false); }}
+                                    className={`px-3 py-1.5 rounded-lg text-[11px] font-bold border ${!showPreview && sectionId === s.id ? 'bg-emerald-600 border-emerald-400 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700'}`}
+                                >
+                                    {s.label}
+                                </button>
+                            ))}
+                            <button
+                                onClick={() => setShowPreview(true)}
+                                className={`px-3 py-1.5 rounded-lg text-[11px] font-bold border ml-auto ${showPreview ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-800 border-slate-700 text-indigo-300 hover:bg-slate-700'}`}
+                            >
+                                👁 Xem trước
+                            </button>
+                        </div>
+
+                        {showPreview ? (
+                            <>
+                                <p className="text-[11px] text-slate-500">
+                                    System instruction gửi cho AI với thiết lập hiện tại ({previewSettings.promptType === 'image' ? 'ảnh' : 'video'}, {previewSettings.targetSceneCount} cảnh, {previewSettings.aspectRatio}) · {preview.length.toLocaleString('vi-VN')} ký tự.
+                                    {previewSettings.presegmented && ' Kịch bản được tách cảnh cục bộ nên phần phân cảnh của mẫu không được dùng.'}
+                                </p>
+                                <pre className="flex-1 overflow-y-auto bg-slate-950 border border-slate-800 rounded-lg p-3 text-xs text-slate-300 whitespace-pre-wrap font-mono custom-scrollbar">{preview}</pre>
+                            </>
+                        ) : (
+                            <>
+                                <p className="text-[11px] text-slate-500">{section.hint}</p>
+                                <textarea
+                                    ref={textareaRef}
+                                    value={sectionText}
+                                    onChange={(e) => updateSection(e.target.value)}
+                                    readOnly={editing.builtIn}
+                                    spellCheck={false}
+                                    className="flex-1 bg-slate-950 border border-slate-800 rounded-lg p-3 text-xs text-slate-200 font-mono resize-none outline-none focus:border-emerald-500 custom-scrollbar"
+                                />
+                                {unknownVariables.length > 0 && (
+                                    <p className="text-[11px] text-amber-400">
+                                        Biến không hỗ trợ (giữ nguyên trong instruction): {unknownVariables.map(name => `{{${name}}}`).join(', ')}
+                                    </p>
+                                )}
+                                <div className="flex flex-wrap gap-1">
+                                    {TEMPLATE_VARIABLES.map(variable => (
+                                        <button
+                                            key={variable.name}
+                                            onClick={() => insertVariable(variable.name)}
+                                            disabled={editing.builtIn}
+                                            title={variable.description}
+                                            className="px-2 py-1 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-default text-[10px] font-mono text-indigo-300 rounded border border-slate-700"
+                                        >
+                                            {`{{${variable.name}}}`}
+                                        </button>
+                                    ))}
+                                </div>
+                            </>
+                        )}
+                    </div>
+                </div>
+                <div className="flex justify-end gap-2 mt-4 pt-4 border-t border-slate-800">
+                    <button onClick={onClose} className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-sm font-medium">Đóng</button>
+                    <button
+                        onClick={() => { onSelect(editing.id); onClose(); }}
+                        className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg text-sm font-bold"
+                    >
+                        Dùng mẫu "{editing.name}"
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const SceneCard: FC<{
+    scene: ScenePrompt;
+    index: number;
+    isBusy: boolean;
+    disabled: boolean;
+    onRegenerate: () => void;
+    onRefine: (instruction: string) => void;
+    onSwitchType: () => void;
+    onSelectVariant: (variantIndex: number) => void;
+    onUpdateShot: (overrides: Partial<ShotDetails>) => void;
+    onSplitClips: () => void;
+    image?: SceneImageState;
+    imageDisabled: boolean;
+    onGenerateImage: () => void;
+}> = ({ scene, index, isBusy, disabled, onRegenerate, onRefine, onSwitchType, onSelectVariant, onUpdateShot, onSplitClips, image, imageDisabled, onGenerateImage }) => {
+    const [isRefining, setIsRefining] = useState(false);
+    const [instruction, setInstruction] = useState('');
+    const [isEditingShot, setIsEditingShot] = useState(false);
+    const [shotDraft, setShotDraft] = useState<Record<string, string>>({});
+    const shot = resolveShotDetails(scene.shot, scene.shotOverrides);
+    const aiShot = resolveShotDetails(scene.shot);
+    const overriddenFields = Object.keys(scene.shotOverrides || {}) as ShotField[];
+
+    const startEditShot = () => {
+        const overrides = resolveShotDetails(undefined, scene.shotOverrides);
+        setShotDraft(Object.fromEntries(overriddenFields.map(field => [field, field === 'durationSeconds' ? String(overrides.durationSeconds) : formatShotValue(overrides, field)])));
+        setIsEditingShot(true);
+    };
+
+    const saveShot = () => {
+        onUpdateShot(normalizeShotOverrides(shotDraft));
+        setIsEditingShot(false);
+    };
+    const isVideo = !!scene.videoPrompt;
+    const variants = scene.promptVariants || [];
+    const selectedVariant = scene.selectedVariant || 0;
+    const [browsedVariant, setBrowsedVariant] = useState(selectedVariant);
+    const shownVariant = Math.min(browsedVariant, Math.max(0, variants.length - 1));
+    const shownPrompt = variants.length > 1 && shownVariant !== selectedVariant
+        ? renderVariant(scene, variants[shownVariant])
+        : (scene.videoPrompt || scene.imagePrompt);
+    const generatorLabel = scene.render ? GENERATOR_DIALECTS[scene.render.generator]?.label : undefined;
+    const actionsDisabled = disabled || isBusy;
+    const clips = scene.clips || [];
+    const videoDialect = isVideo ? resolveGenerator(scene.render?.generator, 'video') : undefined;
+    const canSplitClips = !!videoDialect && needsClipSplit(shot.durationSeconds, videoDialect);
+
+    const submitRefine = () => {
+        if (!instruction.trim()) return;
+        onRefine(instruction.trim());
+        setInstruction('');
+        setIsRefining(false);
+    };
+
+    return (
+        <div className={`bg-slate-900 border border-slate-800 rounded-xl p-5 hover:border-emerald-500/30 transition-all shadow-sm ${isBusy ? 'opacity-70' : ''}`}>
+            <div className="flex justify-between items-start mb-3">
+                <div className="flex items-center gap-2">
+                    <span className="bg-slate-800 text-slate-400 text-xs font-bold px-2 py-1 rounded uppercase tracking-wider">Cảnh {index + 1}</span>
+                    {scene.startTime !== undefined && scene.endTime !== undefined && (
+                        <span className="text-[10px] font-mono text-slate-500" title={`Cue ${formatCueRange(scene.cueIndices || [])}`}>
+                            {formatTimestamp(scene.startTime)} → {formatTimestamp(scene.endTime)}
+                        </span>
+                    )}
+                </div>
+                <div className="flex items-center gap-3">
+                    <span className="text-xs font-mono text-emerald-400">{scene.phase}</span>
+                    <div className="flex items-center gap-1">
+                        <button
+                            onClick={onRegenerate}
+                            disabled={actionsDisabled}
+                            className="p-1 text-slate-500 hover:text-emerald-400 disabled:opacity-30"
+                            title="Tạo lại prompt"
+                        >
+                            {isBusy ? <SpinnerIcon className="animate-spin h-4 w-4" /> : <ArrowPathIcon className="h-4 w-4" />}
+                        </button>
+                        <button
+                            onClick={() => setIsRefining(!isRefining)}
+                            disabled={actionsDisabled}
+                            className={`p-1 hover:text-emerald-400 disabled:opacity-30 ${isRefining ? 'text-emerald-400' : 'text-slate-500'}`}
+                            title="Chỉnh sửa theo yêu cầu"
+                        >
+                            <SparklesIcon className="h-4 w-4" />
+                        </button>
+                        <button
+                            onClick={onSwitchType}
+                            disabled={actionsDisabled}
+                            className="p-1 text-slate-500 hover:text-emerald-400 disabled:opacity-30"
+                            title={isVideo ? 'Chuyển sang prompt Hình ảnh' : 'Chuyển sang prompt Video'}
+                        >
+                            {isVideo ? <PhotoIcon className="h-4 w-4" /> : <VideoCameraIcon className="h-4 w-4" />}
+                        </button>
+                    </div>
+                </div>
+            </div>
+            <div className="mb-4">
+                <p className="text-slate-300 italic font-medium border-l-2 border-emerald-500/50 pl-3 py-1">"{scene.scriptLine}"</p>
+            </div>
+            <div className="mb-3 flex flex-wrap items-center gap-1.5">
+                {SHOT_FIELDS.filter(field => formatShotValue(shot, field) !== '').map(field => (
+                    <span
+                        key={field}
+                        title={SHOT_FIELD_LABELS[field] + (overriddenFields.includes(field) ? ' (đã ghi đè)' : '')}
+                        className={`px-2 py-0.5 rounded-full text-[10px] border ${overriddenFields.includes(field) ? 'bg-emerald-500/10 border-emerald-500/40 text-emerald-300' : 'bg-slate-800 border-slate-700 text-slate-400'}`}
+                    >
+                        {field === 'characters' ? '👤 ' : field === 'location' ? '📍 ' : field === 'durationSeconds' ? '⏱ ' : ''}{formatShotValue(shot, field)}
+                    </span>
+                ))}
+                <button
+                    onClick={() => isEditingShot ? setIsEditingShot(false) : startEditShot()}
+                    disabled={actionsDisabled}
+                    className="px-2 py-0.5 rounded-full text-[10px] text-slate-500 hover:text-emerald-400 disabled:opacity-30"
+                >
+                    {isEditingShot ? 'Đóng' : '✎ Thông số quay'}
+                </button>
+                {!isVideo && !image && (
+                    <button
+                        onClick={onGenerateImage}
+                        disabled={imageDisabled}
+                        className="px-2 py-0.5 rounded-full text-[10px] text-sky-400 hover:text-sky-300 disabled:opacity-30"
+                    >
+                        🖼 Tạo ảnh
+                    </button>
+                )}
+                {canSplitClips && (
+                    <button
+                        onClick={onSplitClips}
+                        disabled={actionsDisabled}
+                        className="px-2 py-0.5 rounded-full text-[10px] text-indigo-400 hover:text-indigo-300 disabled:opacity-30"
+                        title={`${videoDialect!.label} chỉ tạo clip tối đa ${getClipLimit(videoDialect!)} giây`}
+                    >
+                        {clips.length > 0 ? '✂ Tách lại clip' : `✂ Tách clip (tối đa ${getClipLimit(videoDialect!)}s)`}
+                    </button>
+                )}
+            </div>
+            {isEditingShot && (
+                <div className="mb-3 p-3 rounded-lg border border-slate-800 bg-slate-950/50">
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                        {SHOT_FIELDS.map(field => (
+                            <label key={field} className="block">
+                                <span className="text-[10px] text-slate-500 font-bold uppercase">{SHOT_FIELD_LABELS[field]}</span>
+                                <input
+                                    type={field === 'durationSeconds' ? 'number' : 'text'}
+                                    min={field === 'durationSeconds' ? 0 : undefined}
+                                    step={field === 'durationSeconds' ? 0.5 : undefined}
+                                    value={shotDraft[field] ?? ''}
+                                    onChange={(e) => setShotDraft(prev => ({ ...prev, [field]: e.target.value }))}
+                                    placeholder={formatShotValue(aiShot, field) || '—'}
+                                    className="w-full bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded p-1.5 focus:ring-1 focus:ring-emerald-500 outline-none"
+                                />
+                            </label>
+                        ))}
+                    </div>
+                    <div className="mt-2 flex justify-between items-center">
+                        <p className="text-[10px] text-slate-500 italic">Để trống = dùng giá trị AI. Nhân vật cách nhau bằng dấu phẩy.</p>
+                        <div className="flex gap-2">
+                            <button onClick={() => setShotDraft({})} className="px-3 py-1 text-xs text-slate-400 hover:text-white">Đặt lại</button>
+                            <button onClick={saveShot} className="px-3 py-1 bg-emerald-600 hover:bg-emerald-500 text-white rounded text-xs font-bold">Lưu</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+            {!isVideo && image && (
+                <div className="mb-3 flex items-start gap-3">
+                    {image.image ? (
+                        <a href={image.image.dataUrl} download={buildImageFileName(index + 1, image.image.mimeType)} title="Tải ảnh">
+                            <img
+                                src={image.image.dataUrl}
+                                alt={`Cảnh ${index + 1}`}
+                                className={`h-32 w-auto max-w-[14rem] object-cover rounded-lg border border-slate-700 ${image.status === 'generating' ? 'opacity-40' : ''}`}
+                            />
+                        </a>
+                    ) : (
+                        <div className="h-32 w-48 rounded-lg border border-dashed border-slate-700 flex items-center justify-center text-slate-600">
+                            {image.status === 'error' ? <WarningIcon className="h-6 w-6 text-red-400/70" /> : <SpinnerIcon className={`h-6 w-6 ${image.status === 'generating' ? 'animate-spin' : ''}`} />}
+                        </div>
+                    )}
+                    <div className="flex-1 min-w-0 space-y-1 text-[10px]">
+                        <p className="text-slate-500">
+                            {image.status === 'queued' ? 'Đang chờ trong hàng đợi...' : image.status === 'generating' ? 'Đang tạo ảnh...' : image.status === 'error' ? 'Tạo ảnh lỗi' : `Đã tạo · ${image.image?.model}`}
+                        </p>
+                        {image.status === 'error' && image.error && <p className="text-red-400/80 break-words">{image.error}</p>}
+                        {(image.status === 'done' || image.status === 'error') && (
+                            <button
+                                onClick={onGenerateImage}
+                                disabled={imageDisabled}
+                                className="px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-slate-300 font-bold disabled:opacity-30"
+                            >
+                                🎲 Tạo lại ảnh
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+            <div className="grid grid-cols-1 gap-4 text-sm">
+                <div className={`bg-slate-950/50 p-3 rounded-lg border ${variants.length > 1 && shownVariant === selectedVariant ? 'border-emerald-500/40' : 'border-slate-800/50'}`}>
+                    <div className="flex justify-between items-center mb-1">
+                        <p className="text-xs text-slate-500 font-bold uppercase">
+                            {isVideo ? "Mô tả Video" : "Mô tả Hình ảnh"}{generatorLabel ? ` · ${generatorLabel}` : ''}
+                        </p>
+                        {variants.length > 1 && (
+                            <div className="flex items-center gap-1 text-[10px]">
+                                <button
+                                    onClick={() => setBrowsedVariant((shownVariant - 1 + variants.length) % variants.length)}
+                                    className="px-1.5 text-slate-400 hover:text-emerald-400"
+                                    title="Phương án trước"
+                                >
+                                    ‹
+                                </button>
+                                <span className="text-slate-400 font-mono">Phương án {shownVariant + 1}/{variants.length}</span>
+                                <button
+                                    onClick={() => setBrowsedVariant((shownVariant + 1) % variants.length)}
+                                    className="px-1.5 text-slate-400 hover:text-emerald-400"
+                                    title="Phương án sau"
+                                >
+                                    ›
+                                </button>
+                                {shownVariant === selectedVariant ? (
+                                    <span className="ml-1 px-2 py-0.5 rounded bg-emerald-500/20 text-emerald-400 font-bold">✓ Đã chọn</span>
+                                ) : (
+                                    <button
+                                        onClick={() => onSelectVariant(shownVariant)}
+                                        disabled={actionsDisabled}
+                                        className="ml-1 px-2 py-0.5 rounded bg-slate-800 hover:bg-emerald-600 text-slate-300 hover:text-white font-bold disabled:opacity-50"
+                                    >
+                                        Chọn
+                                    </button>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                    {shownPrompt ? (
+                        <p className="text-slate-300 leading-relaxed text-xs">
+                            {shownPrompt}
+                        </p>
+                    ) : (
+                        <p className="text-amber-400 text-xs">⚠ Thiếu prompt: model không trả về prompt hợp lệ cho cảnh này. Bấm "Tạo lại prompt" để thử lại.</p>
+                    )}
+                    {scene.negativePrompt && (
+                        <p className="mt-2 text-[10px] text-slate-500"><span className="font-bold uppercase">Negative:</span> {scene.negativePrompt}</p>
+                    )}
+                </div>
+                {clips.length > 0 && (
+                    <div className="space-y-2 border-l-2 border-indigo-500/40 pl-3">
+                        {clips.map((clip, clipIndex) => (
+                            <div key={clipIndex} className="bg-slate-950/50 p-3 rounded-lg border border-slate-800/50">
+                                <p className="text-[10px] text-indigo-300 font-bold uppercase mb-1">Clip {index + 1}.{clipIndex + 1} · {clipIndex + 1}/{clips.length} · {clip.durationSeconds}s</p>
+                                <p className="text-slate-300 leading-relaxed text-xs">{clip.prompt}</p>
+                                {clip.endState && (
+                                    <p className="mt-1 text-[10px] text-slate-500 italic">↳ Kết thúc: {clip.endState}</p>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+            {isRefining && (
+                <div className="mt-3 flex gap-2">
+                    <input
+                        type="text"
+                        value={instruction}
+                        onChange={(e) => setInstruction(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && submitRefine()}
+                        placeholder='VD: "cận cảnh", "ban đêm", "góc máy từ trên cao"'
+                        className="flex-1 bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded-lg p-2 focus:ring-1 focus:ring-emerald-500 outline-none"
+                        autoFocus
+                    />
+                    <button
+                        onClick={submitRefine}
+                        disabled={actionsDisabled || !instruction.trim()}
+                        className="px-3 py-1.5 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white rounded-lg text-xs font-bold"
+                    >
+                        Áp dụng
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+// IMAGE GENERATION BAR: tạo ảnh cho mọi cảnh qua hàng đợi, tải về dạng ZIP
+const ImageGenerationBar: FC<{
+    settings: ImageGenerationSettings;
+    setSettings: (settings: ImageGenerationSettings) => void;
+    isGenerating: boolean;
+    doneCount: number;
+    totalCount: number;
+    referenceCount: number;
+    onGenerate: () => void;
+    onCancel: () => void;
+    onDownloadZip: () => void;
+}> = ({ settings, setSettings, isGenerating, doneCount, totalCount, referenceCount, onGenerate, onCancel, onDownloadZip }) => {
+    const model = IMAGE_MODELS.find(m => m.id === settings.model);
+    const inputClass = "w-12 bg-slate-800 border border-slate-700 p-1.5 rounded text-center text-white text-xs font-bold focus:ring-2 focus:ring-emerald-500 outline-none";
+    return (
+        <div className="bg-slate-900/50 p-3 rounded-xl border border-slate-800 flex flex-wrap items-center gap-3">
+            <PhotoIcon className="h-5 w-5 text-sky-400" />
+            <select
+                value={settings.model}
+                onChange={(e) => setSettings({ ...settings, model: e.target.value as ImageModelId })}
+                disabled={isGenerating}
+                className="bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded-lg p-2 focus:ring-1 focus:ring-emerald-500 outline-none disabled:opacity-50"
+            >
+                {IMAGE_MODELS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+            </select>
+            <label className="flex items-center gap-1 text-xs text-slate-400" title="Số cảnh tạo ảnh cùng lúc">
+                Song song
+                <input type="number" min="1" max="5" value={settings.concurrency} disabled={isGenerating}
+                    onChange={(e) => setSettings(normalizeImageSettings({ ...settings, concurrency: e.target.value }))} className={inputClass} />
+            </label>
+            <label className="flex items-center gap-1 text-xs text-slate-400" title="Số lần thử lại khi một cảnh bị lỗi">
+                Thử lại
+                <input type="number" min="0" max="5" value={settings.maxRetries} disabled={isGenerating}
+                    onChange={(e) => setSettings(normalizeImageSettings({ ...settings, maxRetries: e.target.value }))} className={inputClass} />
+            </label>
+            {referenceCount > 0 && (
+                <span className="text-[10px] text-slate-500">
+                    {model?.supportsReferenceImages ? `Kèm ${referenceCount} ảnh tham chiếu` : `${model?.label} không nhận ảnh tham chiếu`}
+                </span>
+            )}
+            <div className="ml-auto flex items-center gap-2">
+                <span className="text-xs font-mono text-slate-400">{doneCount}/{totalCount}</span>
+                {isGenerating ? (
+                    <button onClick={onCancel} className="px-3 py-2 bg-red-600/80 hover:bg-red-500 text-white rounded-lg text-xs font-bold flex items-center gap-2">
+                        <SpinnerIcon className="animate-spin h-4 w-4" /> Dừng
+                    </button>
+                ) : (
+                    <button
+                        onClick={onGenerate}
+                        disabled={doneCount >= totalCount}
+                        className="px-3 py-2 bg-sky-600 hover:bg-sky-500 disabled:opacity-50 text-white rounded-lg text-xs font-bold"
+                    >
+                        🖼 Tạo ảnh{doneCount > 0 && doneCount < totalCount ? ' còn lại' : ''}
+                    </button>
+                )}
+                <button
+                    onClick={onDownloadZip}
+                    disabled={doneCount === 0}
+                    className="px-3 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white rounded-lg text-xs font-bold flex items-center gap-2 border border-slate-600"
+                >
+                    <DownloadIcon className="h-4 w-4" /> ZIP
+                </button>
+            </div>
+        </div>
+    );
+};
+
+// STORY BIBLE PANEL: nhân vật & bối cảnh được khóa và chèn nguyên văn vào mọi prompt
+const StoryBiblePanel: FC<{
+    bible: StoryBible;
+    setBible: (bible: StoryBible) => void;
+    enabled: boolean;
+    setEnabled: (enabled: boolean) => void;
+    locked: boolean;
+    setLocked: (locked: boolean) => void;
+    onExtract: () => void;
+    isExtracting: boolean;
+    canExtract: boolean;
+}> = ({ bible, setBible, enabled, setEnabled, locked, setLocked, onExtract, isExtracting, canExtract }) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+
+    const updateCharacter = (index: number, changes: Partial<StoryCharacter>) => {
+        setBible({ ...bible, characters: bible.characters.map((c, i) => i === index ? { ...c, ...changes } : c) });
+    };
+    const updateLocation = (index: number, changes: Partial<StoryLocation>) => {
+        setBible({ ...bible, locations: bible.locations.map((l, i) => i === index ? { ...l, ...changes } : l) });
+    };
+    const inputClass = "w-full bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded p-1.5 focus:ring-1 focus:ring-emerald-500 outline-none";
+
+    return (
+        <div className="bg-slate-950/50 border border-slate-800 p-6 rounded-2xl shadow-2xl backdrop-blur-md">
+            <div className="flex items-center justify-between">
+                <button onClick={() => setIsExpanded(!isExpanded)} className="flex items-center gap-2 text-left">
+                    <h2 className="text-lg font-bold text-emerald-400">🎭 Nhân vật & Bối cảnh</h2>
+                    {isExpanded ? <ChevronUpIcon className="h-4 w-4 text-slate-400" /> : <ChevronDownIcon className="h-4 w-4 text-slate-400" />}
+                </button>
+                <span className="text-[10px] font-mono text-slate-500">
+                    {bible.characters.length} nhân vật · {bible.locations.length} địa điểm
+                </span>
+            </div>
+
+            <div className="mt-3 space-y-2">
+                <div className="flex items-center gap-2">
+                    <input
+                        type="checkbox"
+                        id="enableStoryBible"
+                        checked={enabled}
+                        onChange={(e) => setEnabled(e.target.checked)}
+                        className="w-4 h-4 text-emerald-500 bg-slate-800 border-slate-600 rounded focus:ring-emerald-500 focus:ring-2"
+                    />
+                    <label htmlFor="enableStoryBible" className="text-sm font-medium text-slate-300 cursor-pointer">
+                        Dùng Story Bible khi tạo prompt
+                    </label>
+                </div>
+                <div className={`flex items-center gap-2 pl-6 transition-opacity duration-300 ${enabled ? 'opacity-100' : 'opacity-40 pointer-events-none'}`}>
+                    <input
+                        type="checkbox"
+                        id="lockStoryBible"
+                        checked={locked}
+                        onChange={(e) => setLocked(e.target.checked)}
+                        className="w-4 h-4 text-emerald-500 bg-slate-800 border-slate-600 rounded focus:ring-emerald-500 focus:ring-2"
+                    />
+                    <label htmlFor="lockStoryBible" className="text-xs text-slate-400 cursor-pointer">
+                        🔒 Khóa (không phân tích lại khi tạo storyboard)
+                    </label>
+                </div>
+                <p className="text-[10px] text-slate-500 italic">
+                    * Khi chưa khóa, mỗi lần tạo storyboard sẽ phân tích nhân vật trước. Chỉnh sửa bất kỳ sẽ tự động khóa.
+                </p>
+            </div>
+
+            {isExpanded && (
+                <div className="mt-4 space-y-4">
+                    <button
+                        onClick={onExtract}
+                        disabled={!canExtract || isExtracting}
+                        className="w-full py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-200 rounded-lg text-xs font-bold border border-slate-700 flex items-center justify-center gap-2"
+                    >
+                        {isExtracting ? <SpinnerIcon className="animate-spin h-4 w-4" /> : <SparklesIcon className="h-4 w-4" />}
+                        {isExtracting ? 'Đang phân tích...' : 'Phân tích từ kịch bản'}
+                    </button>
+
+                    <div>
+                        <label className="block text-[10px] font-bold text-slate-400 mb-1 uppercase">Thời đại / Bối cảnh chung</label>
+                        <input
+                            type="text"
+                            value={bible.era}
+                            onChange={(e) => setBible({ ...bible, era: e.target.value })}
+                            placeholder="VD: Hà Nội những năm 1990"
+                            className={inputClass}
+                        />
+                    </div>
+
+                    <div className="space-y-2">
+                        <label className="block text-[10px] font-bold text-slate-400 uppercase">Nhân vật</label>
+                        {bible.characters.map((character, idx) => (
+                            <div key={idx} className="bg-slate-900 border border-slate-800 rounded-lg p-2 space-y-1">
+                                <div className="flex items-center gap-2">
+                                    <input
+                                        type="text"
+                                        value={character.name}
+                                        onChange={(e) => updateCharacter(idx, { name: e.target.value })}
+                                        placeholder="Tên nhân vật"
+                                        className={`${inputClass} font-bold`}
+                                    />
+                                    <button
+                                        onClick={() => setBible({ ...bible, characters: bible.characters.filter((_, i) => i !== idx) })}
+                                        className="text-slate-500 hover:text-red-400"
+                                        title="Xóa"
+                                    >
+                                        <TrashIcon className="h-4 w-4" />
+                                    </button>
+                                </div>
+                                <div className="grid grid-cols-2 gap-1">
+                                    {(Object.keys(CHARACTER_FIELD_LABELS) as (keyof typeof CHARACTER_FIELD_LABELS)[]).map(field => (
+                                        <input
+                                            key={field}
+                                            type="text"
+                                            value={character[field]}
+                                            onChange={(e) => updateCharacter(idx, { [field]: e.target.value })}
+                                            placeholder={CHARACTER_FIELD_LABELS[field]}
+                                            title={CHARACTER_FIELD_LABELS[field]}
+                                            className={inputClass}
+                                        />
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                        <button
+                            onClick={() => setBible({ ...bible, characters: [...bible.characters, { ...EMPTY_CHARACTER }] })}
+                            className="text-xs text-emerald-400 hover:text-emerald-300 font-medium"
+                        >
+                            + Thêm nhân vật
+                        </button>
+                    </div>
+
+                    <div className="space-y-2">
+                        <label className="block text-[10px] font-bold text-slate-400 uppercase">Địa điểm</label>
+                        {bible.locations.map((location, idx) => (
+                            <div key={idx} className="flex items-start gap-2">
+                                <input
+                                    type="text"
+                                    value={location.name}
+                                    onChange={(e) => updateLocation(idx, { name: e.target.value })}
+                                    placeholder="Tên địa điểm"
+                                    className={`${inputClass} w-1/3`}
+                                />
+                                <input
+                                    type="text"
+                                    value={location.description}
+                                    onChange={(e) => updateLocation(idx, { description: e.target.value })}
+                                    placeholder="Mô tả hình ảnh (tiếng Anh)"
+                                    className={inputClass}
+                                />
+                                <button
+                                    onClick={() => setBible({ ...bible, locations: bible.locations.filter((_, i) => i !== idx) })}
+                                    className="text-slate-500 hover:text-red-400 pt-1"
+                                    title="Xóa"
+                                >
+                                    <TrashIcon className="h-4 w-4" />
+                                </button>
+                            </div>
+                        ))}
+                        <button
+                            onClick={() => setBible({ ...bible, locations: [...bible.locations, { name: '', description: '' }] })}
+                            className="text-xs text-emerald-400 hover:text-emerald-300 font-medium"
+                        >
+                            + Thêm địa điểm
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+interface ControlPanelProps {
+  mode: AppMode;
+  setMode: (mode: AppMode) => void;
+  scenario: string;
+  setScenario: (value: string) => void;
+  referenceImages: ImageFile[];
+  onImageUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onScriptUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onBuildPrompts: () => void;
+  onCancelBuild: () => void;
+  isBuilding: boolean;
+  onCleanScript: () => void;
+  scriptFileName: string | null;
+  segmentationMode: SegmentationMode;
+  setSegmentationMode: (mode: SegmentationMode) => void;
+  narration: NarrationSettings;
+  setNarration: (settings: NarrationSettings) => void;
+  hasPrompts: boolean;
+  targetSceneCount: number;
+  setTargetSceneCount: (count: number) => void;
+  promptType: PromptType;
+  setPromptType: (type: PromptType) => void;
+  selectedStyleId: string;
+  setSelectedStyleId: (id: string) => void;
+  stylePresets: StylePreset[];
+  onManageStyles: () => void;
+  promptTemplates: PromptTemplate[];
+  selectedTemplateId: string;
+  setSelectedTemplateId: (id: string) => void;
+  onManageTemplates: () => void;
+  aspectRatio: AspectRatio;
+  setAspectRatio: (ratio: AspectRatio) => void;
+  enableAspectRatio: boolean;
+  setEnableAspectRatio: (enable: boolean) => void;
+  selectedModel: string;
+  enableChunking: boolean;
+  setEnableChunking: (enable: boolean) => void;
+  parallelChunks: boolean;
+  setParallelChunks: (enable: boolean) => void;
+  localSegmentation: boolean;
+  setLocalSegmentation: (enable: boolean) => void;
+  variantCount: number;
+  setVariantCount: (count: number) => void;
+  targetGenerator: TargetGenerator;
+  setTargetGenerator: (generator: TargetGenerator) => void;
+  negativePrompt: string;
+  setNegativePrompt: (value: string) => void;
+  videoDuration: number;
+  setVideoDuration: (seconds: number) => void;
+  splitLongClips: boolean;
+  setSplitLongClips: (enable: boolean) => void;
+  cacheEnabled: boolean;
+  forceFreshRun: boolean;
+  setForceFreshRun: (force: boolean) => void;
+  buildProgress: string;
+}
+const ControlPanel: FC<ControlPanelProps> = ({ 
+    mode, setMode, scenario, setScenario, referenceImages, 
+    onImageUpload, onScriptUpload, onBuildPrompts, onCancelBuild, isBuilding, 
+    onCleanScript,
+    scriptFileName, 
+    segmentationMode, setSegmentationMode, narration, setNarration, hasPrompts,
+    targetSceneCount, setTargetSceneCount,
+    promptType, setPromptType,
+    selectedStyleId, setSelectedStyleId,
+    stylePresets, onManageStyles,
+    promptTemplates, selectedTemplateId, setSelectedTemplateId, onManageTemplates,
+    aspectRatio, setAspectRatio,
+    enableAspectRatio, setEnableAspectRatio,
+    selectedModel,
+    enableChunking, setEnableChunking,
+    parallelChunks, setParallelChunks,
+    localSegmentation, setLocalSegmentation,
+    variantCount, setVariantCount,
+    targetGenerator, setTargetGenerator,
+    negativePrompt, setNegativePrompt,
+    videoDuration, setVideoDuration,
+    splitLongClips, setSplitLongClips,
+    cacheEnabled, forceFreshRun, setForceFreshRun,
+    buildProgress
+}) => {
+  const charImgRef = useRef<HTMLInputElement>(null);
+  const scriptFileRef = useRef<HTMLInputElement>(null);
+  const [isRefImagesExpanded, setIsRefImagesExpanded] = useState(false);
+  
+  const scriptReady = useMemo(() => scenario.trim() !== "" || scriptFileName !== null, [scenario, scriptFileName]);
+  const dialect = resolveGenerator(targetGenerator, promptType);
+  const activeTemplate = getPromptTemplate(promptTemplates, selectedTemplateId);
+  const selectedStyle = findStylePreset(stylePresets, selectedStyleId);
+
+  // Ước lượng cho chế độ theo thời lượng (tính lại khi kịch bản / tốc độ đọc thay đổi)
+  const narrationEstimate = useMemo(() => {
+      if (segmentationMode !== 'duration' || !scenario.trim()) return null;
+      const totalSeconds = estimateScriptSeconds(scenario, narration.wordsPerMinute);
+      const sceneCount = sceneCountForDuration(totalSeconds, narration.minSecondsPerScene, narration.maxSecondsPerScene);
+      return { words: countWords(parseScriptInput(scenario).text), totalSeconds, sceneCount };
+  }, [segmentationMode, scenario, narration]);
+
+  const canBuild = useMemo(() => {
       return scriptReady;
   }, [scriptReady]);
 
@@ -807,32 +2696,93 @@ const ControlPanel: FC<ControlPanelProps> = ({
             {/* Style Selector */}
             <div>
                 <label className="block text-sm font-medium text-slate-300 mb-2">🎭 Chọn Phong Cách Image/Video</label>
-                <div className="relative">
-                    <select
-                        value={selectedStyleId}
-                        onChange={(e) => setSelectedStyleId(e.target.value)}
-                        className="w-full bg-slate-800 border border-slate-700 text-slate-200 text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 block p-2.5 appearance-none cursor-pointer"
-                    >
-                        <option value="reference">📸 Sử dụng ảnh tham chiếu (Mặc định)</option>
-                        {PRESET_STYLES.map(style => (
-                            <option key={style.id} value={style.id}>
-                                {style.label}
-                            </option>
-                        ))}
-                    </select>
-                    <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-slate-400">
-                        <ChevronDownIcon className="h-4 w-4" />
+                <div className="flex gap-2">
+                    <div className="relative flex-1">
+                        <select
+                            value={selectedStyleId}
+                            onChange={(e) => setSelectedStyleId(e.target.value)}
+                            className="w-full bg-slate-800 border border-slate-700 text-slate-200 text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 block p-2.5 appearance-none cursor-pointer"
+                        >
+                            <option value={REFERENCE_STYLE_ID}>📸 Sử dụng ảnh tham chiếu (Mặc định)</option>
+                            {stylePresets.length > 0 && (
+                                <optgroup label="Phong cách của bạn">
+                                    {stylePresets.map(style => (
+                                        <option key={style.id} value={style.id}>
+                                            {style.label}
+                                        </option>
+                                    ))}
+                                </optgroup>
+                            )}
+                            <optgroup label="Có sẵn">
+                                {BUILT_IN_STYLE_PRESETS.map(style => (
+                                    <option key={style.id} value={style.id}>
+                                        {style.label}
+                                    </option>
+                                ))}
+                            </optgroup>
+                        </select>
+                        <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-slate-400">
+                            <ChevronDownIcon className="h-4 w-4" />
+                        </div>
                     </div>
+                    <button
+                        onClick={onManageStyles}
+                        className="px-3 bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 rounded-lg text-xs font-medium"
+                        title="Tạo, sửa, sắp xếp, nhập/xuất phong cách"
+                    >
+                        Quản lý
+                    </button>
                 </div>
-                {selectedStyleId !== 'reference' && (
+                {selectedStyle && (selectedStyle.thumbnail || selectedStyle.negativePrompt) && (
+                    <div className="flex items-center gap-3 mt-2">
+                        {selectedStyle.thumbnail && <img src={selectedStyle.thumbnail} alt={selectedStyle.label} className="w-12 h-12 rounded-lg object-cover border border-slate-700" />}
+                        {selectedStyle.negativePrompt && (
+                            <p className="text-[11px] text-slate-500"><span className="font-bold uppercase">Negative:</span> {selectedStyle.negativePrompt}</p>
+                        )}
+                    </div>
+                )}
+                {selectedStyleId !== REFERENCE_STYLE_ID && (
                      <p className="text-xs text-slate-500 mt-2 italic">
                         * Khi chọn phong cách có sẵn, công cụ sẽ bỏ qua ảnh tham chiếu.
                     </p>
                 )}
             </div>
 
+            {/* Prompt Template */}
+            <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">📝 Mẫu prompt</label>
+                <div className="flex gap-2">
+                    <div className="relative flex-1">
+                        <select
+                            value={selectedTemplateId}
+                            onChange={(e) => setSelectedTemplateId(e.target.value)}
+                            className="w-full bg-slate-800 border border-slate-700 text-slate-200 text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 block p-2.5 appearance-none cursor-pointer"
+                        >
+                            {[...BUILT_IN_PROMPT_TEMPLATES, ...promptTemplates].map(template => (
+                                <option key={template.id} value={template.id}>
+                                    {template.builtIn ? '🔒 ' : ''}{template.name}
+                                </option>
+                            ))}
+                        </select>
+                        <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-slate-400">
+                            <ChevronDownIcon className="h-4 w-4" />
+                        </div>
+                    </div>
+                    <button
+                        onClick={onManageTemplates}
+                        className="px-3 bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 rounded-lg text-xs font-medium"
+                        title="Tạo, nhân bản, chỉnh sửa và xem trước mẫu prompt"
+                    >
+                        Quản lý
+                    </button>
+                </div>
+                {activeTemplate.description && (
+                    <p className="text-xs text-slate-500 mt-2 italic">{activeTemplate.description}</p>
+                )}
+            </div>
+
             {/* Reference Images (Visible ONLY if style is 'reference') */}
-            {selectedStyleId === 'reference' && (
+            {selectedStyleId === REFERENCE_STYLE_ID && (
                 <div className="space-y-2 animate-fade-in">
                     <p className="text-xs text-amber-400 font-medium italic flex items-center gap-1">
                         <InformationCircleIcon className="h-4 w-4" />
@@ -887,7 +2837,7 @@ const ControlPanel: FC<ControlPanelProps> = ({
 
             {/* Script Upload */}
             <div>
-                <label className="block text-sm font-medium text-slate-300 mb-2">📄 Tải lên Kịch bản (.txt, .srt)</label>
+                <label className="block text-sm font-medium text-slate-300 mb-2">📄 Tải lên Kịch bản (.txt, .srt, .vtt)</label>
                 <div 
                     onClick={() => scriptFileRef.current?.click()}
                     className="flex items-center gap-3 bg-slate-800 border border-slate-700 hover:border-emerald-500 p-3 rounded-md cursor-pointer transition-colors group"
@@ -895,7 +2845,7 @@ const ControlPanel: FC<ControlPanelProps> = ({
                     <DocumentIcon className="h-5 w-5 text-emerald-400 group-hover:scale-110 transition-transform" />
                     <span className="text-sm text-slate-300 truncate">{scriptFileName || 'Chọn file kịch bản...'}</span>
                 </div>
-                <input ref={scriptFileRef} type="file" accept=".txt,.srt" onChange={onScriptUpload} className="hidden" />
+                <input ref={scriptFileRef} type="file" accept=".txt,.srt,.vtt" onChange={onScriptUpload} className="hidden" />
             </div>
 
             {/* Manual Input */}
@@ -909,7 +2859,17 @@ const ControlPanel: FC<ControlPanelProps> = ({
                 rows={6}
                 className="w-full bg-slate-800 border border-slate-700 p-3 rounded-md focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 transition shadow-inner text-white text-sm"
                 ></textarea>
-                <p className="text-[10px] text-slate-500 mt-1 italic font-semibold text-emerald-400/80">* Được hỗ trợ bởi {MODELS.find(m => m.id === selectedModel)?.name || 'Gemini'}</p>
+                <div className="flex items-center justify-between gap-2 mt-1">
+                    <p className="text-[10px] text-slate-500 italic font-semibold text-emerald-400/80">* Được hỗ trợ bởi {MODELS.find(m => m.id === selectedModel)?.name || 'Gemini'}</p>
+                    <button
+                        onClick={onCleanScript}
+                        disabled={!scenario.trim() || isBuilding}
+                        className="flex items-center gap-1 px-2 py-1 rounded-md text-[11px] font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 border border-slate-700 disabled:opacity-40"
+                        title="Bỏ ghi chú sân khấu và Markdown (quy tắc offline hoặc AI), giữ nguyên lời thoại. Duyệt từng thay đổi trước khi áp dụng."
+                    >
+                        🧹 Làm sạch kịch bản
+                    </button>
+                </div>
             </div>
           </div>
 
@@ -925,17 +2885,83 @@ const ControlPanel: FC<ControlPanelProps> = ({
                         className={`flex-1 p-3 rounded-xl text-xs font-bold transition-all border shadow-lg flex flex-col items-center gap-1 ${promptType === 'image' ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700 hover:border-slate-500'}`}
                     >
                         <PhotoIcon className="h-5 w-5 mb-1" />
-                        <span>Ảnh (Nano Banana)</span>
+                        <span>Ảnh</span>
                     </button>
                     <button
                         onClick={() => setPromptType('video')}
                         className={`flex-1 p-3 rounded-xl text-xs font-bold transition-all border shadow-lg flex flex-col items-center gap-1 ${promptType === 'video' ? 'bg-rose-600 border-rose-400 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700 hover:border-slate-500'}`}
                     >
                         <VideoCameraIcon className="h-5 w-5 mb-1" />
-                        <span>Video (Veo/Sora)</span>
+                        <span>Video</span>
                     </button>
                 </div>
-                
+                
+                {/* Target Generator */}
+                <div className="mb-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                        <label htmlFor="targetGenerator" className="text-sm font-medium text-slate-300 whitespace-nowrap">Công cụ đích</label>
+                        <select
+                            id="targetGenerator"
+                            value={dialect.id}
+                            onChange={(e) => setTargetGenerator(e.target.value as TargetGenerator)}
+                            className="flex-1 bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded-lg p-2 focus:ring-1 focus:ring-emerald-500 outline-none"
+                        >
+                            {getDialectsForType(promptType).map(d => (
+                                <option key={d.id} value={d.id}>{d.label}</option>
+                            ))}
+                        </select>
+                        {dialect.duration && (
+                            <div className="flex items-center gap-1" title={`${dialect.label}: ${dialect.duration.min}-${dialect.duration.max} giây`}>
+                                <input
+                                    type="number"
+                                    min={dialect.duration.min}
+                                    max={dialect.duration.max}
+                                    value={clampDuration(dialect, videoDuration)}
+                                    onChange={(e) => setVideoDuration(clampDuration(dialect, parseInt(e.target.value)) || dialect.duration!.default)}
+                                    className="w-14 bg-slate-800 border border-slate-700 p-1.5 rounded text-center text-white text-xs font-bold focus:ring-2 focus:ring-emerald-500 outline-none"
+                                />
+                                <span className="text-xs text-slate-500">giây</span>
+                            </div>
+                        )}
+                    </div>
+                    {dialect.negativePrompt !== 'none' ? (
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="text"
+                                value={negativePrompt}
+                                onChange={(e) => setNegativePrompt(e.target.value)}
+                                placeholder="Negative prompt (những gì cần tránh)"
+                                className="flex-1 bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded-lg p-2 focus:ring-1 focus:ring-emerald-500 outline-none"
+                            />
+                            {!negativePrompt.trim() && (
+                                <button
+                                    onClick={() => setNegativePrompt(DEFAULT_NEGATIVE_PROMPT)}
+                                    className="text-xs text-slate-400 hover:text-emerald-400 underline whitespace-nowrap"
+                                    title={DEFAULT_NEGATIVE_PROMPT}
+                                >
+                                    Dùng gợi ý mặc định
+                                </button>
+                            )}
+                        </div>
+                    ) : (
+                        <p className="text-[10px] text-slate-500 italic">{dialect.label} không hỗ trợ negative prompt.</p>
+                    )}
+                    {dialect.duration && (
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                id="splitLongClips"
+                                checked={splitLongClips}
+                                onChange={(e) => setSplitLongClips(e.target.checked)}
+                                className="w-4 h-4 text-emerald-500 bg-slate-800 border-slate-600 rounded focus:ring-emerald-500 focus:ring-2"
+                            />
+                            <label htmlFor="splitLongClips" className="text-xs text-slate-400 cursor-pointer">
+                                Tách cảnh dài hơn {dialect.duration.max}s thành nhiều clip nối tiếp
+                            </label>
+                        </div>
+                    )}
+                </div>
+
                 {/* Aspect Ratio Buttons */}
                 <div className="flex items-center gap-2 mb-2">
                     <input 
@@ -969,12 +2995,29 @@ const ControlPanel: FC<ControlPanelProps> = ({
                         1:1 (Vuông)
                     </button>
                 </div>
+
+                {/* Prompt Variants */}
+                <div className="mt-3 flex items-center justify-between gap-3">
+                    <label htmlFor="variantCount" className="text-sm font-medium text-slate-300">
+                        Số phương án prompt / cảnh
+                        <span className="block text-[10px] text-slate-500 font-normal">Khác góc máy, bố cục, ánh sáng — chọn 1 phương án cho mỗi cảnh</span>
+                    </label>
+                    <input
+                        type="number"
+                        id="variantCount"
+                        min="1"
+                        max={MAX_PROMPT_VARIANTS}
+                        value={variantCount}
+                        onChange={(e) => setVariantCount(Math.max(1, Math.min(MAX_PROMPT_VARIANTS, parseInt(e.target.value) || 1)))}
+                        className="w-16 bg-slate-800 border border-slate-700 p-1.5 rounded text-center text-white text-sm font-bold focus:ring-2 focus:ring-emerald-500 outline-none"
+                    />
+                </div>
             </div>
 
             {/* Segmentation Options & Generate Button Group */}
             <div>
                 <label className="block text-sm font-medium text-slate-300 mb-2">✂️ Phương pháp phân cảnh</label>
-                <div className="grid grid-cols-2 gap-3 mb-4">
+                <div className="grid grid-cols-3 gap-3 mb-4">
                     <button
                         onClick={() => setSegmentationMode('ai')}
                         className={`hidden p-3 rounded-xl text-xs font-bold transition-all border shadow-lg flex-col items-center gap-1 ${segmentationMode === 'ai' ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700 hover:border-slate-500'}`}
@@ -996,8 +3039,70 @@ const ControlPanel: FC<ControlPanelProps> = ({
                         <span>🔢 Số cảnh cố định</span>
                         <span className="font-medium opacity-70 text-[10px]">Chia theo số lượng</span>
                     </button>
+                    <button
+                        onClick={() => setSegmentationMode('duration')}
+                        className={`p-3 rounded-xl text-xs font-bold transition-all border shadow-lg flex flex-col items-center gap-1 ${segmentationMode === 'duration' ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700 hover:border-slate-500'}`}
+                    >
+                        <span>⏱ Theo thời lượng</span>
+                        <span className="font-medium opacity-70 text-[10px]">{narration.minSecondsPerScene}-{narration.maxSecondsPerScene} giây/cảnh</span>
+                    </button>
 
-                     <div className={`col-span-2 p-2 rounded-xl border flex flex-col justify-center items-center transition-all duration-300 ${segmentationMode === 'fixed' ? 'bg-slate-900 border-emerald-500/50 opacity-100' : 'bg-slate-900/50 border-slate-800 opacity-40 pointer-events-none'}`}>
+                    {segmentationMode === 'duration' ? (
+                    <div className="col-span-3 p-3 rounded-xl border bg-slate-900 border-emerald-500/50 space-y-2">
+                        <div className="flex items-center gap-2">
+                            <select
+                                value={SPEAKING_RATE_PRESETS.find(p => p.wordsPerMinute === narration.wordsPerMinute)?.id || ''}
+                                onChange={(e) => {
+                                    const preset = SPEAKING_RATE_PRESETS.find(p => p.id === e.target.value);
+                                    if (preset) setNarration({ ...narration, wordsPerMinute: preset.wordsPerMinute });
+                                }}
+                                className="flex-1 bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded-lg p-1.5 focus:ring-1 focus:ring-emerald-500 outline-none"
+                            >
+                                <option value="">Tùy chỉnh</option>
+                                {SPEAKING_RATE_PRESETS.map(p => (
+                                    <option key={p.id} value={p.id}>{p.label} ({p.wordsPerMinute} từ/phút)</option>
+                                ))}
+                            </select>
+                            <input
+                                type="number"
+                                min="60"
+                                max="300"
+                                value={narration.wordsPerMinute}
+                                onChange={(e) => setNarration({ ...narration, wordsPerMinute: Math.max(1, parseInt(e.target.value) || DEFAULT_NARRATION.wordsPerMinute) })}
+                                className="w-16 bg-slate-800 border border-slate-700 p-1.5 rounded text-center text-white text-xs font-bold focus:ring-2 focus:ring-emerald-500 outline-none"
+                                title="Từ/phút"
+                            />
+                            <span className="text-[10px] text-slate-500">từ/phút</span>
+                        </div>
+                        <div className="flex items-center gap-2 text-xs text-slate-400">
+                            <span>Mỗi cảnh</span>
+                            <input
+                                type="number"
+                                min="1"
+                                step="0.5"
+                                value={narration.minSecondsPerScene}
+                                onChange={(e) => setNarration({ ...narration, minSecondsPerScene: Math.max(0.5, parseFloat(e.target.value) || DEFAULT_NARRATION.minSecondsPerScene) })}
+                                className="w-14 bg-slate-800 border border-slate-700 p-1.5 rounded text-center text-white text-xs font-bold focus:ring-2 focus:ring-emerald-500 outline-none"
+                            />
+                            <span>-</span>
+                            <input
+                                type="number"
+                                min="1"
+                                step="0.5"
+                                value={narration.maxSecondsPerScene}
+                                onChange={(e) => setNarration({ ...narration, maxSecondsPerScene: Math.max(0.5, parseFloat(e.target.value) || DEFAULT_NARRATION.maxSecondsPerScene) })}
+                                className="w-14 bg-slate-800 border border-slate-700 p-1.5 rounded text-center text-white text-xs font-bold focus:ring-2 focus:ring-emerald-500 outline-none"
+                            />
+                            <span>giây</span>
+                        </div>
+                        {narrationEstimate && (
+                            <p className="text-[10px] text-emerald-400/80">
+                                ≈ {narrationEstimate.words} từ · {formatDuration(narrationEstimate.totalSeconds)} đọc · ~{narrationEstimate.sceneCount} cảnh ({(narrationEstimate.totalSeconds / narrationEstimate.sceneCount).toFixed(1)}s/cảnh)
+                            </p>
+                        )}
+                    </div>
+                    ) : (
+                     <div className={`col-span-3 p-2 rounded-xl border flex flex-col justify-center items-center transition-all duration-300 ${segmentationMode === 'fixed' ? 'bg-slate-900 border-emerald-500/50 opacity-100' : 'bg-slate-900/50 border-slate-800 opacity-40 pointer-events-none'}`}>
                         <label className="text-[10px] font-bold text-slate-400 mb-1 uppercase text-center">Số lượng cảnh</label>
                         <input 
                             type="number" 
@@ -1009,16 +3114,95 @@ const ControlPanel: FC<ControlPanelProps> = ({
                             disabled={segmentationMode !== 'fixed'}
                         />
                     </div>
+                    )}
                 </div>
 
-                <button
-                    onClick={onBuildPrompts}
-                    disabled={!canBuild || isBuilding}
-                    className={`w-full py-3 px-4 rounded-md font-semibold transition-all flex items-center justify-center text-white ${hasPrompts ? 'bg-amber-600 hover:bg-amber-500' : 'bg-blue-600 hover:bg-blue-500'} disabled:bg-slate-600 disabled:text-slate-400 disabled:cursor-not-allowed shadow-lg`}
-                >
-                    {isBuilding ? <SpinnerIcon className="animate-spin h-5 w-5 mr-2" /> : hasPrompts ? <ArrowPathIcon className="h-5 w-5 mr-2" /> : null}
-                    {isBuilding ? 'AI đang phân tích...' : hasPrompts ? 'Tạo lại Storyboard Pro' : 'Tạo Storyboard Pro'}
-                </button>
+                {segmentationMode !== 'ai' && (
+                    <div className="mb-4 flex items-start gap-2">
+                        <input
+                            type="checkbox"
+                            id="localSegmentation"
+                            checked={localSegmentation}
+                            onChange={(e) => setLocalSegmentation(e.target.checked)}
+                            className="mt-0.5 w-4 h-4 text-emerald-500 bg-slate-800 border-slate-600 rounded focus:ring-emerald-500 focus:ring-2"
+                        />
+                        <label htmlFor="localSegmentation" className="text-xs text-slate-400 cursor-pointer">
+                            <span className="text-sm font-medium text-slate-300">Tách cảnh cục bộ</span> — chia câu ngay trên trình duyệt, cùng kịch bản luôn cho cùng kết quả và giữ nguyên văn 100%. AI chỉ viết phase & prompt.
+                        </label>
+                    </div>
+                )}
+
+                {/* Long Script Chunking */}
+                <div className="mb-4 p-3 rounded-xl border border-slate-800 bg-slate-900/50 space-y-2">
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            id="enableChunking"
+                            checked={enableChunking}
+                            onChange={(e) => setEnableChunking(e.target.checked)}
+                            className="w-4 h-4 text-emerald-500 bg-slate-800 border-slate-600 rounded focus:ring-emerald-500 focus:ring-2"
+                        />
+                        <label htmlFor="enableChunking" className="text-sm font-medium text-slate-300 cursor-pointer">
+                            Chia nhỏ kịch bản dài
+                        </label>
+                    </div>
+                    <div className={`flex items-center gap-2 pl-6 transition-opacity duration-300 ${enableChunking ? 'opacity-100' : 'opacity-40 pointer-events-none'}`}>
+                        <input
+                            type="checkbox"
+                            id="parallelChunks"
+                            checked={parallelChunks}
+                            onChange={(e) => setParallelChunks(e.target.checked)}
+                            className="w-4 h-4 text-emerald-500 bg-slate-800 border-slate-600 rounded focus:ring-emerald-500 focus:ring-2"
+                        />
+                        <label htmlFor="parallelChunks" className="text-xs text-slate-400 cursor-pointer">
+                            Xử lý song song (nhanh hơn, tốn nhiều request đồng thời)
+                        </label>
+                    </div>
+                    <p className="text-[10px] text-slate-500 italic">
+                        * Kịch bản dài (~{Math.round(DEFAULT_CHUNK_CHARS / 1000)}k ký tự trở lên) sẽ được chia theo đoạn/câu, mỗi phần mang theo tóm tắt nhân vật & bối cảnh của phần trước.
+                    </p>
+                </div>
+
+                {cacheEnabled && (
+                    <div className="flex items-center gap-2">
+                        <span className="text-xs text-slate-400 whitespace-nowrap">Kết quả đã lưu</span>
+                        <div className="flex-1 grid grid-cols-2 gap-1">
+                            <button
+                                onClick={() => setForceFreshRun(false)}
+                                className={`px-2 py-1.5 rounded-lg text-[11px] font-bold border ${!forceFreshRun ? 'bg-emerald-600 border-emerald-400 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700'}`}
+                                title="Cùng kịch bản, thiết lập và ảnh tham chiếu => dùng lại kết quả cũ, không gọi AI"
+                            >
+                                ♻ Dùng nếu có
+                            </button>
+                            <button
+                                onClick={() => setForceFreshRun(true)}
+                                className={`px-2 py-1.5 rounded-lg text-[11px] font-bold border ${forceFreshRun ? 'bg-amber-600 border-amber-400 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700'}`}
+                                title="Luôn gọi AI và ghi đè kết quả đã lưu"
+                            >
+                                🔄 Chạy mới
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {isBuilding ? (
+                    <button
+                        onClick={onCancelBuild}
+                        className="w-full py-3 px-4 rounded-md font-semibold transition-all flex items-center justify-center text-white bg-red-600 hover:bg-red-500 shadow-lg"
+                    >
+                        <SpinnerIcon className="animate-spin h-5 w-5 mr-2" />
+                        {`AI đang phân tích... Bấm để hủy${buildProgress ? ` (${buildProgress})` : ''}`}
+                    </button>
+                ) : (
+                    <button
+                        onClick={onBuildPrompts}
+                        disabled={!canBuild}
+                        className={`w-full py-3 px-4 rounded-md font-semibold transition-all flex items-center justify-center text-white ${hasPrompts ? 'bg-amber-600 hover:bg-amber-500' : 'bg-blue-600 hover:bg-blue-500'} disabled:bg-slate-600 disabled:text-slate-400 disabled:cursor-not-allowed shadow-lg`}
+                    >
+                        {hasPrompts ? <ArrowPathIcon className="h-5 w-5 mr-2" /> : null}
+                        {hasPrompts ? 'Tạo lại Storyboard Pro' : 'Tạo Storyboard Pro'}
+                    </button>
+                )}
             </div>
           </div>
       </div>
@@ -1034,25 +3218,67 @@ const App: FC = () => {
   const [referenceImages, setReferenceImages] = useState<ImageFile[]>([]);
   const [prompts, setPrompts] = useState<ScenePrompt[]>([]);
   const [isBuilding, setIsBuilding] = useState<boolean>(false);
-  const [segmentationMode, setSegmentationMode] = useState<'ai' | 'punctuation' | 'fixed'>('fixed');
+  const [repairReport, setRepairReport] = useState<RepairEntry[]>([]);
+  const [showCleaningModal, setShowCleaningModal] = useState<boolean>(false);
+  const [cleanerSettings, setCleanerSettings] = useState<ScriptCleanerSettings>(DEFAULT_CLEANER_SETTINGS);
+  // Token của bước làm sạch kịch bản, cộng vào phiên được lưu ở lần tạo storyboard kế tiếp
+  const [pendingCleaningUsage, setPendingCleaningUsage] = useState<RunUsage | null>(null);
+  const [segmentationMode, setSegmentationMode] = useState<SegmentationMode>('fixed');
+  const [narration, setNarration] = useState<NarrationSettings>(DEFAULT_NARRATION);
   const [targetSceneCount, setTargetSceneCount] = useState<number>(10);
   const [promptType, setPromptType] = useState<PromptType>('image');
   const [aspectRatio, setAspectRatio] = useState<AspectRatio>('16:9');
   const [enableAspectRatio, setEnableAspectRatio] = useState<boolean>(false);
-  const [selectedStyleId, setSelectedStyleId] = useState<string>('reference'); // Default to reference/default
+  const [enableChunking, setEnableChunking] = useState<boolean>(true);
+  const [parallelChunks, setParallelChunks] = useState<boolean>(false);
+  const [localSegmentation, setLocalSegmentation] = useState<boolean>(true);
+  const [variantCount, setVariantCount] = useState<number>(1);
+  const [targetGenerators, setTargetGenerators] = useState<Record<PromptType, TargetGenerator>>(DEFAULT_GENERATORS);
+  const [negativePrompt, setNegativePrompt] = useState<string>('');
+  const [videoDuration, setVideoDuration] = useState<number>(0); // 0 = mặc định của công cụ
+  const [splitLongClips, setSplitLongClips] = useState<boolean>(true);
+  const [cacheSettings, setCacheSettings] = useState<CacheSettings>(DEFAULT_CACHE_SETTINGS);
+  const [forceFreshRun, setForceFreshRun] = useState<boolean>(false);
+  const [exportAlternatives, setExportAlternatives] = useState<boolean>(false);
+  const [storyBible, setStoryBible] = useState<StoryBible>(EMPTY_STORY_BIBLE);
+  const [enableStoryBible, setEnableStoryBible] = useState<boolean>(true);
+  const [storyBibleLocked, setStoryBibleLocked] = useState<boolean>(false);
+  const [isExtractingBible, setIsExtractingBible] = useState<boolean>(false);
+  const [busySceneIds, setBusySceneIds] = useState<number[]>([]);
+  const [buildProgress, setBuildProgress] = useState<string>('');
+  const [estimatedSceneCount, setEstimatedSceneCount] = useState<number>(0);
+  const buildAbortRef = useRef<AbortController | null>(null);
+  // Tạo ảnh: trạng thái theo id cảnh + cài đặt hàng đợi
+  const [sceneImages, setSceneImages] = useState<Record<number, SceneImageState>>({});
+  const [imageSettings, setImageSettings] = useState<ImageGenerationSettings>(DEFAULT_IMAGE_SETTINGS);
+  const [isGeneratingImages, setIsGeneratingImages] = useState<boolean>(false);
+  const imageAbortRef = useRef<AbortController | null>(null);
+  const [selectedStyleId, setSelectedStyleId] = useState<string>(REFERENCE_STYLE_ID); // Default to reference/default
+  // Phong cách do người dùng tạo / nhập (phong cách có sẵn nằm trong BUILT_IN_STYLE_PRESETS)
+  const [stylePresets, setStylePresets] = useState<StylePreset[]>([]);
+  const [showStyleModal, setShowStyleModal] = useState<boolean>(false);
+  // Mẫu prompt do người dùng tạo (mẫu có sẵn nằm trong BUILT_IN_PROMPT_TEMPLATES) + mẫu dùng cho lần chạy tới
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string>(DEFAULT_PROMPT_TEMPLATE_ID);
+  const [showTemplateModal, setShowTemplateModal] = useState<boolean>(false);
   const [toasts, setToasts] = useState<ToastMessage[]>([]);
   
   // API & Settings State
   const [apiKeys, setApiKeys] = useState<ApiKeyData[]>([]);
   const [apiKey, setApiKey] = useState<string>(''); // Deprecated logic mostly, kept for legacy if needed or simple single key
-  const [key4uKey, setKey4uKey] = useState<string>('');
+  const [openAIConfig, setOpenAIConfig] = useState<OpenAICompatibleConfig>(DEFAULT_OPENAI_CONFIG);
   const [selectedModel, setSelectedModel] = useState<string>('gemini-3-flash-preview');
+  const [providerPriority, setProviderPriority] = useState<ProviderSlot[]>(DEFAULT_PROVIDER_PRIORITY);
+  const [keyRotationPolicy, setKeyRotationPolicy] = useState<KeyRotationPolicy>('round_robin');
+  const [priceTable, setPriceTable] = useState<ModelPrice[]>(DEFAULT_PRICE_TABLE);
   const [showApiModal, setShowApiModal] = useState(false);
   
   // Library State
   const [showLibraryModal, setShowLibraryModal] = useState(false);
   const [showGuideModal, setShowGuideModal] = useState(false);
   const [savedSessions, setSavedSessions] = useState<SavedSession[]>([]);
+  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [sourceScript, setSourceScript] = useState<string>('');
 
   // Load saved sessions on mount
   useEffect(() => {
@@ -1085,22 +3311,186 @@ const App: FC = () => {
     }
     setApiKeys(keys);
 
-    if (savedKey4u) {
-        setKey4uKey(savedKey4u);
+    const savedOpenAI = localStorage.getItem('sbgen_openai_config');
+    if (savedOpenAI) {
+        try {
+            setOpenAIConfig({ ...DEFAULT_OPENAI_CONFIG, ...JSON.parse(savedOpenAI) });
+        } catch (e) { console.error(e); }
+    } else if (savedKey4u) {
+        // Migrate old Key4U key to the OpenAI-compatible config
+        const migrated = { ...KEY4U_OPENAI_CONFIG, apiKey: savedKey4u };
+        setOpenAIConfig(migrated);
+        localStorage.setItem('sbgen_openai_config', JSON.stringify(migrated));
+    }
+
+    const savedPriceTable = localStorage.getItem('sbgen_price_table');
+    if (savedPriceTable) {
+        try {
+            const parsed = JSON.parse(savedPriceTable);
+            if (Array.isArray(parsed)) setPriceTable(parsed);
+        } catch (e) {
+            console.error("Failed to parse price table", e);
+        }
+    }
+
+    const savedImageSettings = localStorage.getItem('sbgen_image_settings');
+    if (savedImageSettings) {
+        try {
+            setImageSettings(normalizeImageSettings(JSON.parse(savedImageSettings)));
+        } catch (e) { console.error(e); }
+    }
+
+    const savedCacheSettings = localStorage.getItem('sbgen_cache_settings');
+    if (savedCacheSettings) {
+        try {
+            setCacheSettings(normalizeCacheSettings(JSON.parse(savedCacheSettings)));
+        } catch (e) { console.error(e); }
+    }
+
+    const savedCleanerSettings = localStorage.getItem('sbgen_cleaner_settings');
+    if (savedCleanerSettings) {
+        try {
+            setCleanerSettings(normalizeCleanerSettings(JSON.parse(savedCleanerSettings)));
+        } catch (e) { console.error(e); }
+    }
+
+    const savedStylePresets = localStorage.getItem('sbgen_style_presets');
+    if (savedStylePresets) {
+        try {
+            setStylePresets(normalizeStylePresets(JSON.parse(savedStylePresets)));
+        } catch (e) { console.error(e); }
+    }
+
+    const savedTemplates = localStorage.getItem('sbgen_prompt_templates');
+    if (savedTemplates) {
+        try {
+            setPromptTemplates(normalizePromptTemplates(JSON.parse(savedTemplates)));
+        } catch (e) { console.error(e); }
+    }
+    const savedTemplateId = localStorage.getItem('sbgen_prompt_template_id');
+    if (savedTemplateId) setSelectedTemplateId(savedTemplateId);
+
+    const savedPolicy = localStorage.getItem('sbgen_key_policy') as KeyRotationPolicy | null;
+    if (savedPolicy && savedPolicy in KEY_ROTATION_POLICY_LABELS) {
+        setKeyRotationPolicy(savedPolicy);
+    }
+
+    const savedPriority = localStorage.getItem('sbgen_provider_priority');
+    if (savedPriority) {
+        try {
+            setProviderPriority(normalizeProviderPriority(JSON.parse(savedPriority)));
+        } catch (e) { console.error(e); }
     }
   }, []);
 
+  // Ghi lại thống kê sức khỏe key từ pool (giữ nguyên các thay đổi khác của người dùng)
+  const persistKeyHealth = (poolKeys: PooledKey[]) => {
+      setApiKeys(prev => {
+          const updated = prev.map(k => {
+              const health = poolKeys.find(p => p.key === k.key);
+              return health ? { ...health, isActive: k.isActive } : k;
+          });
+          localStorage.setItem('sbgen_api_keys', JSON.stringify(updated));
+          return updated;
+      });
+  };
+
+  const handleSaveCacheSettings = (settings: CacheSettings) => {
+      setCacheSettings(settings);
+      localStorage.setItem('sbgen_cache_settings', JSON.stringify(settings));
+  };
+
+  const handleSaveCleanerSettings = (settings: ScriptCleanerSettings) => {
+      setCleanerSettings(settings);
+      localStorage.setItem('sbgen_cleaner_settings', JSON.stringify(settings));
+  };
+
+  const handleSaveStylePresets = (presets: StylePreset[]) => {
+      setStylePresets(presets);
+      try {
+          localStorage.setItem('sbgen_style_presets', JSON.stringify(presets));
+      } catch (e) {
+          // Ảnh mẫu làm vượt dung lượng localStorage: vẫn dùng được trong phiên này
+          console.error(e);
+          addToast('error', 'Không lưu được phong cách', 'Bộ nhớ trình duyệt đã đầy. Hãy bỏ bớt ảnh mẫu hoặc xuất ra file JSON.');
+      }
+  };
+
+  const handleImportStylePresets = (file: File) => {
+      const reader = new FileReader();
+      reader.onload = (event) => {
+          try {
+              const imported = parseStylePresetsFile(event.target?.result as string);
+              const { presets, added, updated } = mergeStylePresets(stylePresets, imported);
+              handleSaveStylePresets(presets);
+              addToast('success', 'Đã nhập phong cách', `${file.name}: thêm ${added}, cập nhật ${updated} phong cách.`);
+          } catch (error: any) {
+              addToast('error', 'Lỗi nhập phong cách', error.message);
+          }
+      };
+      reader.readAsText(file);
+  };
+
+  const handleExportStylePresets = () => {
+      const blob = new Blob([exportStylePresets(stylePresets)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `style_presets_${getTimestamp()}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+  };
+
+  const handleSavePromptTemplates = (templates: PromptTemplate[]) => {
+      setPromptTemplates(templates);
+      localStorage.setItem('sbgen_prompt_templates', JSON.stringify(templates));
+  };
+
+  const handleSelectPromptTemplate = (id: string) => {
+      setSelectedTemplateId(id);
+      localStorage.setItem('sbgen_prompt_template_id', id);
+  };
+
+  const activePromptTemplate = getPromptTemplate(promptTemplates, selectedTemplateId);
+
+  const handleSaveImageSettings = (settings: ImageGenerationSettings) => {
+      setImageSettings(settings);
+      localStorage.setItem('sbgen_image_settings', JSON.stringify(settings));
+  };
+
+  const handleSavePriceTable = (table: ModelPrice[]) => {
+      setPriceTable(table);
+      localStorage.setItem('sbgen_price_table', JSON.stringify(table));
+  };
+
   // Save sessions helper
-  const saveSession = (newPrompts: ScenePrompt[], scriptName: string) => {
+  const saveSession = (newPrompts: ScenePrompt[], scriptName: string, extras: Pick<SavedSession, 'script' | 'usage' | 'storyBible' | 'promptTemplate'> = {}) => {
       const newSession: SavedSession = {
           id: Date.now().toString(),
           name: scriptName || `Untitled ${new Date().toLocaleTimeString()}`,
           timestamp: Date.now(),
-          prompts: newPrompts
+          prompts: newPrompts,
+          ...extras
       };
       const updatedSessions = [...savedSessions, newSession];
       setSavedSessions(updatedSessions);
       localStorage.setItem('sbgen_sessions', JSON.stringify(updatedSessions));
+      setCurrentSessionId(newSession.id);
+  };
+
+  // Cập nhật prompts của session đang mở (sau khi sửa/tạo lại cảnh)
+  // `extraUsage`: token của các request sửa cảnh, cộng dồn vào chi phí của session
+  const updateCurrentSession = (updatedPrompts: ScenePrompt[] | ((prompts: ScenePrompt[]) => ScenePrompt[]), extraUsage?: RunUsage) => {
+      if (!currentSessionId) return;
+      setSavedSessions(prev => {
+          const updated = prev.map(session => session.id === currentSessionId ? {
+              ...session,
+              prompts: typeof updatedPrompts === 'function' ? updatedPrompts(session.prompts) : updatedPrompts,
+              usage: extraUsage ? mergeRunUsage(session.usage || createEmptyRunUsage(), extraUsage) : session.usage
+          } : session);
+          localStorage.setItem('sbgen_sessions', JSON.stringify(updated));
+          return updated;
+      });
   };
 
   const handleDeleteSession = (id: string) => {
@@ -1110,8 +3500,26 @@ const App: FC = () => {
       addToast('info', 'Đã xóa', 'Đã xóa phiên làm việc khỏi thư viện.');
   };
 
+  // Chọn lại mẫu prompt của một phiên. Mẫu đã bị sửa hoặc xóa từ sau phiên đó được khôi phục thành một mẫu riêng.
+  const handleUseSessionTemplate = (session: SavedSession) => {
+      if (!session.promptTemplate) return;
+      const snapshot = normalizePromptTemplate(session.promptTemplate);
+      const allTemplates = [...BUILT_IN_PROMPT_TEMPLATES, ...promptTemplates];
+      const existing = allTemplates.find(t => t.id === snapshot.id && isSameTemplateContent(t, snapshot))
+          || allTemplates.find(t => isSameTemplateContent(t, snapshot));
+      if (existing) {
+          handleSelectPromptTemplate(existing.id);
+          addToast('info', 'Đã chọn mẫu prompt', `Lần tạo tiếp theo dùng mẫu "${existing.name}".`);
+          return;
+      }
+      const restored = duplicatePromptTemplate(snapshot, `${snapshot.name} (${session.name})`);
+      handleSavePromptTemplates([...promptTemplates, restored]);
+      handleSelectPromptTemplate(restored.id);
+      addToast('success', 'Đã khôi phục mẫu prompt', `Mẫu "${restored.name}" đã được thêm và chọn cho lần tạo tiếp theo.`);
+  };
+
   const handleDownloadSession = (session: SavedSession) => {
-      exportToExcel(session.prompts, `storyboard_${session.name.replace(/\s+/g, '_')}`);
+      exportToExcel(session.prompts, `storyboard_${session.name.replace(/\s+/g, '_')}`, exportAlternatives);
       // Also download TXT for consistency with old behavior if needed, but Excel usually suffices. 
       // Let's create a TXT as well for "AudioScriptImageSync" compatibility mentioned in guide.
       const txtContent = session.prompts.map(p => `${p.scriptLine}`).join('\n');
@@ -1167,100 +3575,551 @@ const App: FC = () => {
       reader.onload = (event) => {
           const content = event.target?.result as string;
           setScriptFileName(file.name);
-          if (file.name.endsWith('.srt')) {
-              setScenario(content);
+          setScenario(content);
+          const cues = isSubtitleFileName(file.name) ? parseSubtitles(content) : [];
+          if (cues.length > 0) {
+              addToast('success', 'Đã tải phụ đề', `${file.name}: ${cues.length} cue, cảnh được gom từ các cue nguyên vẹn và giữ mốc thời gian.`);
           } else {
-              setScenario(content);
+              addToast('success', 'Đã tải kịch bản', `Đã tải ${file.name}`);
           }
-          addToast('success', 'Đã tải kịch bản', `Đã tải ${file.name}`);
       };
       reader.readAsText(file);
   };
 
+  const handleCancelBuild = () => {
+      buildAbortRef.current?.abort();
+  };
+
+  // Key pool: xoay vòng theo chính sách đã chọn, cập nhật sức khỏe key sau mỗi request
+  const createGeminiCredentials = () => {
+      const keyPool = createKeyPool(apiKeys, keyRotationPolicy, persistKeyHealth);
+      // Không có key nào dùng được => fallback sang process.env (service sẽ dùng key dự phòng nếu rỗng)
+      const effectiveKey = keyPool.orderedKeys().length === 0 ? (process.env.API_KEY || "") : "";
+      return { keyPool, effectiveKey };
+  };
+
+  // Style lock + ảnh tham chiếu dùng cho mọi request tạo prompt (cả storyboard lẫn từng cảnh)
+  const resolveStyleContext = () => {
+      let refImagesForService: { base64: string; mimeType: string }[] = [];
+      let activeStylePrompt = "";
+      let activeNegativePrompt = negativePrompt;
+
+      // Logic for Style Selection vs Reference Images
+      if (selectedStyleId === REFERENCE_STYLE_ID) {
+         // If reference mode selected, pass the uploaded images
+         refImagesForService = referenceImages.map(img => ({ base64: img.base64, mimeType: img.mimeType }));
+         
+         if (refImagesForService.length > 0) {
+             // Use specific instruction to follow image style
+             activeStylePrompt = "Analyze the provided reference images and apply their exact art style, color palette, and lighting to the prompt.";
+         } else {
+             // No images provided in reference mode -> Neutral/Content-based style
+             activeStylePrompt = "Visual Style: Neutral, realistic, high quality. Visualize the scene based strictly on the script content.";
+         }
+      } else {
+         // A Preset is selected
+         // Force ignore reference images even if they exist in state
+         refImagesForService = []; 
+         const selectedStyleObj = findStylePreset(stylePresets, selectedStyleId);
+         activeStylePrompt = selectedStyleObj ? selectedStyleObj.prompt : "";
+         activeNegativePrompt = mergeNegativePrompts(negativePrompt, selectedStyleObj?.negativePrompt);
+      }
+      return { refImagesForService, activeStylePrompt, activeNegativePrompt };
+  };
+
+  // Người dùng sửa Story Bible => khóa lại để lần tạo sau không ghi đè
+  const handleEditStoryBible = (bible: StoryBible) => {
+      setStoryBible(bible);
+      setStoryBibleLocked(true);
+  };
+
+  const handleExtractStoryBible = async () => {
+      if (!scenario.trim()) return;
+      setIsExtractingBible(true);
+      try {
+          const { keyPool, effectiveKey } = createGeminiCredentials();
+          const { bible } = await extractStoryBible(parseScriptInput(scenario).text, effectiveKey, selectedModel, openAIConfig, providerPriority, { keyPool });
+          setStoryBible(bible);
+          setStoryBibleLocked(true);
+          addToast('success', 'Đã phân tích', `Tìm thấy ${bible.characters.length} nhân vật, ${bible.locations.length} địa điểm.`);
+      } catch (error: any) {
+          addToast('error', 'Lỗi phân tích nhân vật', error.message);
+      } finally {
+          setIsExtractingBible(false);
+      }
+  };
+
+  const handleCleanScriptWithAI = async (text: string) => {
+      try {
+          const { keyPool, effectiveKey } = createGeminiCredentials();
+          return await standardizeScriptWithAI(text, effectiveKey, selectedModel, openAIConfig, providerPriority, { keyPool });
+      } catch (error: any) {
+          addToast('error', 'Lỗi làm sạch kịch bản', error.message);
+          return null;
+      }
+  };
+
+  // Chỉ các thay đổi được chấp nhận đi vào kịch bản dùng để tạo storyboard
+  const handleApplyCleanedScript = (text: string, usage: RunUsage | null, acceptedCount: number, totalCount: number) => {
+      if (acceptedCount > 0) setScenario(text);
+      if (usage) setPendingCleaningUsage(prev => prev ? mergeRunUsage(prev, usage) : usage);
+      setShowCleaningModal(false);
+      addToast('success', 'Đã làm sạch kịch bản', `Áp dụng ${acceptedCount}/${totalCount} thay đổi.`);
+  };
+
+  // Thiết lập hiện tại, dùng để xem trước system instruction của mẫu prompt
+  const buildTemplatePreviewSettings = (): InstructionPreviewSettings => {
+      const segmentation = resolveSegmentation(scenario, segmentationMode, targetSceneCount, narration);
+      return {
+          promptType,
+          segmentationMode: segmentation.mode,
+          targetSceneCount: segmentation.targetSceneCount,
+          styleLock: resolveStyleContext().activeStylePrompt,
+          aspectRatio,
+          enableAspectRatio,
+          targetGenerator: targetGenerators[promptType],
+          durationSeconds: videoDuration,
+          variantCount,
+          storyBible: enableStoryBible ? storyBible : undefined,
+          presegmented: parseScriptInput(scenario).cues.length > 0 || (localSegmentation && segmentation.mode !== 'ai'),
+      };
+  };
+
   const handleBuildPrompts = async () => {
       if (!scenario) return;
+      const abortController = new AbortController();
+      buildAbortRef.current = abortController;
       setIsBuilding(true);
+      setRepairReport([]);
+      const previousPrompts = prompts;
+      const baseId = Date.now();
+      const mapScene = (item: any, index: number): ScenePrompt => ({
+          id: baseId + index,
+          phase: item.phase,
+          imagePrompt: item.imagePrompt, // might be undefined if promptType=video
+          videoPrompt: item.videoPrompt, // might be undefined if promptType=image
+          scriptLine: item.scriptLine,
+          ...(Array.isArray(item.promptVariants) ? { promptVariants: item.promptVariants, selectedVariant: 0 } : {}),
+          ...(item.render ? { basePrompt: item.basePrompt, negativePrompt: item.negativePrompt, render: item.render } : {}),
+          ...(item.shot ? { shot: item.shot } : {}),
+          ...(Array.isArray(item.cueIndices) ? { startTime: item.startTime, endTime: item.endTime, cueIndices: item.cueIndices } : {})
+      });
+      // Phụ đề: AI chỉ nhận văn bản thuần, cảnh được gom theo cue trong service
+      const { cues: subtitleCues, text: scriptText } = parseScriptInput(scenario);
+      const segmentation = resolveSegmentation(scenario, segmentationMode, targetSceneCount, narration);
+      setEstimatedSceneCount(estimateSceneCount(scenario, segmentation.mode, segmentation.targetSceneCount, localSegmentation));
       try {
-           // Get active keys
-           const activeKeys = apiKeys.filter(k => k.isActive);
-           let effectiveKey = "";
-           
-           if (activeKeys.length === 0) {
-                // Fallback to process.env or empty string (service will use fallback key)
-                if (process.env.API_KEY) {
-                    effectiveKey = process.env.API_KEY;
-                } else {
-                    effectiveKey = "";
-                }
-           } else {
-               // Rotation Strategy: Random for now (simple load balancing)
-               const randomIndex = Math.floor(Math.random() * activeKeys.length);
-               effectiveKey = activeKeys[randomIndex].key;
-           }
+           const { keyPool, effectiveKey } = createGeminiCredentials();
           
-          let refImagesForService: { base64: string; mimeType: string }[] = [];
-          let activeStylePrompt = "";
-
-          // Logic for Style Selection vs Reference Images
-          if (selectedStyleId === 'reference') {
-             // If reference mode selected, pass the uploaded images
-             refImagesForService = referenceImages.map(img => ({ base64: img.base64, mimeType: img.mimeType }));
-             
-             if (refImagesForService.length > 0) {
-                 // Use specific instruction to follow image style
-                 activeStylePrompt = "Analyze the provided reference images and apply their exact art style, color palette, and lighting to the prompt.";
-             } else {
-                 // No images provided in reference mode -> Neutral/Content-based style
-                 activeStylePrompt = "Visual Style: Neutral, realistic, high quality. Visualize the scene based strictly on the script content.";
-             }
+          const { refImagesForService, activeStylePrompt, activeNegativePrompt } = resolveStyleContext();
+
+          // Cache: hash toàn bộ đầu vào của analyzeScriptWithAI, kể cả byte ảnh tham chiếu (không gồm API key).
+          // Story Bible chưa khóa được trích xuất từ chính kịch bản => chỉ cần đánh dấu 'auto'.
+          const useLockedBible = storyBibleLocked && !isStoryBibleEmpty(storyBible);
+          const cacheKey = cacheSettings.enabled ? await hashCacheInput({
+              script: scriptText,
+              referenceImages: refImagesForService,
+              styleLock: activeStylePrompt,
+              mode,
+              segmentationMode: segmentation.mode,
+              model: selectedModel,
+              targetSceneCount: segmentation.targetSceneCount,
+              promptType,
+              aspectRatio,
+              enableAspectRatio,
+              openAI: { baseUrl: openAIConfig.baseUrl, model: openAIConfig.model, temperature: openAIConfig.temperature },
+              providerPriority,
+              options: {
+                  chunking: enableChunking,
+                  parallelChunks,
+                  localSegmentation,
+                  variantCount,
+                  subtitleCues,
+                  wordsPerMinute: segmentationMode === 'duration' ? narration.wordsPerMinute : undefined,
+                  targetGenerator: targetGenerators[promptType],
+                  negativePrompt: activeNegativePrompt,
+                  durationSeconds: videoDuration,
+                  promptTemplate: activePromptTemplate.sections
+              },
+              storyBible: enableStoryBible ? (useLockedBible ? storyBible : 'auto') : null
+          }) : null;
+          const cached = cacheKey && !forceFreshRun ? await getCachedResponse<CachedAnalysis>(cacheKey) : null;
+
+          if (cached) {
+              addToast('info', 'Dùng kết quả đã lưu', `Kết quả từ ${new Date(cached.createdAt).toLocaleString('vi-VN')}, không gọi AI. Chọn "Chạy mới" để tạo lại.`);
           } else {
-             // A Preset is selected
-             // Force ignore reference images even if they exist in state
-             refImagesForService = []; 
-             const selectedStyleObj = PRESET_STYLES.find(s => s.id === selectedStyleId);
-             activeStylePrompt = selectedStyleObj ? selectedStyleObj.prompt : "";
+              // Provider đầu tiên được bật và đã có key trong danh sách ưu tiên
+              const firstSlot = providerPriority.find(slot => slot.enabled && (
+                  slot.id === 'openai' ? isOpenAIConfigured(openAIConfig) : slot.id === 'gemini' ? (!!effectiveKey || keyPool.orderedKeys().length > 0) : true
+              ));
+              const expectedProvider = firstSlot ? PROVIDER_SLOT_LABELS[firstSlot.id] : 'Gemini';
+              addToast('info', 'Đang phân cảnh...', `Ưu tiên sử dụng ${expectedProvider}`);
           }
 
-          const expectedProvider = key4uKey ? 'Key4U' : 'Gemini';
-          const expectedModel = key4uKey ? 'gpt-4o-mini' : selectedModel;
-          addToast('info', 'Đang phân cảnh...', `Sử dụng ${expectedProvider} (${expectedModel})`);
+          // Lượt 1: Story Bible (dùng bản đã khóa, hoặc trích xuất mới từ kịch bản)
+          let bibleForRun: StoryBible | undefined = cached?.value.storyBible;
+          let bibleUsage: RunUsage | undefined;
+          if (cached) {
+              if (bibleForRun && !useLockedBible) setStoryBible(bibleForRun);
+          } else if (enableStoryBible) {
+              if (storyBibleLocked && !isStoryBibleEmpty(storyBible)) {
+                  bibleForRun = storyBible;
+              } else {
+                  setBuildProgress('phân tích nhân vật');
+                  try {
+                      const extracted = await extractStoryBible(scriptText, effectiveKey, selectedModel, openAIConfig, providerPriority, { signal: abortController.signal, keyPool });
+                      bibleForRun = extracted.bible;
+                      bibleUsage = extracted.usage;
+                      setStoryBible(extracted.bible);
+                  } catch (error: any) {
+                      if (isAbortError(error)) throw error;
+                      addToast('error', 'Bỏ qua Story Bible', `${error.message} Tiếp tục tạo prompt không có Story Bible.`);
+                  }
+                  setBuildProgress('');
+              }
+          }
 
-          const results = await analyzeScriptWithAI(
-              scenario,
+          const results = cached ? { ...cached.value.results, usage: createEmptyRunUsage() } : await analyzeScriptWithAI(
+              scriptText,
               refImagesForService,
               effectiveKey,
               activeStylePrompt, 
               mode,
-              segmentationMode,
+              segmentation.mode,
               selectedModel,
-              targetSceneCount,
+              segmentation.targetSceneCount,
               promptType,
               aspectRatio,
               enableAspectRatio,
-              key4uKey
+              openAIConfig,
+              providerPriority,
+              {
+                  chunking: enableChunking,
+                  parallelChunks,
+                  localSegmentation,
+                  variantCount,
+                  subtitleCues,
+                  wordsPerMinute: segmentationMode === 'duration' ? narration.wordsPerMinute : undefined,
+                  targetGenerator: targetGenerators[promptType],
+                  negativePrompt: activeNegativePrompt,
+                  durationSeconds: videoDuration,
+                  promptTemplate: activePromptTemplate,
+                  onChunkProgress: (completed, total) => setBuildProgress(`phần ${completed}/${total}`),
+                  onScenes: (scenes) => {
+                      // Giữ storyboard cũ cho tới khi có cảnh đầu tiên
+                      if (scenes.length > 0 && !abortController.signal.aborted) setPrompts(scenes.map(mapScene));
+                  },
+                  signal: abortController.signal,
+                  keyPool,
+                  storyBible: bibleForRun
+              }
           );
           
-          const newPrompts = results.scenes.map((item: any, index: number) => ({
-              id: Date.now() + index,
-              phase: item.phase,
-              imagePrompt: item.imagePrompt, // might be undefined if promptType=video
-              videoPrompt: item.videoPrompt, // might be undefined if promptType=image
-              scriptLine: item.scriptLine
-          }));
+          // Run bị hủy: không lưu session
+          if (abortController.signal.aborted) throw createAbortError();
+          if (cacheKey && !cached) {
+              const { usage, ...analysis } = results;
+              // Ghi cache chạy nền: lỗi IndexedDB không được làm hỏng lượt tạo đã thành công
+              void putCachedResponse<CachedAnalysis>(cacheKey, { results: analysis, storyBible: bibleForRun }, `${scriptFileName || 'Manual Scenario'} · ${results.scenes.length} cảnh`, cacheSettings)
+                  .catch(error => console.error("Cache write failed:", error));
+          }
+          let newPrompts = results.scenes.map(mapScene);
+          let runUsage = bibleUsage ? mergeRunUsage(bibleUsage, results.usage) : results.usage;
+          if (pendingCleaningUsage) runUsage = mergeRunUsage(pendingCleaningUsage, runUsage);
+
+          // Video: tách các cảnh dài hơn giới hạn clip của công cụ đích thành nhiều clip nối tiếp
+          const videoDialect = resolveGenerator(targetGenerators.video, 'video');
+          if (promptType === 'video' && splitLongClips && newPrompts.some(p => needsClipSplit(p.shot?.durationSeconds || 0, videoDialect))) {
+              setPrompts(newPrompts);
+              setBuildProgress('tách clip');
+              const expansion = await expandLongVideoScenes(newPrompts, {
+                  styleLock: activeStylePrompt,
+                  referenceImages: refImagesForService,
+                  aspectRatio,
+                  enableAspectRatio,
+                  storyBible: bibleForRun,
+                  targetGenerator: videoDialect.id,
+                  negativePrompt: activeNegativePrompt,
+                  promptTemplate: activePromptTemplate
+              }, effectiveKey, selectedModel, openAIConfig, providerPriority, {
+                  signal: abortController.signal,
+                  keyPool,
+                  concurrency: parallelChunks ? 3 : 1
+              });
+              if (abortController.signal.aborted) throw createAbortError();
+              newPrompts = expansion.scenes;
+              runUsage = mergeRunUsage(runUsage, expansion.usage);
+              if (expansion.failed > 0) {
+                  addToast('info', 'Tách clip chưa xong', `${expansion.failed} cảnh dài chưa tách được clip. Dùng nút "✂ Tách clip" trên từng cảnh để thử lại.`);
+              }
+          }
           
           setPrompts(newPrompts);
-          saveSession(newPrompts, scriptFileName || "Manual Scenario"); // Auto-save to library
-          addToast('success', 'Thành công', `Đã tạo ${newPrompts.length} cảnh bằng ${results.provider} (${results.model}).`);
+          setSceneImages({});
+          setRepairReport(results.repairs);
+          setPendingCleaningUsage(null);
+          setSourceScript(scriptText);
+          saveSession(newPrompts, scriptFileName || "Manual Scenario", { script: scenario, usage: runUsage, storyBible: bibleForRun, promptTemplate: activePromptTemplate }); // Auto-save to library
+          const usageText = runUsage.requests > 0
+              ? ` ${formatTokens(runUsage.totalTokens)} token · ${formatCost(calculateCost(runUsage.entries, priceTable), findUnpricedModels(runUsage.entries, priceTable))}.`
+              : '';
+          addToast('success', 'Thành công', `Đã tạo ${newPrompts.length} cảnh bằng ${results.provider} (${results.model}).${usageText}`);
           
       } catch (error: any) {
-          addToast('error', 'Lỗi tạo nội dung', error.message);
+          // Khôi phục storyboard cũ nếu lần tạo mới thất bại hoặc bị hủy giữa chừng
+          setPrompts(previousPrompts);
+          if (isAbortError(error)) {
+              addToast('info', 'Đã hủy', 'Đã dừng tạo storyboard. Không có phiên nào được lưu.');
+          } else {
+              addToast('error', 'Lỗi tạo nội dung', error.message);
+          }
       } finally {
+          buildAbortRef.current = null;
           setIsBuilding(false);
+          setBuildProgress('');
+          setEstimatedSceneCount(0);
       }
   };
   
+  const fidelityReport = useMemo(() => {
+      if (isBuilding || !sourceScript || prompts.length === 0) return null;
+      return verifyFidelity(sourceScript, prompts);
+  }, [isBuilding, sourceScript, prompts]);
+
+  // Tổng thời lượng storyboard (theo thông số quay, đã tính ghi đè của người dùng)
+  const totalSceneSeconds = useMemo(
+      () => prompts.reduce((sum, p) => sum + resolveShotDetails(p.shot, p.shotOverrides).durationSeconds, 0),
+      [prompts]
+  );
+
+  const handleRepairFidelity = () => {
+      const repaired = repairFidelity<ScenePrompt>(sourceScript, prompts);
+      setPrompts(repaired);
+      updateCurrentSession(repaired);
+      addToast('success', 'Đã sửa nội dung', `Đã khôi phục văn bản gốc cho ${repaired.length} cảnh.`);
+  };
+
+  // Tạo lại / chỉnh sửa / đổi loại prompt cho một cảnh, gửi kèm 2 cảnh trước và sau làm ngữ cảnh
+  const handleSceneAction = async (sceneId: number, action: SceneRewriteAction, instruction?: string) => {
+      const index = prompts.findIndex(p => p.id === sceneId);
+      if (index === -1) return;
+      const scene = prompts[index];
+      const currentType: PromptType = scene.videoPrompt ? 'video' : 'image';
+      const targetType: PromptType = action === 'switch' ? (currentType === 'video' ? 'image' : 'video') : currentType;
+
+      setBusySceneIds(prev => [...prev, sceneId]);
+      try {
+          const { keyPool, effectiveKey } = createGeminiCredentials();
+          const { refImagesForService, activeStylePrompt, activeNegativePrompt } = resolveStyleContext();
+          const result = await rewriteScenePrompt({
+              action,
+              scene,
+              previousScenes: prompts.slice(Math.max(0, index - 2), index),
+              nextScenes: prompts.slice(index + 1, index + 3),
+              instruction,
+              styleLock: activeStylePrompt,
+              referenceImages: refImagesForService,
+              promptType: targetType,
+              aspectRatio,
+              enableAspectRatio,
+              storyBible: enableStoryBible && !isStoryBibleEmpty(storyBible) ? storyBible : undefined,
+              targetGenerator: targetGenerators[targetType],
+              negativePrompt: activeNegativePrompt,
+              durationSeconds: videoDuration,
+              promptTemplate: activePromptTemplate
+          }, effectiveKey, selectedModel, openAIConfig, providerPriority, { keyPool });
+
+          const replaceScene = (list: ScenePrompt[]) => list.map(p => p.id === sceneId ? {
+              ...p,
+              phase: result.phase || p.phase,
+              imagePrompt: targetType === 'image' ? result.prompt : undefined,
+              videoPrompt: targetType === 'video' ? result.prompt : undefined,
+              basePrompt: result.basePrompt,
+              negativePrompt: result.negativePrompt,
+              render: result.render,
+              shot: result.shot,
+              // Prompt mới thay thế toàn bộ các phương án cũ (và các clip đã tách từ prompt cũ)
+              promptVariants: undefined,
+              selectedVariant: undefined,
+              clips: undefined
+          } : p);
+          setPrompts(replaceScene);
+          updateCurrentSession(replaceScene, result.usage);
+          addToast('success', `Đã cập nhật cảnh ${index + 1}`, `${result.provider} (${result.model})`);
+      } catch (error: any) {
+          addToast('error', `Lỗi cảnh ${index + 1}`, error.message);
+      } finally {
+          setBusySceneIds(prev => prev.filter(id => id !== sceneId));
+      }
+  };
+
+  // Chọn (khóa) một phương án: ghi vào imagePrompt/videoPrompt để xuất Excel và các bước sau dùng phương án này
+  const handleSelectVariant = (sceneId: number, variantIndex: number) => {
+      const selectVariant = (list: ScenePrompt[]) => list.map(p => {
+          if (p.id !== sceneId || !p.promptVariants?.[variantIndex]) return p;
+          return { ...renderScene(p, p.promptVariants[variantIndex]), selectedVariant: variantIndex };
+      });
+      setPrompts(selectVariant);
+      updateCurrentSession(selectVariant);
+  };
+
+  // Định dạng lại toàn bộ storyboard cho công cụ khác: dùng prompt trung tính đã lưu, không phân cảnh / gọi AI lại
+  const handleRerenderDialect = (generator: TargetGenerator) => {
+      const dialect = GENERATOR_DIALECTS[generator];
+      const { activeStylePrompt, activeNegativePrompt } = resolveStyleContext();
+      const rerender = (list: ScenePrompt[]) => list.map(p => {
+          if (!!p.videoPrompt !== (dialect.promptType === 'video')) return p;
+          const basePrompt = p.basePrompt || stripParameters(p.videoPrompt || p.imagePrompt || '');
+          const render: PromptRenderSettings = {
+              generator,
+              styleLock: p.render?.styleLock ?? activeStylePrompt,
+              aspectRatio,
+              enableAspectRatio,
+              negativePrompt: activeNegativePrompt,
+              durationSeconds: clampDuration(dialect, videoDuration) || 0
+          };
+          const rendered = renderScene(p, basePrompt, render);
+          return p.clips ? { ...rendered, clips: rerenderClips(p.clips, render) } : rendered;
+      });
+      setTargetGenerators(prev => ({ ...prev, [dialect.promptType]: generator }));
+      setPrompts(rerender);
+      updateCurrentSession(rerender);
+      addToast('success', 'Đã định dạng lại', `Storyboard đã chuyển sang ${dialect.label}`);
+  };
+
+  // Tách (lại) một cảnh video dài thành các clip, theo thời lượng hiện tại của cảnh (đã tính ghi đè)
+  const handleSplitClips = async (sceneId: number) => {
+      const index = prompts.findIndex(p => p.id === sceneId);
+      if (index === -1) return;
+      const scene = prompts[index];
+
+      setBusySceneIds(prev => [...prev, sceneId]);
+      try {
+          const { keyPool, effectiveKey } = createGeminiCredentials();
+          const { refImagesForService, activeStylePrompt, activeNegativePrompt } = resolveStyleContext();
+          const result = await generateSceneClips({
+              scene,
+              durationSeconds: resolveShotDetails(scene.shot, scene.shotOverrides).durationSeconds,
+              previousScene: prompts[index - 1],
+              styleLock: scene.render?.styleLock ?? activeStylePrompt,
+              referenceImages: refImagesForService,
+              aspectRatio,
+              enableAspectRatio,
+              storyBible: enableStoryBible && !isStoryBibleEmpty(storyBible) ? storyBible : undefined,
+              targetGenerator: scene.render?.generator || targetGenerators.video,
+              negativePrompt: activeNegativePrompt,
+              promptTemplate: activePromptTemplate
+          }, effectiveKey, selectedModel, openAIConfig, providerPriority, { keyPool });
+
+          const replaceClips = (list: ScenePrompt[]) => list.map(p => p.id === sceneId ? { ...p, clips: result.clips } : p);
+          setPrompts(replaceClips);
+          updateCurrentSession(replaceClips, result.usage);
+          addToast('success', `Đã tách cảnh ${index + 1}`, `${result.clips.length} clip · ${result.provider} (${result.model})`);
+      } catch (error: any) {
+          addToast('error', `Lỗi cảnh ${index + 1}`, error.message);
+      } finally {
+          setBusySceneIds(prev => prev.filter(id => id !== sceneId));
+      }
+  };
+
+  // Ghi đè thông số quay của một cảnh (object rỗng = dùng lại toàn bộ giá trị AI)
+  const handleUpdateShot = (sceneId: number, overrides: Partial<ShotDetails>) => {
+      const updateShot = (list: ScenePrompt[]) => list.map(p => p.id === sceneId
+          ? { ...p, shotOverrides: Object.keys(overrides).length > 0 ? overrides : undefined }
+          : p);
+      setPrompts(updateShot);
+      updateCurrentSession(updateShot);
+  };
+
+  // Tạo ảnh cho các cảnh qua hàng đợi (song song có giới hạn + thử lại); ảnh tham chiếu được gửi kèm để giữ nhân vật nhất quán
+  const runImageGeneration = async (scenes: ScenePrompt[]) => {
+      const abortController = new AbortController();
+      imageAbortRef.current = abortController;
+      setIsGeneratingImages(true);
+      const updateImage = (id: number, changes: Partial<SceneImageState>) =>
+          setSceneImages(prev => ({ ...prev, [id]: { ...prev[id], ...changes } as SceneImageState }));
+      scenes.forEach(scene => updateImage(scene.id, { status: 'queued', error: undefined }));
+
+      try {
+          const { keyPool, effectiveKey } = createGeminiCredentials();
+          const { succeeded, failed } = await runImageQueue(
+              scenes.map(scene => ({ id: scene.id, prompt: scene.imagePrompt || '' })),
+              {
+                  aspectRatio: enableAspectRatio ? aspectRatio : undefined,
+                  referenceImages: referenceImages.map(img => ({ base64: img.base64, mimeType: img.mimeType })),
+                  signal: abortController.signal
+              },
+              imageSettings,
+              { apiKey: effectiveKey, keyPool },
+              {
+                  onStart: (id) => updateImage(id, { status: 'generating' }),
+                  onSuccess: (id, image) => updateImage(id, { status: 'done', image, error: undefined }),
+                  onError: (id, error) => updateImage(id, { status: 'error', error: error?.message || String(error) })
+              }
+          );
+          if (failed > 0) {
+              addToast('error', 'Tạo ảnh chưa xong', `${succeeded} ảnh thành công, ${failed} cảnh lỗi. Dùng "Tạo lại ảnh" trên từng cảnh để thử lại.`);
+          } else if (scenes.length > 1) {
+              addToast('success', 'Đã tạo ảnh', `${succeeded} ảnh.`);
+          }
+      } catch (error: any) {
+          if (isAbortError(error)) {
+              addToast('info', 'Đã dừng', 'Đã dừng tạo ảnh. Các ảnh đã tạo vẫn được giữ.');
+          } else {
+              addToast('error', 'Lỗi tạo ảnh', error.message);
+          }
+      } finally {
+          // Cảnh chưa tới lượt (bị dừng) => bỏ trạng thái chờ, giữ ảnh cũ nếu có
+          setSceneImages(prev => {
+              const settled: Record<number, SceneImageState> = {};
+              Object.keys(prev).map(Number).forEach(id => {
+                  const state = prev[id];
+                  if (state.status !== 'queued' && state.status !== 'generating') settled[id] = state;
+                  else if (state.image) settled[id] = { ...state, status: 'done' };
+              });
+              return settled;
+          });
+          imageAbortRef.current = null;
+          setIsGeneratingImages(false);
+      }
+  };
+
+  // Chỉ các cảnh chưa có ảnh (chạy lại sau khi dừng / lỗi sẽ tiếp tục phần còn thiếu)
+  const handleGenerateImages = () => {
+      const pending = prompts.filter(p => p.imagePrompt && sceneImages[p.id]?.status !== 'done');
+      if (pending.length === 0) return;
+      runImageGeneration(pending);
+  };
+
+  const handleCancelImages = () => {
+      imageAbortRef.current?.abort();
+  };
+
+  const handleGenerateSceneImage = (sceneId: number) => {
+      const scene = prompts.find(p => p.id === sceneId);
+      if (scene?.imagePrompt) runImageGeneration([scene]);
+  };
+
+  const handleDownloadImagesZip = async () => {
+      const images = prompts
+          .map((p, index) => ({ sceneNumber: index + 1, image: sceneImages[p.id]?.image }))
+          .filter((entry): entry is { sceneNumber: number; image: GeneratedImage } => !!entry.image);
+      if (images.length === 0) return;
+      try {
+          const blob = await buildImagesZip(images);
+          const url = URL.createObjectURL(blob);
+          const a = document.createElement('a');
+          a.href = url;
+          a.download = `images_${getTimestamp()}.zip`;
+          a.click();
+          URL.revokeObjectURL(url);
+      } catch (error: any) {
+          addToast('error', 'Lỗi tạo file ZIP', error.message);
+      }
+  };
+
   const handleDownloadExcel = () => {
-      exportToExcel(prompts);
+      exportToExcel(prompts, 'storyboard', exportAlternatives);
   };
 
   const handleDownloadTxt = () => {
@@ -1275,6 +4134,20 @@ const App: FC = () => {
       URL.revokeObjectURL(url);
   };
 
+  // Xuất storyboard thành phụ đề SRT (mỗi cảnh một cue) để đồng bộ hình ảnh với audio gốc
+  const handleDownloadSrt = () => {
+      const timed = prompts.filter(p => p.startTime !== undefined && p.endTime !== undefined);
+      if (timed.length === 0) return;
+      const content = buildSubtitleFile(timed.map(p => ({ start: p.startTime!, end: p.endTime!, text: p.scriptLine })));
+      const blob = new Blob([content], { type: 'text/plain' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `scenes_${getTimestamp()}.srt`;
+      a.click();
+      URL.revokeObjectURL(url);
+  };
+
   return (
     <div className="min-h-screen bg-slate-950 text-slate-200 font-sans selection:bg-emerald-500/30">
         <ToastContainer toasts={toasts} onClose={removeToast} />
@@ -1287,8 +4160,17 @@ const App: FC = () => {
             setApiKeys={setApiKeys}
             selectedModel={selectedModel}
             setSelectedModel={setSelectedModel}
-            key4uKey={key4uKey}
-            setKey4uKey={setKey4uKey}
+            openAIConfig={openAIConfig}
+            setOpenAIConfig={setOpenAIConfig}
+            providerPriority={providerPriority}
+            setProviderPriority={setProviderPriority}
+            keyRotationPolicy={keyRotationPolicy}
+            setKeyRotationPolicy={setKeyRotationPolicy}
+            sessions={savedSessions}
+            priceTable={priceTable}
+            setPriceTable={handleSavePriceTable}
+            cacheSettings={cacheSettings}
+            setCacheSettings={handleSaveCacheSettings}
         />
         
         <LibraryModal 
@@ -1297,12 +4179,46 @@ const App: FC = () => {
             sessions={savedSessions}
             onDelete={handleDeleteSession}
             onDownload={handleDownloadSession}
+            onUseTemplate={handleUseSessionTemplate}
+            priceTable={priceTable}
+            setPriceTable={handleSavePriceTable}
         />
 
         <GuideModal 
             isOpen={showGuideModal}
             onClose={() => setShowGuideModal(false)}
         />
+        {showStyleModal && (
+            <StylePresetModal
+                presets={stylePresets}
+                setPresets={handleSaveStylePresets}
+                selectedId={selectedStyleId}
+                onSelect={setSelectedStyleId}
+                onImport={handleImportStylePresets}
+                onExport={handleExportStylePresets}
+                onClose={() => setShowStyleModal(false)}
+            />
+        )}
+        {showTemplateModal && (
+            <PromptTemplateModal
+                templates={promptTemplates}
+                setTemplates={handleSavePromptTemplates}
+                selectedId={selectedTemplateId}
+                onSelect={handleSelectPromptTemplate}
+                previewSettings={buildTemplatePreviewSettings()}
+                onClose={() => setShowTemplateModal(false)}
+            />
+        )}
+        {showCleaningModal && (
+            <ScriptCleaningModal
+                script={scenario}
+                settings={cleanerSettings}
+                setSettings={handleSaveCleanerSettings}
+                onRunAI={handleCleanScriptWithAI}
+                onApply={handleApplyCleanedScript}
+                onClose={() => setShowCleaningModal(false)}
+            />
+        )}
 
         <header className="bg-slate-900/80 backdrop-blur border-b border-slate-800 sticky top-0 z-40">
             <div className="max-w-7xl mx-auto px-6 h-16 flex items-center justify-between">
@@ -1352,10 +4268,14 @@ const App: FC = () => {
                         onImageUpload={handleImageUpload}
                         onScriptUpload={handleScriptUpload}
                         onBuildPrompts={handleBuildPrompts}
+                        onCancelBuild={handleCancelBuild}
                         isBuilding={isBuilding}
+                        onCleanScript={() => setShowCleaningModal(true)}
                         scriptFileName={scriptFileName}
                         segmentationMode={segmentationMode}
                         setSegmentationMode={setSegmentationMode}
+                        narration={narration}
+                        setNarration={setNarration}
                         hasPrompts={prompts.length > 0}
                         targetSceneCount={targetSceneCount}
                         setTargetSceneCount={setTargetSceneCount}
@@ -1363,11 +4283,48 @@ const App: FC = () => {
                         setPromptType={setPromptType}
                         selectedStyleId={selectedStyleId}
                         setSelectedStyleId={setSelectedStyleId}
+                        stylePresets={stylePresets}
+                        onManageStyles={() => setShowStyleModal(true)}
+                        promptTemplates={promptTemplates}
+                        selectedTemplateId={selectedTemplateId}
+                        setSelectedTemplateId={handleSelectPromptTemplate}
+                        onManageTemplates={() => setShowTemplateModal(true)}
                         aspectRatio={aspectRatio}
                         setAspectRatio={setAspectRatio}
                         enableAspectRatio={enableAspectRatio}
                         setEnableAspectRatio={setEnableAspectRatio}
                         selectedModel={selectedModel}
+                        enableChunking={enableChunking}
+                        setEnableChunking={setEnableChunking}
+                        parallelChunks={parallelChunks}
+                        setParallelChunks={setParallelChunks}
+                        localSegmentation={localSegmentation}
+                        variantCount={variantCount}
+                        setVariantCount={setVariantCount}
+                        targetGenerator={targetGenerators[promptType]}
+                        setTargetGenerator={(generator) => setTargetGenerators(prev => ({ ...prev, [promptType]: generator }))}
+                        negativePrompt={negativePrompt}
+                        setNegativePrompt={setNegativePrompt}
+                        videoDuration={videoDuration}
+                        setVideoDuration={setVideoDuration}
+                        splitLongClips={splitLongClips}
+                        setSplitLongClips={setSplitLongClips}
+                        cacheEnabled={cacheSettings.enabled}
+                        forceFreshRun={forceFreshRun}
+                        setForceFreshRun={setForceFreshRun}
+                        setLocalSegmentation={setLocalSegmentation}
+                        buildProgress={buildProgress}
+                    />
+                    <StoryBiblePanel
+                        bible={storyBible}
+                        setBible={handleEditStoryBible}
+                        enabled={enableStoryBible}
+                        setEnabled={setEnableStoryBible}
+                        locked={storyBibleLocked}
+                        setLocked={setStoryBibleLocked}
+                        onExtract={handleExtractStoryBible}
+                        isExtracting={isExtractingBible}
+                        canExtract={scenario.trim() !== '' && !isBuilding}
                     />
                 </div>
 
@@ -1379,9 +4336,52 @@ const App: FC = () => {
                             <div className="flex items-center justify-between bg-slate-900/50 p-4 rounded-xl border border-slate-800">
                                 <h2 className="text-xl font-bold text-white flex items-center gap-2">
                                     <SparklesIcon className="h-5 w-5 text-emerald-400" />
-                                    Storyboard đã tạo ({prompts.length} cảnh)
+                                    {isBuilding ? (
+                                        <span className="flex items-center gap-2">
+                                            <SpinnerIcon className="animate-spin h-4 w-4 text-emerald-400" />
+                                            Đang tạo cảnh {prompts.length} / ~{Math.max(estimatedSceneCount, prompts.length)}
+                                        </span>
+                                    ) : (
+                                        <>Storyboard đã tạo ({prompts.length} cảnh)</>
+                                    )}
+                                    {!isBuilding && totalSceneSeconds > 0 && (
+                                        <span className="text-xs font-medium text-slate-400 bg-slate-800 px-2 py-1 rounded-lg border border-slate-700" title="Tổng thời lượng ước tính của các cảnh">
+                                            ⏱ {formatDuration(totalSceneSeconds)} · {(totalSceneSeconds / prompts.length).toFixed(1)}s/cảnh
+                                        </span>
+                                    )}
                                 </h2>
                                 <div className="flex items-center gap-3">
+                                    {!isBuilding && (
+                                        <select
+                                            value={resolveGenerator(prompts[0].render?.generator, prompts[0].videoPrompt ? 'video' : 'image').id}
+                                            onChange={(e) => handleRerenderDialect(e.target.value as TargetGenerator)}
+                                            className="bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded-lg p-2 focus:ring-1 focus:ring-emerald-500 outline-none"
+                                            title="Định dạng lại prompt cho công cụ khác (không phân cảnh lại)"
+                                        >
+                                            {getDialectsForType(prompts[0].videoPrompt ? 'video' : 'image').map(d => (
+                                                <option key={d.id} value={d.id}>Định dạng: {d.label}</option>
+                                            ))}
+                                        </select>
+                                    )}
+                                    {prompts.some(p => (p.promptVariants?.length || 0) > 1) && (
+                                        <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer" title="Thêm cột liệt kê các phương án prompt không được chọn">
+                                            <input
+                                                type="checkbox"
+                                                checked={exportAlternatives}
+                                                onChange={(e) => setExportAlternatives(e.target.checked)}
+                                                className="w-4 h-4 text-emerald-500 bg-slate-800 border-slate-600 rounded focus:ring-emerald-500 focus:ring-2"
+                                            />
+                                            Kèm phương án khác
+                                        </label>
+                                    )}
+                                    {prompts.some(p => p.startTime !== undefined) && (
+                                        <button
+                                            onClick={handleDownloadSrt}
+                                            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg font-medium text-sm transition-colors flex items-center gap-2 border border-slate-600"
+                                        >
+                                            <ClockIcon className="h-4 w-4" /> Xuất SRT
+                                        </button>
+                                    )}
                                     <button 
                                         onClick={handleDownloadTxt}
                                         className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg font-medium text-sm transition-colors flex items-center gap-2 border border-slate-600"
@@ -1397,27 +4397,55 @@ const App: FC = () => {
                                 </div>
                             </div>
                             
+                            {!isBuilding && prompts.some(p => p.imagePrompt) && (
+                                <ImageGenerationBar
+                                    settings={imageSettings}
+                                    setSettings={handleSaveImageSettings}
+                                    isGenerating={isGeneratingImages}
+                                    doneCount={prompts.filter(p => p.imagePrompt && sceneImages[p.id]?.image).length}
+                                    totalCount={prompts.filter(p => p.imagePrompt).length}
+                                    referenceCount={referenceImages.length}
+                                    onGenerate={handleGenerateImages}
+                                    onCancel={handleCancelImages}
+                                    onDownloadZip={handleDownloadImagesZip}
+                                />
+                            )}
+
+                            {repairReport.length > 0 && !isBuilding && (
+                                <ResponseRepairPanel entries={repairReport} onDismiss={() => setRepairReport([])} />
+                            )}
+
+                            {fidelityReport && (
+                                <FidelityPanel report={fidelityReport} onRepair={handleRepairFidelity} />
+                            )}
+
+                            {isBuilding && estimatedSceneCount > 0 && (
+                                <div className="h-1.5 w-full bg-slate-800 rounded-full overflow-hidden">
+                                    <div
+                                        className="h-full bg-emerald-500 transition-all duration-300"
+                                        style={{ width: `${Math.min(100, (prompts.length / estimatedSceneCount) * 100)}%` }}
+                                    />
+                                </div>
+                            )}
+
                             <div className="space-y-4">
                                 {prompts.map((scene, idx) => (
-                                    <div key={scene.id} className="bg-slate-900 border border-slate-800 rounded-xl p-5 hover:border-emerald-500/30 transition-all shadow-sm">
-                                        <div className="flex justify-between items-start mb-3">
-                                            <span className="bg-slate-800 text-slate-400 text-xs font-bold px-2 py-1 rounded uppercase tracking-wider">Cảnh {idx + 1}</span>
-                                            <span className="text-xs font-mono text-emerald-400">{scene.phase}</span>
-                                        </div>
-                                        <div className="mb-4">
-                                            <p className="text-slate-300 italic font-medium border-l-2 border-emerald-500/50 pl-3 py-1">"{scene.scriptLine}"</p>
-                                        </div>
-                                        <div className="grid grid-cols-1 gap-4 text-sm">
-                                            <div className="bg-slate-950/50 p-3 rounded-lg border border-slate-800/50">
-                                                <p className="text-xs text-slate-500 font-bold mb-1 uppercase">
-                                                    {scene.videoPrompt ? "Mô tả Video (Veo/Sora)" : "Mô tả Hình ảnh"}
-                                                </p>
-                                                <p className="text-slate-300 leading-relaxed text-xs">
-                                                    {scene.videoPrompt || scene.imagePrompt}
-                                                </p>
-                                            </div>
-                                        </div>
-                                    </div>
+                                    <SceneCard
+                                        key={scene.id}
+                                        scene={scene}
+                                        index={idx}
+                                        isBusy={busySceneIds.includes(scene.id)}
+                                        disabled={isBuilding}
+                                        onRegenerate={() => handleSceneAction(scene.id, 'regenerate')}
+                                        onRefine={(instruction) => handleSceneAction(scene.id, 'refine', instruction)}
+                                        onSwitchType={() => handleSceneAction(scene.id, 'switch')}
+                                        onSelectVariant={(variantIndex) => handleSelectVariant(scene.id, variantIndex)}
+                                        onUpdateShot={(overrides) => handleUpdateShot(scene.id, overrides)}
+                                        onSplitClips={() => handleSplitClips(scene.id)}
+                                        image={sceneImages[scene.id]}
+                                        imageDisabled={isBuilding || isGeneratingImages}
+                                        onGenerateImage={() => handleGenerateSceneImage(scene.id)}
+                                    />
                                 ))}
                             </div>
                         </div>
@@ -0,0 +1,159 @@
+// --- CHUNKING PIPELINE CHO KỊCH BẢN DÀI ---
+// Các chunk luôn ghép lại (join('')) đúng bằng kịch bản gốc, không mất ký tự nào.
+
+import { throwIfAborted } from "./providers";
+
+export const DEFAULT_CHUNK_CHARS = 6000;
+
+// Tách văn bản, giữ phần khoảng trắng phân cách dính vào đoạn phía trước
+const splitKeepingSeparators = (text: string, separator: RegExp): string[] => {
+    const pieces: string[] = [];
+    let lastIndex = 0;
+    const regex = new RegExp(separator.source, separator.flags.includes('g') ? separator.flags : separator.flags + 'g');
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+        if (match[0].length === 0) {
+            regex.lastIndex++;
+            continue;
+        }
+        const end = match.index + match[0].length;
+        pieces.push(text.substring(lastIndex, end));
+        lastIndex = end;
+    }
+    if (lastIndex < text.length) pieces.push(text.substring(lastIndex));
+    return pieces.filter(p => p !== '');
+};
+
+const splitParagraphs = (text: string) => splitKeepingSeparators(text, /\n\s*\n/);
+
+// Dấu kết câu (., ?, !, …, 。) kèm dấu ngoặc/nháy đóng, theo sau là khoảng trắng
+const splitSentences = (text: string) => splitKeepingSeparators(text, /[.!?…。]+["'”’»)\]]*\s+/);
+
+// Cắt cứng tại khoảng trắng khi một câu dài hơn giới hạn
+const splitAtWhitespace = (text: string, maxChars: number): string[] => {
+    const pieces: string[] = [];
+    let rest = text;
+    while (rest.length > maxChars) {
+        let cut = rest.lastIndexOf(' ', maxChars);
+        if (cut <= 0) cut = maxChars;
+        pieces.push(rest.substring(0, cut + 1));
+        rest = rest.substring(cut + 1);
+    }
+    if (rest) pieces.push(rest);
+    return pieces;
+};
+
+const packPieces = (pieces: string[], maxChars: number): string[] => {
+    const chunks: string[] = [];
+    let current = '';
+    pieces.forEach(piece => {
+        if (current && current.length + piece.length > maxChars) {
+            chunks.push(current);
+            current = '';
+        }
+        current += piece;
+    });
+    if (current) chunks.push(current);
+    return chunks;
+};
+
+const chunkOnce = (script: string, maxChars: number): string[] => {
+    const units: string[] = [];
+    splitParagraphs(script).forEach(paragraph => {
+        if (paragraph.length <= maxChars) {
+            units.push(paragraph);
+            return;
+        }
+        splitSentences(paragraph).forEach(sentence => {
+            if (sentence.length <= maxChars) {
+                units.push(sentence);
+            } else {
+                units.push(...splitAtWhitespace(sentence, maxChars));
+            }
+        });
+    });
+    return packPieces(units, maxChars);
+};
+
+// Chia kịch bản thành các chunk ưu tiên ranh giới đoạn văn, sau đó tới ranh giới câu.
+// `maxChunks` giới hạn số chunk (ví dụ: không vượt quá số cảnh mục tiêu).
+export const splitScriptIntoChunks = (script: string, maxChars: number = DEFAULT_CHUNK_CHARS, maxChunks?: number): string[] => {
+    if (!script) return [];
+    let size = Math.max(200, maxChars);
+    let chunks = chunkOnce(script, size);
+    while (maxChunks && maxChunks > 0 && chunks.length > maxChunks) {
+        size = Math.ceil(size * 1.25);
+        chunks = chunkOnce(script, size);
+    }
+    return chunks;
+};
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+// Chia số cảnh mục tiêu theo tỷ lệ số từ của từng chunk (phương pháp phần dư lớn nhất)
+export const distributeSceneCount = (chunks: string[], targetSceneCount: number): number[] => {
+    if (chunks.length === 0) return [];
+    const weights = chunks.map(chunk => Math.max(1, countWords(chunk)));
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    const minPerChunk = targetSceneCount >= chunks.length ? 1 : 0;
+    const distributable = targetSceneCount - minPerChunk * chunks.length;
+
+    const exact = weights.map(w => (w / totalWeight) * distributable);
+    const counts = exact.map(value => Math.floor(value) + minPerChunk);
+    let remaining = targetSceneCount - counts.reduce((sum, c) => sum + c, 0);
+
+    exact
+        .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+        .sort((a, b) => b.remainder - a.remainder)
+        .forEach(({ index }) => {
+            if (remaining > 0) {
+                counts[index]++;
+                remaining--;
+            }
+        });
+
+    return counts;
+};
+
+// Phần cuối của chunk trước, giúp model nối mạch nội dung
+export const getTailExcerpt = (text: string, maxChars: number = 400): string => {
+    if (text.length <= maxChars) return text.trim();
+    const tail = text.substring(text.length - maxChars);
+    const firstSpace = tail.indexOf(' ');
+    return '...' + (firstSpace > 0 ? tail.substring(firstSpace + 1) : tail).trim();
+};
+
+// Chạy các tác vụ với số lượng song song giới hạn, giữ nguyên thứ tự kết quả.
+// Khi một tác vụ lỗi (hoặc `signal` bị hủy), `signal` truyền cho worker bị hủy để dừng các tác vụ đang chạy;
+// chờ mọi worker kết thúc rồi mới ném lỗi đầu tiên.
+export const runWithConcurrency = async <T, R>(
+    items: T[],
+    limit: number,
+    worker: (item: T, index: number, signal: AbortSignal) => Promise<R>,
+    signal?: AbortSignal
+): Promise<R[]> => {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    if (signal?.aborted) controller.abort();
+    else signal?.addEventListener('abort', onAbort, { once: true });
+
+    const results: R[] = new Array(items.length);
+    let nextIndex = 0;
+    let firstError: any = null;
+    const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+        while (!controller.signal.aborted && nextIndex < items.length) {
+            const index = nextIndex++;
+            try {
+                results[index] = await worker(items[index], index, controller.signal);
+            } catch (error) {
+                if (!firstError) firstError = error;
+                controller.abort();
+            }
+        }
+    });
+    await Promise.all(runners);
+    signal?.removeEventListener('abort', onAbort);
+    if (firstError) throw firstError;
+    throwIfAborted(signal);
+    return results;
+};
@@ -0,0 +1,42 @@
+// --- VIDEO CLIPS ---
+// Công cụ video chỉ tạo được clip ngắn (VD: Veo tối đa 8 giây). Cảnh dài hơn giới hạn được tách thành nhiều clip
+// liên tiếp: mỗi clip là một chuyển động liền mạch, bắt đầu từ trạng thái cuối (endState) của clip trước.
+
+import { GeneratorDialect, PromptRenderSettings, RenderedPrompt, renderPrompt } from "./dialects";
+
+export interface VideoClip {
+    durationSeconds: number;
+    basePrompt: string;         // Mô tả trung tính (chưa định dạng cho công cụ đích)
+    prompt: string;             // Đã render cho công cụ đích, kèm thời lượng của clip
+    negativePrompt?: string;
+    endState: string;           // Khung hình cuối của clip, clip sau nối tiếp từ đây
+}
+
+// Giới hạn thời lượng một clip (undefined = công cụ ảnh / không giới hạn)
+export const getClipLimit = (dialect: GeneratorDialect): number | undefined => dialect.duration?.max;
+
+export const needsClipSplit = (durationSeconds: number, dialect: GeneratorDialect): boolean => {
+    const limit = getClipLimit(dialect);
+    return !!limit && durationSeconds > limit;
+};
+
+// Chia tổng thời lượng thành ít clip nhất có thể, các clip dài gần bằng nhau (giây nguyên, clip đầu dài hơn).
+// Trả về [] nếu cảnh vừa một clip.
+export const planClipDurations = (totalSeconds: number, dialect: GeneratorDialect): number[] => {
+    if (!dialect.duration || !needsClipSplit(totalSeconds, dialect)) return [];
+    const { min, max } = dialect.duration;
+    const count = Math.ceil(totalSeconds / max);
+    const total = Math.max(count * min, Math.round(totalSeconds));
+    const base = Math.floor(total / count);
+    return Array.from({ length: count }, (_, i) => Math.max(min, Math.min(max, base + (i < total % count ? 1 : 0))));
+};
+
+export const renderClip = (basePrompt: string, render: PromptRenderSettings, durationSeconds: number): RenderedPrompt =>
+    renderPrompt(basePrompt, { ...render, durationSeconds });
+
+// Định dạng lại các clip cho công cụ khác (giữ thời lượng đã chia, công cụ mới có thể kẹp lại trong giới hạn của nó)
+export const rerenderClips = (clips: VideoClip[], render: PromptRenderSettings): VideoClip[] =>
+    clips.map(clip => {
+        const rendered = renderClip(clip.basePrompt, render, clip.durationSeconds);
+        return { ...clip, prompt: rendered.prompt, negativePrompt: rendered.negativePrompt };
+    });
@@ -0,0 +1,227 @@
+// --- TARGET GENERATOR DIALECTS ---
+// AI chỉ viết mô tả trung tính (basePrompt). Lớp adapter này định dạng mô tả đó cho từng công cụ tạo ảnh/video:
+// cú pháp tham số, negative prompt, trọng số, độ dài tối đa và giới hạn thời lượng. Đổi công cụ => chỉ cần render lại.
+
+import { splitStoryBibleText } from "./storyBible";
+
+export type TargetGenerator = 'nano_banana' | 'imagen' | 'midjourney' | 'flux' | 'sdxl' | 'veo' | 'sora' | 'kling';
+
+export interface GeneratorDialect {
+    id: TargetGenerator;
+    label: string;
+    promptType: 'image' | 'video';
+    maxLength: number;                                          // Số ký tự tối đa của phần mô tả (không tính tham số)
+    negativePrompt: 'parameter' | 'separate' | 'inline' | 'none'; // --no ... / ô riêng / "Avoid: ..." / không hỗ trợ
+    weighting: 'double_colon' | 'parentheses' | 'none';         // style::1.5 / (style:1.2)
+    aspectRatio: 'parameter' | 'phrase' | 'none';               // --ar 16:9 / "16:9 aspect ratio." / đặt trong công cụ
+    duration?: { min: number; max: number; default: number };  // Giây (chỉ với video)
+    extraParameters?: string;                                   // Tham số cố định thêm vào cuối (VD: --v 7)
+    guidance: string[];                                         // Hướng dẫn văn phong cho AI khi viết mô tả
+}
+
+export interface PromptRenderSettings {
+    generator: TargetGenerator;
+    styleLock: string;
+    aspectRatio: string;
+    enableAspectRatio: boolean;
+    negativePrompt: string;
+    durationSeconds: number;
+}
+
+export interface RenderedPrompt {
+    prompt: string;
+    negativePrompt?: string;    // Chỉ có với công cụ nhận negative prompt ở ô riêng
+}
+
+export const GENERATOR_DIALECTS: Record<TargetGenerator, GeneratorDialect> = {
+    nano_banana: {
+        id: 'nano_banana',
+        label: 'Nano Banana (Gemini Image)',
+        promptType: 'image',
+        maxLength: 2000,
+        negativePrompt: 'inline',
+        weighting: 'none',
+        aspectRatio: 'phrase',
+        guidance: [
+            'Use natural, descriptive English sentences only.',
+            'Focus on soft lighting, rich textures, and a clean composition (the model has high adherence to the prompt).',
+        ],
+    },
+    imagen: {
+        id: 'imagen',
+        label: 'Google Imagen 4',
+        promptType: 'image',
+        maxLength: 1800,
+        negativePrompt: 'separate',
+        weighting: 'none',
+        aspectRatio: 'phrase',
+        guidance: [
+            'Use natural, descriptive English sentences only.',
+            'Use photographic vocabulary where it fits: shot type, lens, lighting setup, film stock or rendering style.',
+        ],
+    },
+    midjourney: {
+        id: 'midjourney',
+        label: 'Midjourney v7',
+        promptType: 'image',
+        maxLength: 1500,
+        negativePrompt: 'parameter',
+        weighting: 'double_colon',
+        aspectRatio: 'parameter',
+        extraParameters: '--v 7',
+        guidance: [
+            'Write concise, comma-separated visual phrases, most important subject first.',
+            'Prefer concrete nouns and adjectives (medium, lighting, color palette, lens) over long sentences.',
+        ],
+    },
+    flux: {
+        id: 'flux',
+        label: 'Flux.1',
+        promptType: 'image',
+        maxLength: 2000,
+        negativePrompt: 'none',
+        weighting: 'none',
+        aspectRatio: 'phrase',
+        guidance: [
+            'Use flowing natural-language sentences; describe foreground, midground and background in order.',
+            'Describe what SHOULD be in the image only: the model does not understand negations.',
+        ],
+    },
+    sdxl: {
+        id: 'sdxl',
+        label: 'Stable Diffusion XL',
+        promptType: 'image',
+        maxLength: 380,
+        negativePrompt: 'separate',
+        weighting: 'parentheses',
+        aspectRatio: 'none',
+        guidance: [
+            'Write comma-separated keyword tags, most important first, under 60 words in total (the text encoder only reads ~77 tokens).',
+            'Include subject, action, setting, lighting, camera and quality tags (e.g., "highly detailed", "sharp focus").',
+        ],
+    },
+    veo: {
+        id: 'veo',
+        label: 'Google Veo 3',
+        promptType: 'video',
+        maxLength: 3000,
+        negativePrompt: 'separate',
+        weighting: 'none',
+        aspectRatio: 'phrase',
+        duration: { min: 4, max: 8, default: 8 },
+        guidance: [
+            'Describe the shot as one continuous clip: subject, action, camera movement, setting and ambience in natural sentences.',
+        ],
+    },
+    sora: {
+        id: 'sora',
+        label: 'OpenAI Sora',
+        promptType: 'video',
+        maxLength: 3000,
+        negativePrompt: 'inline',
+        weighting: 'none',
+        aspectRatio: 'phrase',
+        duration: { min: 5, max: 20, default: 10 },
+        guidance: [
+            'Write like a film director\'s shot description: camera, lens, subject action beat by beat, lighting and mood.',
+        ],
+    },
+    kling: {
+        id: 'kling',
+        label: 'Kling AI',
+        promptType: 'video',
+        maxLength: 2500,
+        negativePrompt: 'separate',
+        weighting: 'none',
+        aspectRatio: 'phrase',
+        duration: { min: 5, max: 10, default: 5 },
+        guidance: [
+            'Structure the prompt as: subject + subject movement + scene + camera language + lighting + atmosphere.',
+            'Keep to ONE main motion per clip; avoid complex multi-step choreography.',
+        ],
+    },
+};
+
+export const DEFAULT_GENERATORS: Record<'image' | 'video', TargetGenerator> = { image: 'nano_banana', video: 'veo' };
+
+// Gợi ý cho ô negative prompt (người dùng tự chọn điền), không tự thêm vào prompt
+export const DEFAULT_NEGATIVE_PROMPT = 'blurry, low quality, distorted anatomy, extra fingers, text, watermark';
+
+export const getDialectsForType = (promptType: 'image' | 'video'): GeneratorDialect[] =>
+    Object.values(GENERATOR_DIALECTS).filter(d => d.promptType === promptType);
+
+// Công cụ không khớp loại prompt (VD: đổi từ ảnh sang video) => dùng công cụ mặc định của loại đó
+export const resolveGenerator = (generator: TargetGenerator | undefined, promptType: 'image' | 'video'): GeneratorDialect => {
+    const dialect = generator ? GENERATOR_DIALECTS[generator] : undefined;
+    return dialect && dialect.promptType === promptType ? dialect : GENERATOR_DIALECTS[DEFAULT_GENERATORS[promptType]];
+};
+
+export const clampDuration = (dialect: GeneratorDialect, seconds?: number): number | undefined => {
+    if (!dialect.duration) return undefined;
+    if (!seconds || !isFinite(seconds)) return dialect.duration.default;
+    return Math.max(dialect.duration.min, Math.min(dialect.duration.max, Math.round(seconds)));
+};
+
+const ASPECT_RATIO_NAMES: Record<string, string> = { '16:9': 'widescreen', '9:16': 'vertical', '1:1': 'square' };
+
+// Bỏ tham số kiểu Midjourney ở cuối prompt (prompt cũ đã có --ar, --v...)
+export const stripParameters = (prompt: string): string =>
+    prompt.replace(/(\s+--[a-z]+(\s+[^\s-][^\s]*)?)+\s*$/i, '').trim();
+
+// Cắt mô tả quá dài tại dấu câu gần nhất (tối thiểu 60% độ dài cho phép), sau đó mới tới khoảng trắng
+const truncate = (text: string, maxLength: number): string => {
+    if (text.length <= maxLength) return text;
+    const head = text.substring(0, maxLength);
+    const minimum = Math.floor(maxLength * 0.6);
+    const punctuation = Math.max(head.lastIndexOf('. '), head.lastIndexOf(', '), head.lastIndexOf('; '));
+    const cut = punctuation >= minimum ? punctuation + 1 : Math.max(head.lastIndexOf(' '), minimum);
+    return head.substring(0, cut).replace(/[\s,;:]+$/, '').trim();
+};
+
+// Nhấn mạnh phần style lock ở đầu prompt theo cú pháp trọng số của công cụ
+const applyWeighting = (text: string, styleLock: string, dialect: GeneratorDialect): string => {
+    const style = styleLock.trim();
+    if (dialect.weighting === 'none' || !style || !text.startsWith(style)) return text;
+    const rest = text.substring(style.length).replace(/^[\s,.]+/, '');
+    const term = style.replace(/[\s.,;:]+$/, '');
+    if (dialect.weighting === 'parentheses') return rest ? `(${term}:1.2), ${rest}` : `(${term}:1.2)`;
+    return rest ? `${term}::1.5 ${rest}::1` : term;
+};
+
+const endSentence = (text: string) => (/[.!?]$/.test(text) ? text : `${text}.`);
+
+export const renderPrompt = (basePrompt: string, settings: PromptRenderSettings): RenderedPrompt => {
+    const dialect = GENERATOR_DIALECTS[settings.generator] || GENERATOR_DIALECTS[DEFAULT_GENERATORS.image];
+    const negative = settings.negativePrompt.trim();
+
+    // Các câu bổ sung ở cuối mô tả (ngôn ngữ tự nhiên)
+    const sentences: string[] = [];
+    if (settings.enableAspectRatio && dialect.aspectRatio === 'phrase') {
+        const name = ASPECT_RATIO_NAMES[settings.aspectRatio];
+        sentences.push(`${settings.aspectRatio}${name ? ` ${name}` : ''} aspect ratio.`);
+    }
+    const duration = clampDuration(dialect, settings.durationSeconds);
+    if (duration) sentences.push(`Duration: ${duration} seconds.`);
+    if (negative && dialect.negativePrompt === 'inline') sentences.push(`Avoid: ${negative}.`);
+
+    // Tham số ở cuối prompt
+    const parameters: string[] = [];
+    if (settings.enableAspectRatio && dialect.aspectRatio === 'parameter') parameters.push(`--ar ${settings.aspectRatio}`);
+    if (negative && dialect.negativePrompt === 'parameter') parameters.push(`--no ${negative}`);
+    if (dialect.extraParameters) parameters.push(dialect.extraParameters);
+
+    // Mô tả Story Bible ở cuối được giữ nguyên, chỉ phần mô tả cảnh bị cắt khi vượt độ dài tối đa
+    const suffix = sentences.join(' ');
+    const { description, bibleText } = splitStoryBibleText(stripParameters(basePrompt));
+    const reserved = (suffix ? suffix.length + 1 : 0) + (bibleText ? bibleText.length + 1 : 0);
+    const body = truncate(description, Math.max(50, dialect.maxLength - reserved));
+    // Trọng số chỉ áp cho mô tả cảnh; Story Bible là đoạn riêng không trọng số (VD: "style::1.5 mô tả::1 Characters: ...")
+    const weighted = applyWeighting(body, settings.styleLock, dialect);
+    const described = bibleText ? `${/::[\d.]+$/.test(weighted) ? weighted : endSentence(weighted)} ${bibleText}` : weighted;
+    const text = suffix ? `${endSentence(described)} ${suffix}` : described;
+
+    return {
+        prompt: parameters.length > 0 ? `${text} ${parameters.join(' ')}` : text,
+        ...(negative && dialect.negativePrompt === 'separate' ? { negativePrompt: negative } : {}),
+    };
+};
@@ -0,0 +1,194 @@
+// --- VERBATIM FIDELITY VERIFIER ---
+// So khớp các scriptLine (ghép lại) với kịch bản gốc theo từng từ, bỏ qua khác biệt khoảng trắng.
+
+export type FidelityIssueType = 'dropped' | 'duplicated' | 'paraphrased' | 'added';
+
+export interface FidelityIssue {
+    type: FidelityIssueType;
+    originalText: string;   // Đoạn trong kịch bản gốc (rỗng nếu là thêm/lặp)
+    outputText: string;     // Đoạn trong kết quả AI (rỗng nếu bị bỏ sót)
+    sceneIndex: number;     // Cảnh (0-based) nơi xảy ra lỗi
+}
+
+export interface FidelityReport {
+    isExact: boolean;       // Trùng khớp hoàn toàn, kể cả khoảng trắng (trừ đầu/cuối)
+    issues: FidelityIssue[];
+    coverage: number;       // Tỷ lệ từ gốc được giữ nguyên (0-1)
+    totalWords: number;
+}
+
+interface Token {
+    text: string;
+    start: number;          // Vị trí ký tự trong văn bản nguồn
+    sceneIndex: number;
+}
+
+type AlignOp =
+    | { kind: 'equal'; o: number; t: number }
+    | { kind: 'delete'; o: number }
+    | { kind: 'insert'; t: number };
+
+const RESYNC_WINDOW = 60;
+const RESYNC_MATCH = 3;
+
+const tokenize = (text: string, sceneIndex: number = 0): Token[] => {
+    const tokens: Token[] = [];
+    const regex = /\S+/g;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+        tokens.push({ text: match[0], start: match.index, sceneIndex });
+    }
+    return tokens;
+};
+
+const tokenizeScenes = (scenes: { scriptLine?: string }[]): Token[] =>
+    scenes.flatMap((scene, index) => tokenize(scene.scriptLine || "", index));
+
+// Căn chỉnh tham lam: khi lệch, tìm điểm đồng bộ lại gần nhất (RESYNC_MATCH từ liên tiếp trùng nhau)
+const alignTokens = (original: Token[], output: Token[]): AlignOp[] => {
+    const ops: AlignOp[] = [];
+    let i = 0;
+    let j = 0;
+
+    const matchesAt = (oi: number, tj: number) => {
+        for (let k = 0; k < RESYNC_MATCH; k++) {
+            const a = original[oi + k];
+            const b = output[tj + k];
+            if (!a && !b) return true;
+            if (!a || !b || a.text !== b.text) return false;
+        }
+        return true;
+    };
+
+    while (i < original.length && j < output.length) {
+        if (original[i].text === output[j].text) {
+            ops.push({ kind: 'equal', o: i, t: j });
+            i++;
+            j++;
+            continue;
+        }
+
+        let resync: { di: number; dj: number } | null = null;
+        for (let distance = 1; distance <= RESYNC_WINDOW * 2 && !resync; distance++) {
+            for (let di = 0; di <= distance; di++) {
+                const dj = distance - di;
+                if (di > RESYNC_WINDOW || dj > RESYNC_WINDOW) continue;
+                if (i + di > original.length || j + dj > output.length) continue;
+                if (matchesAt(i + di, j + dj)) {
+                    resync = { di, dj };
+                    break;
+                }
+            }
+        }
+
+        const di = resync ? resync.di : 1;
+        const dj = resync ? resync.dj : 1;
+        for (let k = 0; k < di; k++) ops.push({ kind: 'delete', o: i + k });
+        for (let k = 0; k < dj; k++) ops.push({ kind: 'insert', t: j + k });
+        i += di;
+        j += dj;
+    }
+
+    for (; i < original.length; i++) ops.push({ kind: 'delete', o: i });
+    for (; j < output.length; j++) ops.push({ kind: 'insert', t: j });
+    return ops;
+};
+
+const normalizeWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+export const verifyFidelity = (original: string, scenes: { scriptLine?: string }[]): FidelityReport => {
+    const originalTokens = tokenize(original);
+    const outputTokens = tokenizeScenes(scenes);
+    const ops = alignTokens(originalTokens, outputTokens);
+    const normalizedOriginal = normalizeWhitespace(original);
+
+    const issues: FidelityIssue[] = [];
+    let matched = 0;
+    let lastSceneIndex = 0;
+    let pendingDeletes: number[] = [];
+    let pendingInserts: number[] = [];
+
+    const flush = () => {
+        if (pendingDeletes.length === 0 && pendingInserts.length === 0) return;
+        const originalText = pendingDeletes.map(o => originalTokens[o].text).join(' ');
+        const outputText = pendingInserts.map(t => outputTokens[t].text).join(' ');
+        let type: FidelityIssueType;
+        if (pendingInserts.length === 0) type = 'dropped';
+        else if (normalizedOriginal.includes(outputText) && (pendingDeletes.length === 0 || pendingInserts.length >= 3)) type = 'duplicated';
+        else if (pendingDeletes.length === 0) type = 'added';
+        else type = 'paraphrased';
+
+        const sceneIndex = pendingInserts.length > 0 ? outputTokens[pendingInserts[0]].sceneIndex : lastSceneIndex;
+        issues.push({ type, originalText, outputText, sceneIndex });
+        pendingDeletes = [];
+        pendingInserts = [];
+    };
+
+    ops.forEach(op => {
+        if (op.kind === 'equal') {
+            flush();
+            matched++;
+            lastSceneIndex = outputTokens[op.t].sceneIndex;
+        } else if (op.kind === 'delete') {
+            pendingDeletes.push(op.o);
+        } else {
+            pendingInserts.push(op.t);
+        }
+    });
+    flush();
+
+    const joined = scenes.map(s => s.scriptLine || "").join('');
+    return {
+        isExact: joined === original || joined.trim() === original.trim(),
+        issues,
+        coverage: originalTokens.length === 0 ? 1 : matched / originalTokens.length,
+        totalWords: originalTokens.length,
+    };
+};
+
+// Tự động sửa: mỗi cảnh nhận lại đúng đoạn văn bản gốc tương ứng (từ vị trí bắt đầu của cảnh
+// tới vị trí bắt đầu của cảnh kế tiếp). Phần bị bỏ sót được chèn vào cảnh đứng trước nó,
+// phần diễn giải được thay bằng văn bản gốc, cảnh chỉ chứa nội dung lặp/thêm bị loại bỏ.
+export const repairFidelity = <T extends { scriptLine: string }>(original: string, scenes: T[]): T[] => {
+    const originalTokens = tokenize(original);
+    const outputTokens = tokenizeScenes(scenes);
+    if (originalTokens.length === 0) return scenes;
+    const ops = alignTokens(originalTokens, outputTokens);
+
+    // Token gốc đầu tiên được "neo" vào mỗi cảnh (qua từ trùng khớp hoặc từ bị diễn giải)
+    const sceneStart: (number | undefined)[] = scenes.map(() => undefined);
+    let pendingDeletes: number[] = [];
+    ops.forEach(op => {
+        if (op.kind === 'equal') {
+            const scene = outputTokens[op.t].sceneIndex;
+            if (sceneStart[scene] === undefined) sceneStart[scene] = op.o;
+            pendingDeletes = [];
+        } else if (op.kind === 'delete') {
+            pendingDeletes.push(op.o);
+        } else if (pendingDeletes.length > 0) {
+            // Insert ngay sau delete => diễn giải: neo cảnh vào đoạn gốc bị thay thế
+            const scene = outputTokens[op.t].sceneIndex;
+            if (sceneStart[scene] === undefined) sceneStart[scene] = pendingDeletes[0];
+        }
+    });
+
+    // Loại các cảnh không neo được và đảm bảo thứ tự tăng dần
+    const anchored: { scene: T; tokenIndex: number }[] = [];
+    scenes.forEach((scene, index) => {
+        const tokenIndex = sceneStart[index];
+        if (tokenIndex === undefined) return;
+        const previous = anchored[anchored.length - 1];
+        if (previous && tokenIndex <= previous.tokenIndex) return;
+        anchored.push({ scene, tokenIndex });
+    });
+    if (anchored.length === 0) return scenes;
+    anchored[0].tokenIndex = 0;
+
+    return anchored.map((entry, index) => {
+        const start = index === 0 ? 0 : originalTokens[entry.tokenIndex].start;
+        const next = anchored[index + 1];
+        const end = next ? originalTokens[next.tokenIndex].start : original.length;
+        // Bỏ khoảng trắng / xuống dòng ngăn cách giữa các cảnh (giống scriptLine của cảnh không cần sửa)
+        return { ...entry.scene, scriptLine: original.substring(start, end).trim() } as T;
+    });
+};
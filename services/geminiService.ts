@@ -1,26 +1,24 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-
-// Hàm giải mã key dự phòng (Obfuscated để tránh bot quét key)
-const getFallbackKeys = () => {
-    // Các chuỗi đã được đảo ngược và mã hóa Base64
-    const encKeys = [
-        "azNNaDRTQXZpTG44a19WWTludkVrV2laVjRUaHVFM3FDeVNheklB"  // Key 2
-    ];
-    return encKeys.map(enc => atob(enc).split('').reverse().join(''));
-};
-
-const FALLBACK_API_KEYS = getFallbackKeys();
-const FALLBACK_KEY4U_KEY = atob("ZWl5Q3htQVVYWmt2Q1dFRlBKNmZmZHd1dGlxR1BNY3F6dWRxYTdybGl3SUFpQ0MyLWtz").split('').reverse().join('');
+import { RunUsage, TokenUsage, createEmptyRunUsage, addUsage, mergeRunUsage } from "./usage";
+import { buildProviderChain, generateWithProviders, DEFAULT_PROVIDER_PRIORITY, ProviderSlot, LLMPart, OpenAICompatibleConfig, isAbortError, throwIfAborted } from "./providers";
+import { IncrementalJsonArrayParser } from "./jsonStream";
+import { RepairEntry, parseJsonTolerant, parseSceneResponse, findUncoveredTail } from "./responseRepair";
+import { KeyPool } from "./keyPool";
+import { StoryBible, EMPTY_STORY_BIBLE, normalizeStoryBible, isStoryBibleEmpty, formatStoryBibleForInstruction, injectStoryBible } from "./storyBible";
+import { segmentScript, segmentText, splitTextInTwo, countWords, estimateNarrationSeconds } from "./segmenter";
+import { ShotDetails, normalizeShotDetails } from "./shotList";
+import { SubtitleCue, CueGroup, segmentCues } from "./subtitles";
+import { GeneratorDialect, PromptRenderSettings, TargetGenerator, resolveGenerator, clampDuration, renderPrompt } from "./dialects";
+import { VideoClip, getClipLimit, needsClipSplit, planClipDurations, renderClip } from "./clips";
+import { PromptTemplate, TemplateVariables, DEFAULT_PROMPT_TEMPLATE, renderTemplate } from "./promptTemplates";
+import { splitScriptIntoChunks, distributeSceneCount, getTailExcerpt, runWithConcurrency, DEFAULT_CHUNK_CHARS } from "./chunking";
 
 export const validateApiKey = async (apiKey: string, modelName: string = 'gemini-3-flash-preview'): Promise<boolean> => {
     try {
         const ai = new GoogleGenAI({ apiKey });
-        // Gọi một request siêu nhẹ để test key
-        await ai.models.generateContent({
-            model: modelName,
-            contents: 'ping',
-        });
+        // Chỉ đọc metadata của model (không sinh nội dung, không tính phí token)
+        await ai.models.get({ model: modelName });
         return true;
     } catch (error) {
         console.error("Key Validation Failed:", error);
@@ -28,7 +26,14 @@ export const validateApiKey = async (apiKey: string, modelName: string = 'gemini
     }
 };
 
-export const standardizeScriptWithAI = async (script: string, apiKey: string, modelName: string = "gemini-3-flash-preview", key4uKey?: string): Promise<string> => {
+export const standardizeScriptWithAI = async (
+    script: string,
+    apiKey: string,
+    modelName: string = "gemini-3-flash-preview",
+    openAIConfig?: OpenAICompatibleConfig,
+    providerPriority: ProviderSlot[] = DEFAULT_PROVIDER_PRIORITY,
+    options: { signal?: AbortSignal; keyPool?: KeyPool } = {}
+): Promise<{ text: string; usage: RunUsage }> => {
   // System Instruction được cập nhật để đảm bảo tính toàn vẹn nội dung
   const systemInstruction = `You are a strict text cleaning engine.
 Your GOAL: Remove non-spoken formatting and metadata without changing a single spoken word.
@@ -46,149 +51,486 @@ STRICT RULES:
 
 Output ONLY the cleaned text.`;
 
-  const attemptGeneration = async (keyToUse: string) => {
-    const ai = new GoogleGenAI({ apiKey: keyToUse });
-    const response = await ai.models.generateContent({
-      model: modelName,
-      contents: script,
-      config: {
+  const chain = buildProviderChain(providerPriority, { geminiKey: apiKey, geminiKeyPool: options.keyPool, geminiModel: modelName, openAI: openAIConfig });
+
+  try {
+    const generation = await generateWithProviders(chain, {
         systemInstruction,
-      }
+        parts: [{ text: script }],
+        mockResponse: script.trim(),
+        signal: options.signal,
     });
-    const text = response.text;
-    if (!text) throw new Error("AI không phản hồi.");
-    return text.trim();
-  };
+    return { text: generation.result, usage: toRunUsage(generation) };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Standardize Script Error:", error);
+    throw new Error("Không thể chuẩn hóa kịch bản. Vui lòng thử lại.");
+  }
+};
 
-  const attemptKey4UGeneration = async (key: string) => {
-      const response = await fetch('https://api.key4u.shop/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${key}`
-          },
-          body: JSON.stringify({
-              model: 'gpt-4o-mini',
-              messages: [
-                  { role: 'system', content: systemInstruction },
-                  { role: 'user', content: script }
-              ],
-              temperature: 0.7
-          })
-      });
+// Token của một request đơn lẻ
+const toRunUsage = (generation: { usage?: TokenUsage; provider: string; model: string; keyId?: string }): RunUsage =>
+    generation.usage
+        ? addUsage(createEmptyRunUsage(), { ...generation.usage, provider: generation.provider, model: generation.model, keyId: generation.keyId })
+        : createEmptyRunUsage();
 
-      if (!response.ok) {
-          const errText = await response.text();
-          throw new Error(`Key4U API Error: ${response.status} - ${errText}`);
-      }
+// Lượt phân tích đầu tiên: trích xuất nhân vật, địa điểm, thời đại thành Story Bible có thể chỉnh sửa
+export const extractStoryBible = async (
+    script: string,
+    apiKey: string,
+    modelName: string = "gemini-2.5-flash",
+    openAIConfig?: OpenAICompatibleConfig,
+    providerPriority: ProviderSlot[] = DEFAULT_PROVIDER_PRIORITY,
+    options: { signal?: AbortSignal; keyPool?: KeyPool } = {}
+): Promise<{ bible: StoryBible; usage: RunUsage }> => {
+  const systemInstruction = `You are a script analyst preparing a visual "story bible" for a storyboard artist.
+Read the whole script and extract:
+1. "era": The time period and general setting (e.g., "1940s occupied Paris", "Modern-day Hanoi").
+2. "characters": Every recurring or important character. Use the name exactly as written in the script. For each, describe in concise English: "age", "gender", "ethnicity", "hair", "clothing", "features" (distinguishing features such as scars, glasses, tattoos, build).
+   - Base descriptions on the script. When the script does not say, choose a plausible, specific appearance that fits the era and setting, and keep it short.
+3. "locations": Recurring locations with a short English visual "description".
 
-      const data = await response.json();
-      return data.choices[0].message.content.trim();
-  };
+Do NOT invent characters or locations that are not in the script.
+OUTPUT ONLY A JSON OBJECT: { "era": "...", "characters": [...], "locations": [...] }.`;
 
-  try {
-    if (key4uKey) {
-        try {
-            return await attemptKey4UGeneration(key4uKey);
-        } catch (error) {
-            console.warn("Key4U API failed for standardization, falling back to Gemini...", error);
-        }
-    }
+  const characterProperties: any = {};
+  ['name', 'age', 'gender', 'ethnicity', 'hair', 'clothing', 'features'].forEach(field => {
+      characterProperties[field] = { type: Type.STRING };
+  });
 
-    if (apiKey) {
-      try {
-        return await attemptGeneration(apiKey);
-      } catch (error) {
-        console.warn("User API key failed, falling back to default keys...", error);
-      }
-    }
-    
-    for (const fallbackKey of FALLBACK_API_KEYS) {
-        try {
-            return await attemptGeneration(fallbackKey);
-        } catch (fallbackError) {
-            console.warn("A fallback key failed, trying next...", fallbackError);
-        }
-    }
+  const chain = buildProviderChain(providerPriority, {
+      geminiKey: apiKey,
+      geminiKeyPool: options.keyPool,
+      geminiModel: modelName,
+      backupGeminiModel: "gemini-2.5-flash",
+      openAI: openAIConfig
+  });
 
-    try {
-        return await attemptKey4UGeneration(FALLBACK_KEY4U_KEY);
-    } catch (fallbackError) {
-        console.warn("Fallback Key4U API failed...", fallbackError);
-    }
+  try {
+    const generation = await generateWithProviders(chain, {
+        systemInstruction,
+        parts: [{ text: script }],
+        responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+                era: { type: Type.STRING },
+                characters: {
+                    type: Type.ARRAY,
+                    items: { type: Type.OBJECT, properties: characterProperties, required: ['name'] }
+                },
+                locations: {
+                    type: Type.ARRAY,
+                    items: {
+                        type: Type.OBJECT,
+                        properties: { name: { type: Type.STRING }, description: { type: Type.STRING } },
+                        required: ['name']
+                    }
+                }
+            },
+            required: ['era', 'characters', 'locations']
+        },
+        mockResponse: JSON.stringify(EMPTY_STORY_BIBLE),
+        signal: options.signal,
+    }, (text) => normalizeStoryBible(parseJsonTolerant(text).value));
 
-    throw new Error("Tất cả API keys (bao gồm dự phòng) đều lỗi hoặc hết hạn mức.");
-  } catch (error) {
-    console.error("Standardize Script Error:", error);
-    throw new Error("Không thể chuẩn hóa kịch bản. Vui lòng thử lại.");
+    const usage = toRunUsage(generation);
+    return { bible: generation.result, usage };
+  } catch (error: any) {
+    if (isAbortError(error)) throw error;
+    console.error("Story Bible Error:", error);
+    throw new Error(`Không thể trích xuất nhân vật & bối cảnh. Lỗi: ${error.message || error}`);
   }
 };
 
+const joinScriptLines = (first: string, second: string): string => {
+    if (!first || !second || /\s$/.test(first) || /^\s/.test(second)) return (first + second).trim();
+    return `${first} ${second}`.trim();
+};
+
+// Sửa số cảnh cho đúng mục tiêu (tính theo số từ, không theo số ký tự):
+// - Thừa: gộp cặp cảnh liền kề có tổng số từ ít nhất.
+// - Thiếu: tách cảnh nhiều từ nhất tại ranh giới câu, rồi tới dấu phẩy/chấm phẩy, cuối cùng mới tới khoảng trắng.
+// Cảnh bị gộp/tách được đánh dấu `needsPrompt` để tạo lại prompt khớp với nội dung mới.
 const adjustSceneCount = (scenes: any[], targetCount: number): any[] => {
     if (!scenes || scenes.length === 0) return scenes;
     let currentScenes = [...scenes];
+    const wordsOf = (scene: any) => countWords(scene.scriptLine || "");
 
     // Merge if too many
     while (currentScenes.length > targetCount) {
-        let minLength = Infinity;
+        let minWords = Infinity;
         let mergeIndex = 0;
         for (let i = 0; i < currentScenes.length - 1; i++) {
-            const len = (currentScenes[i].scriptLine || "").length + (currentScenes[i+1].scriptLine || "").length;
-            if (len < minLength) {
-                minLength = len;
+            const words = wordsOf(currentScenes[i]) + wordsOf(currentScenes[i + 1]);
+            if (words < minWords) {
+                minWords = words;
                 mergeIndex = i;
             }
         }
-        
+
         const mergedScene = {
             ...currentScenes[mergeIndex],
-            scriptLine: (currentScenes[mergeIndex].scriptLine || "").trim() + " " + (currentScenes[mergeIndex+1].scriptLine || "").trim()
+            scriptLine: joinScriptLines(currentScenes[mergeIndex].scriptLine || "", currentScenes[mergeIndex + 1].scriptLine || ""),
+            promptVariants: undefined,
+            shot: undefined,
+            needsPrompt: true
         };
         currentScenes.splice(mergeIndex, 2, mergedScene);
     }
 
     // Split if too few
     while (currentScenes.length < targetCount) {
-        let maxLength = -1;
-        let splitIndex = 0;
-        for (let i = 0; i < currentScenes.length; i++) {
-            const len = (currentScenes[i].scriptLine || "").length;
-            if (len > maxLength) {
-                maxLength = len;
-                splitIndex = i;
-            }
-        }
-        
-        const sceneToSplit = currentScenes[splitIndex];
-        const text = sceneToSplit.scriptLine || "";
-        
-        let splitPos = Math.floor(text.length / 2);
-        let leftSpace = text.lastIndexOf(" ", splitPos);
-        let rightSpace = text.indexOf(" ", splitPos);
-        
-        if (leftSpace !== -1 && rightSpace !== -1) {
-            splitPos = (splitPos - leftSpace) < (rightSpace - splitPos) ? leftSpace : rightSpace;
-        } else if (leftSpace !== -1) {
-            splitPos = leftSpace;
-        } else if (rightSpace !== -1) {
-            splitPos = rightSpace;
-        }
-        
-        if (splitPos <= 0 || splitPos >= text.length) {
-            // Cannot split safely, break to avoid infinite loop
+        const candidates = currentScenes
+            .map((scene, index) => ({ index, words: wordsOf(scene) }))
+            .sort((a, b) => b.words - a.words);
+
+        let splitDone = false;
+        for (const { index } of candidates) {
+            const halves = splitTextInTwo(currentScenes[index].scriptLine || "");
+            if (!halves) continue;
+            const sceneToSplit = currentScenes[index];
+            currentScenes.splice(index, 1,
+                { ...sceneToSplit, scriptLine: halves[0], promptVariants: undefined, shot: undefined, needsPrompt: true },
+                { ...sceneToSplit, scriptLine: halves[1], promptVariants: undefined, shot: undefined, needsPrompt: true }
+            );
+            splitDone = true;
             break;
         }
+        // Không còn cảnh nào tách được (mỗi cảnh chỉ còn 1 từ)
+        if (!splitDone) break;
+    }
+
+    return currentScenes;
+};
+
+// --- PROMPT VARIANTS ---
+export const MAX_PROMPT_VARIANTS = 5;
+
+const MOCK_VARIANT_STYLES = ['wide establishing shot', 'low angle close-up', 'over-the-shoulder, golden hour lighting', 'top-down view, high contrast lighting'];
+
+// Các phương án giả lập (Mock provider): thêm góc máy / ánh sáng khác nhau vào prompt gốc
+const buildMockVariants = (prompt: string, variantCount: number): { promptVariants?: string[] } =>
+    variantCount > 1 ? { promptVariants: MOCK_VARIANT_STYLES.slice(0, variantCount - 1).map(style => `${prompt.replace(/[.!?]+$/, '')}, ${style}`) } : {};
 
-        const part1 = text.substring(0, splitPos).trim();
-        const part2 = text.substring(splitPos).trim();
+// Yêu cầu trường "promptVariants" (đánh số 5, sau trường shot)
+const buildVariantInstruction = (promptField: string, variantCount: number): string => variantCount > 1 ? `
+5. "promptVariants": An array of exactly ${variantCount - 1} ALTERNATIVE versions of the "${promptField}" for the same scene. Follow exactly the same rules (mandatory prefix, style injection, aspect ratio), but give each alternative a clearly different camera angle, shot composition and lighting from the main prompt and from each other.` : "";
 
-        const scene1 = { ...sceneToSplit, scriptLine: part1 + " " };
-        const scene2 = { ...sceneToSplit, scriptLine: part2 };
+// Gom prompt chính + các phương án thành `promptVariants` (phần tử 0 luôn là prompt chính), bỏ trùng/rỗng
+const normalizePromptVariants = (scene: any, promptField: string, variantCount: number): any => {
+    const { promptVariants, ...rest } = scene;
+    if (variantCount <= 1) return rest;
+    const variants = Array.from(new Set(
+        [scene[promptField], ...(Array.isArray(promptVariants) ? promptVariants : [])]
+            .map(v => (typeof v === 'string' ? v.trim() : ''))
+            .filter(Boolean)
+    )).slice(0, variantCount);
+    return variants.length > 1 ? { ...rest, promptVariants: variants } : rest;
+};
+
+// --- SHOT LIST ---
+const shotSchema = {
+    type: Type.OBJECT,
+    properties: {
+        shotSize: { type: Type.STRING },
+        cameraAngle: { type: Type.STRING },
+        lens: { type: Type.STRING },
+        cameraMovement: { type: Type.STRING },
+        lightingKey: { type: Type.STRING },
+        mood: { type: Type.STRING },
+        durationSeconds: { type: Type.NUMBER },
+        characters: { type: Type.ARRAY, items: { type: Type.STRING } },
+        location: { type: Type.STRING }
+    },
+    required: ["shotSize", "cameraAngle", "lens", "cameraMovement", "lightingKey", "mood", "durationSeconds", "characters", "location"]
+};
+
+// Yêu cầu trường "shot" (đánh số 4, sau trường prompt chính)
+const buildShotInstruction = (promptType: 'image' | 'video'): string => `
+4. "shot": The shot-list entry of the scene, consistent with the prompt. Keep every text value short (1-5 words, English):
+   - "shotSize" (e.g., "Extreme wide shot", "Medium close-up"), "cameraAngle" (e.g., "Eye level", "Low angle", "Bird's-eye view"), "lens" (focal length, e.g., "24mm wide", "85mm")
+   - "cameraMovement" (${promptType === 'video' ? 'e.g., "Slow dolly in", "Handheld tracking"' : '"Static" for still images'}), "lightingKey" (e.g., "Low key, warm practicals"), "mood"
+   - "durationSeconds": estimated screen time in seconds (how long the narration of the scriptLine takes, ~2.5 words per second)
+   - "characters": names of the characters visible in the shot (empty array if none), "location": where the shot takes place`;
 
-        currentScenes.splice(splitIndex, 1, scene1, scene2);
+const buildMockShot = (scriptLine: string, promptType: 'image' | 'video') => ({
+    shotSize: 'Medium shot',
+    cameraAngle: 'Eye level',
+    lens: '35mm',
+    cameraMovement: promptType === 'video' ? 'Slow dolly in' : 'Static',
+    lightingKey: 'Natural light',
+    mood: 'Neutral',
+    durationSeconds: Math.max(1, Math.round(countWords(scriptLine) / 2.5)),
+    characters: [],
+    location: ''
+});
+
+// Kết quả giả lập cho Mock provider: mỗi câu là một cảnh
+const buildMockScenes = (script: string, styleLock: string, promptType: 'image' | 'video', variantCount: number = 1) => {
+    const sentences = script.match(/[^.!?\n]+[.!?]*\s*/g) || [script];
+    return sentences
+        .filter(line => line.trim() !== "")
+        .map((line, index) => {
+            const prompt = `${styleLock} ${line.trim()}`.trim();
+            return {
+                scriptLine: line,
+                phase: `Mock ${index + 1}`,
+                [promptType === 'image' ? 'imagePrompt' : 'videoPrompt']: prompt,
+                shot: buildMockShot(line, promptType),
+                ...buildMockVariants(prompt, variantCount)
+            };
+        });
+};
+
+// Biến của mẫu prompt cho một lần chạy (xem TEMPLATE_VARIABLES). `sceneCount` thay đổi theo từng chunk.
+const buildTemplateVariables = (
+    promptType: 'image' | 'video',
+    styleLock: string,
+    aspectRatio: string,
+    enableAspectRatio: boolean,
+    dialect: GeneratorDialect,
+    durationSeconds?: number,
+    sceneCount: number = 0
+): TemplateVariables => {
+  let framing = "Widescreen cinematic";
+  if (aspectRatio === '9:16') framing = "Vertical full-screen mobile";
+  if (aspectRatio === '1:1') framing = "Square format";
+
+  let aspectRatioInstruction = "";
+  if (enableAspectRatio) {
+      aspectRatioInstruction = promptType === 'image'
+          ? `\n   - **COMPOSITION**: Frame the image for a ${aspectRatio} aspect ratio.`
+          : `\n   - **ASPECT RATIO & FRAMING**: Composition must be ${framing} (${aspectRatio}). Frame the subject accordingly.`;
+  }
+
+  return {
+      styleLock,
+      generator: dialect.label,
+      generatorGuidance: dialect.guidance.map(line => `\n   - **${dialect.label.toUpperCase()} STYLE**: ${line}`).join(""),
+      aspectRatio,
+      aspectRatioInstruction,
+      framing,
+      durationSeconds: clampDuration(dialect, durationSeconds) || 8,
+      targetSceneCount: sceneCount,
+      tolerance: sceneCount > 50 ? "±5%" : "exact",
+      promptType,
+  };
+};
+
+// Yêu cầu cho trường prompt ("imagePrompt" / "videoPrompt"), đánh số 3 trong danh sách trường của mỗi cảnh.
+// Nội dung lấy từ mẫu prompt; tham số, negative prompt và thời lượng do lớp dialect thêm vào sau (xem renderPrompt).
+const buildPromptGenerationInstruction = (
+    promptType: 'image' | 'video',
+    styleLock: string,
+    aspectRatio: string,
+    enableAspectRatio: boolean,
+    dialect: GeneratorDialect,
+    durationSeconds?: number,
+    template: PromptTemplate = DEFAULT_PROMPT_TEMPLATE
+): string => {
+  const variables = buildTemplateVariables(promptType, styleLock, aspectRatio, enableAspectRatio, dialect, durationSeconds);
+  const section = promptType === 'image' ? template.sections.image_prompt : template.sections.video_prompt;
+  return `3. "${promptType === 'image' ? 'imagePrompt' : 'videoPrompt'}": ${renderTemplate(section, variables)}`;
+};
+
+// Cài đặt định dạng prompt cho công cụ đích của một lần chạy
+const buildRenderSettings = (
+    promptType: 'image' | 'video',
+    styleLock: string,
+    aspectRatio: string,
+    enableAspectRatio: boolean,
+    target: { targetGenerator?: TargetGenerator; negativePrompt?: string; durationSeconds?: number }
+): PromptRenderSettings => {
+    const dialect = resolveGenerator(target.targetGenerator, promptType);
+    return {
+        generator: dialect.id,
+        styleLock,
+        aspectRatio,
+        enableAspectRatio,
+        negativePrompt: target.negativePrompt ?? '',
+        durationSeconds: clampDuration(dialect, target.durationSeconds) || 0,
+    };
+};
+
+// Định dạng prompt trung tính của một cảnh cho công cụ đích; giữ bản gốc trong `basePrompt` để render lại sau
+const applyRenderSettings = (scene: any, promptField: string, render: PromptRenderSettings): any => {
+    const basePrompt = String(scene[promptField] || "");
+    const rendered = renderPrompt(basePrompt, render);
+    return { ...scene, basePrompt, [promptField]: rendered.prompt, negativePrompt: rendered.negativePrompt, render };
+};
+
+const buildStoryBibleInstruction = (storyBible: StoryBible | null): string => storyBible ? `**STORY BIBLE (LOCKED - USE VERBATIM)**
+The following descriptions are final. Whenever a character or location appears in a scene, describe it using EXACTLY these words. Do NOT change age, ethnicity, hair, clothing or features, and do NOT invent new appearances for them.
+${formatStoryBibleForInstruction(storyBible)}
+
+` : "";
+
+export interface AnalyzeOptions {
+    // Tự động chia nhỏ kịch bản dài (mặc định: bật)
+    chunking?: boolean;
+    maxChunkChars?: number;
+    parallelChunks?: boolean;
+    concurrency?: number;
+    onChunkProgress?: (completed: number, total: number) => void;
+    // Streaming: nhận danh sách cảnh đã hoàn chỉnh (tạm thời) mỗi khi có thêm cảnh mới
+    onScenes?: (scenes: any[]) => void;
+    signal?: AbortSignal;
+    // Pool key Gemini của người dùng (xoay vòng + theo dõi sức khỏe key)
+    keyPool?: KeyPool;
+    // Chế độ 'punctuation' / 'fixed': tách cảnh offline, AI chỉ tạo phase + prompt (mặc định: bật)
+    localSegmentation?: boolean;
+    // Story Bible đã khóa: đưa vào system instruction và chèn nguyên văn vào prompt của mọi cảnh
+    storyBible?: StoryBible;
+    // Số phương án prompt cho mỗi cảnh (mặc định 1, tối đa MAX_PROMPT_VARIANTS), trả về trong `promptVariants`
+    variantCount?: number;
+    // Công cụ tạo ảnh/video đích (mặc định: Nano Banana / Veo 3), negative prompt và thời lượng clip (giây)
+    targetGenerator?: TargetGenerator;
+    negativePrompt?: string;
+    durationSeconds?: number;
+    // Phụ đề SRT/WebVTT đã phân tích: cảnh được gom từ các cue nguyên vẹn và giữ thời gian của cue
+    subtitleCues?: SubtitleCue[];
+    // Tốc độ đọc (từ/phút): thời lượng shot = thời lượng đọc scriptLine thay cho ước tính của AI
+    wordsPerMinute?: number;
+    // Mẫu prompt (vai trò, phân cảnh, prompt ảnh/video); mặc định: mẫu có sẵn "Mặc định"
+    promptTemplate?: PromptTemplate;
+}
+
+// Gắn thời gian + số thứ tự cue gốc vào cảnh; thời lượng shot lấy theo phụ đề thay cho ước tính của AI
+const withCueTiming = (scene: any, group: CueGroup): any => ({
+    ...scene,
+    startTime: group.start,
+    endTime: group.end,
+    cueIndices: group.cueIndices,
+    ...(scene.shot ? { shot: { ...scene.shot, durationSeconds: Math.round((group.end - group.start) * 10) / 10 } } : {})
+});
+
+// Ghép kết quả của các chunk: song song (chunk đầu chạy trước để lấy tóm tắt) hoặc tuần tự với tóm tắt cuốn chiếu
+const runChunkPipeline = async <R extends { summary: string }>(
+    total: number,
+    options: AnalyzeOptions,
+    processChunk: (index: number, continuitySummary: string, signal?: AbortSignal) => Promise<R>
+): Promise<R[]> => {
+    const results: R[] = [];
+    if (options.parallelChunks) {
+        const first = await processChunk(0, "");
+        // Một chunk lỗi => các chunk đang chạy bị hủy qua `signal` chung, không tốn thêm token
+        const rest = await runWithConcurrency(Array.from({ length: total - 1 }), options.concurrency || 3, (_, i, signal) => processChunk(i + 1, first.summary, signal), options.signal);
+        results.push(first, ...rest);
+    } else {
+        let rollingSummary = "";
+        for (let i = 0; i < total; i++) {
+            const result = await processChunk(i, rollingSummary);
+            rollingSummary = result.summary;
+            results.push(result);
+        }
     }
+    return results;
+};
 
-    return currentScenes;
+// Gom các cảnh đã tách sẵn thành từng lô không vượt quá `maxChars` ký tự
+const batchSegments = <T extends { scriptLine: string }>(scenes: T[], maxChars: number): T[][] => {
+    const batches: T[][] = [];
+    let current: T[] = [];
+    let currentChars = 0;
+    scenes.forEach(scene => {
+        if (current.length > 0 && currentChars + scene.scriptLine.length > maxChars) {
+            batches.push(current);
+            current = [];
+            currentChars = 0;
+        }
+        current.push(scene);
+        currentChars += scene.scriptLine.length + 1;
+    });
+    if (current.length > 0) batches.push(current);
+    return batches;
+};
+
+// Construct Segmentation Instruction based on mode (targetSceneCount thay đổi theo từng chunk)
+const buildSegmentationInstruction = (segmentationMode: 'ai' | 'punctuation' | 'fixed', variables: TemplateVariables, template: PromptTemplate): string =>
+    renderTemplate(template.sections[`segmentation_${segmentationMode}`], variables);
+
+// Thiết lập dựng system instruction phân cảnh, dùng chung cho analyzeScriptWithAI và bản xem trước của mẫu prompt
+interface AnalysisInstructionContext {
+    template: PromptTemplate;
+    promptType: 'image' | 'video';
+    segmentationMode: 'ai' | 'punctuation' | 'fixed';
+    styleLock: string;
+    aspectRatio: string;
+    enableAspectRatio: boolean;
+    dialect: GeneratorDialect;
+    durationSeconds?: number;
+    variantCount: number;
+    storyBible: StoryBible | null;
+}
+
+// `presegmented`: kịch bản đã được tách cảnh offline, AI chỉ tạo phase + prompt cho từng cảnh
+const buildAnalysisInstruction = (
+    context: AnalysisInstructionContext,
+    sceneCount: number,
+    chunkInfo?: { index: number; total: number },
+    presegmented: boolean = false
+): string => {
+  const { template, promptType } = context;
+  const promptField = promptType === 'image' ? 'imagePrompt' : 'videoPrompt';
+  const variables = buildTemplateVariables(promptType, context.styleLock, context.aspectRatio, context.enableAspectRatio, context.dialect, context.durationSeconds, sceneCount);
+
+  const promptGenerationInstruction = buildPromptGenerationInstruction(promptType, context.styleLock, context.aspectRatio, context.enableAspectRatio, context.dialect, context.durationSeconds, template)
+      + buildShotInstruction(promptType)
+      + buildVariantInstruction(promptField, context.variantCount);
+
+  const continuityInstruction = chunkInfo ? `
+
+**TASK 4: CONTINUITY (LONG SCRIPT - PART ${chunkInfo.index + 1} OF ${chunkInfo.total})**
+- The input is only one part of a longer script. A CONTINUITY CONTEXT from earlier parts may be provided: keep characters' appearance, setting and era consistent with it.
+- The CONTINUITY CONTEXT and PREVIOUS TEXT are for reference only. ${presegmented ? 'Do NOT generate scenes for them.' : 'NEVER include them in any "scriptLine".'}
+- Also return "continuitySummary": an updated, concise summary (max 150 words) of the main characters (with their visual appearance), setting, era and story so far, including this part.` : "";
+
+  return `${renderTemplate(template.sections.preamble, variables)}
+
+${buildStoryBibleInstruction(context.storyBible)}${presegmented ? `**TASK 2: SEGMENTATION (ALREADY DONE)**
+The script has already been split into ${sceneCount} numbered scenes, given as a JSON array of { "sceneIndex", "scriptLine" }.
+- Do NOT merge, split, reorder, skip or rewrite scenes. Do NOT repeat the "scriptLine" in the output.
+- The output MUST contain exactly ${sceneCount} objects, one per input scene, in the same order.` : buildSegmentationInstruction(context.segmentationMode, variables, template)}
+
+**TASK 3: PROMPT GENERATION**
+For each ${presegmented ? 'input scene' : 'segmented line (Scene)'}, generate a JSON object with:
+1. ${presegmented ? '"sceneIndex": The same "sceneIndex" as the input scene.' : '"scriptLine": The exact segmented text line from the script based on the rules above.'}
+2. "phase": The narrative phase (e.g., "Introduction", "Climax", "Action", "Dialogue").
+${promptGenerationInstruction}${continuityInstruction}
+
+${chunkInfo ? 'OUTPUT ONLY A JSON OBJECT: { "scenes": [ ...scene objects... ], "continuitySummary": "..." }.' : 'OUTPUT ONLY A JSON ARRAY.'}`;
+};
+
+export interface InstructionPreviewSettings {
+    promptType: 'image' | 'video';
+    segmentationMode: 'ai' | 'punctuation' | 'fixed';
+    targetSceneCount: number;
+    styleLock: string;
+    aspectRatio: string;
+    enableAspectRatio: boolean;
+    targetGenerator?: TargetGenerator;
+    durationSeconds?: number;
+    variantCount?: number;
+    storyBible?: StoryBible;
+    // Kịch bản được tách cảnh offline (phần phân cảnh của mẫu không được dùng)
+    presegmented: boolean;
+}
+
+// System instruction đầy đủ mà một mẫu prompt tạo ra với thiết lập hiện tại (kịch bản ngắn, không chia chunk)
+export const previewAnalysisInstruction = (template: PromptTemplate, settings: InstructionPreviewSettings): string => {
+    const dialect = resolveGenerator(settings.targetGenerator, settings.promptType);
+    return buildAnalysisInstruction({
+        template,
+        promptType: settings.promptType,
+        segmentationMode: settings.segmentationMode,
+        styleLock: settings.styleLock,
+        aspectRatio: settings.aspectRatio,
+        enableAspectRatio: settings.enableAspectRatio,
+        dialect,
+        durationSeconds: clampDuration(dialect, settings.durationSeconds) || 0,
+        variantCount: Math.max(1, Math.min(MAX_PROMPT_VARIANTS, Math.floor(settings.variantCount || 1))),
+        storyBible: settings.storyBible && !isStoryBibleEmpty(settings.storyBible) ? settings.storyBible : null,
+    }, Math.max(1, settings.targetSceneCount), undefined, settings.presegmented);
 };
 
 export const analyzeScriptWithAI = async (
@@ -203,102 +545,39 @@ export const analyzeScriptWithAI = async (
     promptType: 'image' | 'video' = 'image',
     aspectRatio: string = '16:9',
     enableAspectRatio: boolean = false,
-    key4uKey?: string
-): Promise<{ scenes: any[], provider: string, model: string }> => {
-  // Construct Segmentation Instruction based on mode
-  let segmentationInstruction = "";
-  if (segmentationMode === 'ai') {
-      segmentationInstruction = `**TASK 2: SEGMENTATION (STRICT & CRITICAL - AI MODE)**
-Do NOT simply split by sentences or punctuation. Use **Semantic Segmentation**.
-- **Rule 1 (Length)**: Break the script into short segments/lines of approximately **7-15 words**. This is optimized for visual pacing.
-- **Rule 2 (Semantic Integrity)**: Do NOT cut in the middle of a thought or content just to meet the word count. Each segment must be a complete logical thought, phrase, or meaningful unit.
-- **Rule 3 (Fidelity - VERBATIM COPY)**: You act as a text splitter, NOT an editor. You MUST preserve the original text exactly character-for-character within the segments. **DO NOT SUMMARIZE. DO NOT PARAPHRASE. DO NOT SKIP SENTENCES.**
-- **Rule 4 (Completeness)**: The concatenation of all "scriptLine" values MUST be identical to the input script.
-- **Rule 5 (Format)**: Each segmented line corresponds to one item (one Scene) in the JSON output array.`;
-  } else if (segmentationMode === 'punctuation') {
-      segmentationInstruction = `**TASK 2: SEGMENTATION (STRICT & CRITICAL - PUNCTUATION MODE)**
-Split the script strictly based on sentence-ending punctuation marks (., ?, !, ...).
-- **Rule 1 (Punctuation)**: Start a new segment after every sentence-ending punctuation mark. If a sentence is extremely long (>50 words), you may split at a major clause (comma/semicolon) to keep prompts manageable.
-- **Rule 2 (Fidelity - VERBATIM COPY)**: You act as a text splitter, NOT an editor. You MUST preserve the original text exactly character-for-character within the segments. **DO NOT SUMMARIZE. DO NOT PARAPHRASE. DO NOT SKIP SENTENCES.**
-- **Rule 3 (Completeness)**: The concatenation of all "scriptLine" values MUST be identical to the input script.
-- **Rule 4 (Format)**: Each segmented line corresponds to one item (one Scene) in the JSON output array.`;
-  } else if (segmentationMode === 'fixed') {
-      const tolerance = targetSceneCount > 50 ? "±5%" : "exact";
-      segmentationInstruction = `**TASK 2: SEGMENTATION (STRICT & CRITICAL - FIXED COUNT MODE)**
-Target Scene Count: **${targetSceneCount}** (Tolerance: ${tolerance}).
-
-STRATEGY TO ACHIEVE TARGET:
-1. **Analyze Density**: First, estimate the total content of the script. Calculate roughly how much text should be in each scene to reach ${targetSceneCount} scenes.
-   - *Strategy*: If the script is long and the target count is high, you MUST split frequently (e.g., every sentence or even every major clause). Do not group sentences unless necessary.
-   - *Strategy*: If the script is short and the target is low, group sentences together.
-2. **Distribute Evenly**: Do not bunch up segments at the beginning. Maintain a consistent pacing throughout to reach the end of the script exactly around scene #${targetSceneCount}.
-3. **Semantic Priority**: While aiming for the target count, NEVER break a sentence in a way that destroys meaning. It is better to be off by a few scenes (within 5%) than to have broken gibberish.
-4. **Count Check**: Continuously track your scene count as you generate.
-
-- **Rule 1 (Target)**: Aim for exactly ${targetSceneCount} items in the JSON array. For large counts (>100), a deviation of ±5% is acceptable to preserve semantic integrity.
-- **Rule 2 (Fidelity - VERBATIM COPY)**: You act as a text splitter, NOT an editor. You MUST preserve the original text exactly character-for-character within the segments. **DO NOT SUMMARIZE. DO NOT PARAPHRASE. DO NOT SKIP SENTENCES.**
-- **Rule 3 (Completeness)**: The concatenation of all "scriptLine" values MUST be identical to the input script.
-- **Rule 4 (Format)**: Each segmented line corresponds to one item (one Scene).
-- **Rule 5 (1-to-1 Mapping)**: You MUST generate EXACTLY ONE image/video prompt for EACH scene. The final output MUST contain exactly ${targetSceneCount} scenes, and therefore exactly ${targetSceneCount} prompts.`;
-  }
+    openAIConfig?: OpenAICompatibleConfig,
+    providerPriority: ProviderSlot[] = DEFAULT_PROVIDER_PRIORITY,
+    options: AnalyzeOptions = {}
+): Promise<{ scenes: any[], provider: string, model: string, usage: RunUsage, repairs: RepairEntry[] }> => {
+  const promptField = promptType === 'image' ? 'imagePrompt' : 'videoPrompt';
+  const variantCount = Math.max(1, Math.min(MAX_PROMPT_VARIANTS, Math.floor(options.variantCount || 1)));
 
-  // Construct Prompt Type Instruction
-  let promptGenerationInstruction = "";
-  const commonStyleInjection = `   - **STYLE INJECTION**: Analyze the attached Reference Images (if any). Extract their art style (e.g., color palette, lighting key, texture, rendering style) and WRITE IT EXPLICITLY into the prompt description.
-    - **MANDATORY PREFIX**: Start exactly with: "${styleLock}"`;
+  const render = buildRenderSettings(promptType, styleLock, aspectRatio, enableAspectRatio, options);
 
-  if (promptType === 'image') {
-      const aspectRatioInstruction = enableAspectRatio ? `\n   - **ASPECT RATIO**: Output MUST include the aspect ratio parameter "--ar ${aspectRatio}" at the very end of the prompt.` : "";
-      promptGenerationInstruction = `3. "imagePrompt": A self-contained, highly detailed visual description for a static image, optimized for Google Nano Banana (Gemini Image Models).
-${commonStyleInjection}
-   - **NO PARAMETERS**: Do not use Midjourney parameters (like --v 6.0, --ar 16:9). Use natural, descriptive English only.${aspectRatioInstruction}
-   - **CHARACTER CONSISTENCY**: Analyze the script to identify the main characters. Describe their appearance consistently in EVERY SINGLE PROMPT (Age, Gender, Ethnicity, Hair, Clothing, key features) based on the script's context.
-   - **VISUAL FIDELITY**: Focus on soft lighting, rich textures, and a clean composition suitable for the "Nano Banana" model (high adherence to prompt).
-   - **ACTION & MOOD**: Describe the scene action and atmosphere vividly based on the script context.`;
-  } else {
-      let videoRatioDesc = "Widescreen cinematic";
-      if (aspectRatio === '9:16') videoRatioDesc = "Vertical full-screen mobile";
-      if (aspectRatio === '1:1') videoRatioDesc = "Square format";
-      
-      const aspectRatioInstruction = enableAspectRatio ? `\n   - **ASPECT RATIO & FRAMING**: Composition must be ${videoRatioDesc} (${aspectRatio}). Frame the subject accordingly.` : "";
-
-      promptGenerationInstruction = `3. "videoPrompt": A highly detailed video generation prompt optimized for Google Veo 3 (approx 8 seconds).
-${commonStyleInjection}${aspectRatioInstruction}
-   - **VISUAL NARRATIVE**: Describe the continuous motion, physics, and changes within the 8s clip.
-   - **CAMERA & CINEMATOGRAPHY**: Specify camera movement (e.g., "Slow tracking shot", "Drone view", "Static camera with subtle subject motion", "Rack focus").
-   - **CHARACTER & ACTION**: Describe fluid movements based on the script. Ensure characters appearance is described fully and consistently with the script's era/setting.
-   - **ATMOSPHERE**: Describe how light interacts with motion (e.g., "Dust motes dancing in light", "Hair blowing in wind", "Explosions", "Smoke").`;
-  }
-  
   // Updated System Instruction - REMOVED HARDCODED BIAS
-  const systemInstruction = `You are a professional storyboard artist and script analyst. 
-
-**CORE DIRECTIVE: FULL CONTENT PRESERVATION**
-Your highest priority is to preserve the input script content exactly. Do not summarize, shorten, or rewrite the script text in the "scriptLine" field.
-
-**TASK 1: CONTEXT & LOGIC ANALYSIS (CRITICAL)**
-- **Analyze the Script**: Determine the setting, time period, atmosphere, and characters based STRICTLY on the provided text.
-- **Character Consistency**: Identify the main characters from the text and maintain their visual consistency (Age, Gender, Ethnicity, Clothing) throughout the prompts.
-- **Setting**: Use the location and era described in the script (e.g., WWII Europe, Modern City, Fantasy World). Do NOT hallucinate a specific setting (like Japan/Tatami) unless it is in the script.
-- **Tone**: Adapt the visual tone to match the script (e.g., if the script is action-packed, use dynamic angles; if sad, use moody lighting).
-
-${segmentationInstruction}
-
-**TASK 3: PROMPT GENERATION**
-For each segmented line (Scene), generate a JSON object with:
-1. "scriptLine": The exact segmented text line from the script based on the rules above.
-2. "phase": The narrative phase (e.g., "Introduction", "Climax", "Action", "Dialogue").
-${promptGenerationInstruction}
-
-OUTPUT ONLY A JSON ARRAY.`;
+  const storyBible = options.storyBible && !isStoryBibleEmpty(options.storyBible) ? options.storyBible : null;
+  const instructionContext: AnalysisInstructionContext = {
+      template: options.promptTemplate || DEFAULT_PROMPT_TEMPLATE,
+      promptType,
+      segmentationMode,
+      styleLock,
+      aspectRatio,
+      enableAspectRatio,
+      dialect: resolveGenerator(render.generator, promptType),
+      durationSeconds: render.durationSeconds,
+      variantCount,
+      storyBible,
+  };
+  const buildSystemInstruction = (sceneCount: number, chunkInfo?: { index: number; total: number }, presegmented: boolean = false) =>
+      buildAnalysisInstruction(instructionContext, sceneCount, chunkInfo, presegmented);
 
   // --- CONSTRUCT MULTIMODAL CONTENT ---
-  const parts: any[] = [];
+  const imageParts: LLMPart[] = [];
   
   // 1. Add Reference Images
   if (referenceImages && referenceImages.length > 0) {
       referenceImages.forEach(img => {
-          parts.push({
+          imageParts.push({
               inlineData: {
                   mimeType: img.mimeType,
                   data: img.base64
@@ -306,12 +585,9 @@ OUTPUT ONLY A JSON ARRAY.`;
           });
       });
       // Add a text cue for the images
-      parts.push({ text: "REFER TO THE ABOVE IMAGES FOR VISUAL STYLE (Color, Lighting, Texture)." });
+      imageParts.push({ text: "REFER TO THE ABOVE IMAGES FOR VISUAL STYLE (Color, Lighting, Texture)." });
   }
 
-  // 2. Add The Script
-  parts.push({ text: script });
-
   // Define Schema based on prompt type
   const schemaProperties: any = {
       scriptLine: { type: Type.STRING },
@@ -326,139 +602,722 @@ OUTPUT ONLY A JSON ARRAY.`;
       schemaProperties.videoPrompt = { type: Type.STRING };
       requiredFields.push("videoPrompt");
   }
+  schemaProperties.shot = shotSchema;
+  requiredFields.push("shot");
 
-  const attemptGeneration = async (keyToUse: string, overrideModel?: string) => {
-    const ai = new GoogleGenAI({ apiKey: keyToUse });
-    const response = await ai.models.generateContent({
-      model: overrideModel || modelName, // Use selected model or override
-      contents: { parts }, // Send both images and text
-      config: {
-        systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: {
-            type: Type.ARRAY,
-            items: {
-                type: Type.OBJECT,
-                properties: schemaProperties,
-                required: requiredFields
-            }
-        }
+  const variantSchemaProperties: any = variantCount > 1 ? { promptVariants: { type: Type.ARRAY, items: { type: Type.STRING } } } : {};
+  const variantRequiredFields = variantCount > 1 ? ["promptVariants"] : [];
+  Object.assign(schemaProperties, variantSchemaProperties);
+  requiredFields.push(...variantRequiredFields);
+
+  const sceneArraySchema = {
+      type: Type.ARRAY,
+      items: {
+          type: Type.OBJECT,
+          properties: schemaProperties,
+          required: requiredFields
       }
-    });
+  };
 
-    const text = response.text;
-    if (!text) throw new Error("AI không phản hồi kịch bản.");
-    
-    return JSON.parse(text.trim());
+  const chain = buildProviderChain(providerPriority, {
+      geminiKey: apiKey,
+      geminiKeyPool: options.keyPool,
+      geminiModel: modelName,
+      backupGeminiModel: "gemini-2.5-flash",
+      openAI: openAIConfig
+  });
+
+  // Cộng dồn token của mọi request thành công trong lần chạy này
+  let usage = createEmptyRunUsage();
+  const recordUsage = (generation: Awaited<ReturnType<typeof generateWithProviders>>) => {
+      if (!generation.usage) return;
+      usage = addUsage(usage, { ...generation.usage, provider: generation.provider, model: generation.model, keyId: generation.keyId });
+  };
+
+  // Các bước sửa phản hồi (JSON lỗi, cảnh bị loại, phần thiếu được yêu cầu lại) để báo cho người dùng
+  const repairs: RepairEntry[] = [];
+  const recordRepairs = (entries: RepairEntry[], partLabel?: string) => {
+      repairs.push(...entries.map(entry => partLabel ? { ...entry, detail: `${partLabel}: ${entry.detail}` } : entry));
   };
 
-  const attemptKey4UGeneration = async (key: string) => {
-      const messages: any[] = [
-          { role: 'system', content: systemInstruction }
-      ];
-
-      const userContent: any[] = [];
-      if (referenceImages && referenceImages.length > 0) {
-          referenceImages.forEach(img => {
-              userContent.push({
-                  type: "image_url",
-                  image_url: {
-                      url: `data:${img.mimeType};base64,${img.base64}`
-                  }
-              });
+  const uniqueOf = (values: string[]) => Array.from(new Set(values)).join(", ");
+
+  // Hoàn thiện kết quả: gom các phương án prompt, chèn mô tả Story Bible vào prompt chính và mọi phương án,
+  // rồi định dạng prompt chính cho công cụ đích (các phương án giữ dạng trung tính)
+  const finalizeScenes = <R extends { scenes: any[] }>(result: R): R => ({
+      ...result,
+      scenes: result.scenes.map(rawScene => {
+          const shot = normalizeShotDetails(rawScene.shot);
+          if (options.wordsPerMinute) {
+              shot.durationSeconds = Math.round(estimateNarrationSeconds(rawScene.scriptLine || "", options.wordsPerMinute) * 10) / 10;
+          }
+          const scene = { ...normalizePromptVariants(rawScene, promptField, variantCount), shot };
+          if (!storyBible) return applyRenderSettings(scene, promptField, render);
+          const inject = (prompt: string) => injectStoryBible(prompt, scene.scriptLine || "", storyBible);
+          return applyRenderSettings({
+              ...scene,
+              [promptField]: inject(scene[promptField] || ""),
+              ...(scene.promptVariants ? { promptVariants: scene.promptVariants.map(inject) } : {})
+          }, promptField, render);
+      })
+  });
+
+  // --- LOCAL SEGMENTATION: danh sách cảnh cố định, AI chỉ tạo phase + prompt ---
+  // `reportProgress` = false khi chỉ tạo lại prompt cho vài cảnh (không ghi đè storyboard đang hiển thị)
+  // `retryMissing`: cảnh không nhận được prompt hợp lệ (bị loại / phản hồi bị cắt) được yêu cầu lại một lần
+  const generatePromptsForSegments = async (
+      segmentedScenes: { sceneIndex: number; scriptLine: string }[],
+      reportProgress: boolean = true,
+      retryMissing: boolean = true
+  ): Promise<{ scenes: any[]; provider: string; model: string; usage: RunUsage; repairs: RepairEntry[] }> => {
+      const onScenes = reportProgress ? options.onScenes : undefined;
+      const onChunkProgress = reportProgress ? options.onChunkProgress : undefined;
+      const promptItemSchema = {
+          type: Type.ARRAY,
+          items: {
+              type: Type.OBJECT,
+              properties: {
+                  sceneIndex: { type: Type.INTEGER },
+                  phase: { type: Type.STRING },
+                  [promptField]: { type: Type.STRING },
+                  shot: shotSchema,
+                  ...variantSchemaProperties
+              },
+              required: ["sceneIndex", "phase", promptField, "shot", ...variantRequiredFields]
+          }
+      };
+
+      // Ghép prompt vào đúng cảnh theo sceneIndex (không có sceneIndex hợp lệ => theo thứ tự)
+      const mergePrompts = (batch: typeof segmentedScenes, items: any[]) => {
+          const byIndex = new Map<number, any>();
+          items.forEach((item, position) => {
+              const index = Number(item?.sceneIndex);
+              byIndex.set(batch.some(s => s.sceneIndex === index) ? index : batch[position]?.sceneIndex, item);
           });
-          userContent.push({ type: "text", text: "REFER TO THE ABOVE IMAGES FOR VISUAL STYLE (Color, Lighting, Texture)." });
-      }
-      userContent.push({ type: "text", text: script });
-
-      messages.push({ role: 'user', content: userContent });
-
-      const response = await fetch('https://api.key4u.shop/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${key}`
-          },
-          body: JSON.stringify({
-              model: 'gpt-4o-mini',
-              messages: messages,
-              temperature: 0.7
-          })
+          return batch.map(scene => {
+              const item = byIndex.get(scene.sceneIndex) || {};
+              return {
+                  scriptLine: scene.scriptLine,
+                  phase: String(item.phase || ""),
+                  [promptField]: String(item[promptField] || ""),
+                  ...(item.shot ? { shot: item.shot } : {}),
+                  ...(Array.isArray(item.promptVariants) ? { promptVariants: item.promptVariants } : {})
+              };
+          });
+      };
+      const mergeStreamed = (batch: typeof segmentedScenes, items: any[]) =>
+          mergePrompts(batch, items).slice(0, Math.min(items.length, batch.length));
+      const parseItems = (text: string, batch: typeof segmentedScenes, wrapperKey?: string) => {
+          const parsed = parseSceneResponse(text, { promptField, requireScriptLine: false, wrapperKey });
+          return { scenes: mergePrompts(batch, parsed.items), root: parsed.root, entries: parsed.entries };
+      };
+      const hasPrompt = (scene: any) => String(scene[promptField] || "").trim() !== "";
+      const retryMissingPrompts = async (result: { scenes: any[]; provider: string; model: string }) => {
+          const missing = result.scenes.map((scene, position) => ({ scene, position })).filter(({ scene }) => !hasPrompt(scene));
+          if (retryMissing && missing.length > 0) {
+              recordRepairs([{ action: 'tail_requested', detail: `Yêu cầu lại prompt cho ${missing.length} cảnh còn thiếu.` }]);
+              try {
+                  const retried = await generatePromptsForSegments(missing.map(({ position }) => segmentedScenes[position]), false, false);
+                  missing.forEach(({ position }, i) => {
+                      if (retried.scenes[i] && hasPrompt(retried.scenes[i])) result.scenes[position] = retried.scenes[i];
+                  });
+              } catch (error) {
+                  if (isAbortError(error)) throw error;
+                  console.warn("Không thể yêu cầu lại các cảnh còn thiếu:", error);
+              }
+          }
+          const stillMissing = segmentedScenes.filter((_, position) => !hasPrompt(result.scenes[position]));
+          if (retryMissing && stillMissing.length > 0) {
+              recordRepairs([{ action: 'still_missing', detail: `${stillMissing.length} cảnh chưa có prompt (cảnh ${stillMissing.map(s => s.sceneIndex).join(', ')}).` }]);
+          }
+          return { ...result, usage, repairs };
+      };
+      const buildMockItems = (batch: typeof segmentedScenes) => batch.map(scene => {
+          const prompt = `${styleLock} ${scene.scriptLine}`.trim();
+          return {
+              sceneIndex: scene.sceneIndex,
+              phase: `Mock ${scene.sceneIndex}`,
+              [promptField]: prompt,
+              shot: buildMockShot(scene.scriptLine, promptType),
+              ...buildMockVariants(prompt, variantCount)
+          };
       });
 
-      if (!response.ok) {
-          const errText = await response.text();
-          throw new Error(`Key4U API Error: ${response.status} - ${errText}`);
+      const batches = options.chunking === false ? [segmentedScenes] : batchSegments(segmentedScenes, options.maxChunkChars || DEFAULT_CHUNK_CHARS);
+
+      if (batches.length <= 1) {
+          const parser = new IncrementalJsonArrayParser();
+          const generation = await generateWithProviders(chain, {
+              systemInstruction: buildSystemInstruction(segmentedScenes.length, undefined, true),
+              parts: [...imageParts, { text: JSON.stringify(segmentedScenes) }],
+              responseSchema: promptItemSchema,
+              mockResponse: JSON.stringify(buildMockItems(segmentedScenes)),
+              signal: options.signal,
+          }, (text) => parseItems(text, segmentedScenes), onScenes && ((text) => onScenes(mergeStreamed(segmentedScenes, parser.push(text)))));
+          recordUsage(generation);
+          recordRepairs(generation.result.entries);
+          return retryMissingPrompts({ scenes: generation.result.scenes, provider: generation.provider, model: generation.model });
       }
 
-      const data = await response.json();
-      let text = data.choices[0].message.content;
-      text = text.replace(/```json/g, '').replace(/```/g, '').trim();
-      return JSON.parse(text);
+      let completedBatches = 0;
+      const streamedByBatch: any[][] = batches.map(() => []);
+      const emitStreamedScenes = () => onScenes?.(streamedByBatch.flat());
+
+      const processBatch = async (index: number, continuitySummary: string, signal: AbortSignal | undefined = options.signal) => {
+          throwIfAborted(signal);
+          const batch = batches[index];
+          const contextParts: LLMPart[] = [];
+          if (continuitySummary) {
+              contextParts.push({ text: `CONTINUITY CONTEXT (summary of previous parts, reference only):\n${continuitySummary}` });
+          }
+          if (index > 0) {
+              contextParts.push({ text: `PREVIOUS TEXT (reference only):\n${getTailExcerpt(batches[index - 1].map(s => s.scriptLine).join(' '))}` });
+          }
+
+          const parser = new IncrementalJsonArrayParser("scenes");
+          const generation = await generateWithProviders(chain, {
+              systemInstruction: buildSystemInstruction(batch.length, { index, total: batches.length }, true),
+              parts: [...imageParts, ...contextParts, { text: `SCENES PART ${index + 1}/${batches.length}:` }, { text: JSON.stringify(batch) }],
+              responseSchema: {
+                  type: Type.OBJECT,
+                  properties: {
+                      scenes: promptItemSchema,
+                      continuitySummary: { type: Type.STRING }
+                  },
+                  required: ["scenes", "continuitySummary"]
+              },
+              mockResponse: JSON.stringify({
+                  scenes: buildMockItems(batch),
+                  continuitySummary: `Mock summary (part ${index + 1})`
+              }),
+              signal,
+          }, (text) => {
+              const parsed = parseItems(text, batch, "scenes");
+              return { scenes: parsed.scenes, continuitySummary: String(parsed.root?.continuitySummary || continuitySummary), entries: parsed.entries };
+          }, onScenes && ((text) => {
+              streamedByBatch[index] = mergeStreamed(batch, parser.push(text));
+              emitStreamedScenes();
+          }));
+          recordUsage(generation);
+          recordRepairs(generation.result.entries, `Phần ${index + 1}`);
+
+          streamedByBatch[index] = generation.result.scenes;
+          emitStreamedScenes();
+          completedBatches++;
+          onChunkProgress?.(completedBatches, batches.length);
+          return { scenes: generation.result.scenes, summary: generation.result.continuitySummary, provider: generation.provider, model: generation.model };
+      };
+
+      const results = await runChunkPipeline(batches.length, options, processBatch);
+      return retryMissingPrompts({
+          scenes: results.flatMap(r => r.scenes),
+          provider: uniqueOf(results.map(r => r.provider)),
+          model: uniqueOf(results.map(r => r.model))
+      });
   };
 
-  let finalScenes: any[] | null = null;
-  let usedProvider = "";
-  let usedModel = "";
+  // AI tự phân cảnh nhưng phản hồi bị cắt: chỉ yêu cầu lại phần cuối của đoạn kịch bản chưa có cảnh nào
+  const requestUncoveredTail = async (sourceText: string, scenes: any[], sceneCount: number, partLabel?: string, signal: AbortSignal | undefined = options.signal): Promise<any[]> => {
+      const tail = findUncoveredTail(sourceText, scenes);
+      if (!tail) return [];
+      const tailWords = countWords(tail);
+      recordRepairs([{ action: 'tail_requested', detail: `Yêu cầu lại ${tailWords} từ cuối chưa có cảnh.` }], partLabel);
+      try {
+          const generation = await generateWithProviders(chain, {
+              systemInstruction: buildSystemInstruction(Math.max(1, sceneCount)),
+              parts: [...imageParts, { text: tail }],
+              responseSchema: sceneArraySchema,
+              mockResponse: JSON.stringify(buildMockScenes(tail, styleLock, promptType, variantCount)),
+              signal,
+          }, (text) => parseSceneResponse(text, { promptField, requireScriptLine: true }));
+          recordUsage(generation);
+          recordRepairs(generation.result.entries, partLabel);
+          return generation.result.items;
+      } catch (error) {
+          if (isAbortError(error)) throw error;
+          console.warn("Không thể yêu cầu lại phần cuối kịch bản:", error);
+          recordRepairs([{ action: 'still_missing', detail: `Phần cuối (${tailWords} từ) chưa có cảnh: "${tail.substring(0, 80)}${tail.length > 80 ? '...' : ''}"` }], partLabel);
+          return [];
+      }
+  };
 
-  try {
-    if (key4uKey) {
-        try {
-            finalScenes = await attemptKey4UGeneration(key4uKey);
-            usedProvider = "Key4U";
-            usedModel = "gpt-4o-mini";
-            console.log("Successfully used Key4U API");
-        } catch (error) {
-            console.warn("Key4U API failed, falling back to Gemini...", error);
-        }
-    }
+  // Tạo lại prompt cho các cảnh bị gộp/tách khi sửa số cảnh, có lỗi thì giữ prompt cũ
+  const refreshAdjustedPrompts = async (scenes: any[]): Promise<any[]> => {
+      const adjusted = scenes
+          .map((scene, index) => ({ scene, index }))
+          .filter(({ scene }) => scene.needsPrompt);
+      const cleaned = scenes.map(({ needsPrompt, ...scene }) => scene);
+      if (adjusted.length === 0) return cleaned;
 
-    if (!finalScenes && apiKey) {
       try {
-        finalScenes = await attemptGeneration(apiKey);
-        usedProvider = "Gemini (User Key)";
-        usedModel = modelName;
+          const refreshed = await generatePromptsForSegments(adjusted.map(({ scene, index }) => ({
+              sceneIndex: index + 1,
+              scriptLine: scene.scriptLine
+          })), false);
+          adjusted.forEach(({ index }, position) => {
+              const prompt = refreshed.scenes[position];
+              if (prompt) cleaned[index] = { ...cleaned[index], ...prompt, scriptLine: cleaned[index].scriptLine };
+          });
       } catch (error) {
-        console.warn("User API key failed, falling back to default keys...", error);
+          if (isAbortError(error)) throw error;
+          console.warn("Không thể tạo lại prompt cho các cảnh đã gộp/tách:", error);
       }
+      return cleaned;
+  };
+
+  const cueGroups = options.subtitleCues && options.subtitleCues.length > 0
+      ? segmentCues(options.subtitleCues, segmentationMode, targetSceneCount)
+      : null;
+
+  const localSegments = !cueGroups && segmentationMode !== 'ai' && options.localSegmentation !== false
+      ? segmentScript(script, segmentationMode, targetSceneCount)
+      : null;
+  if (localSegments && localSegments.length === 0) {
+      throw new Error("Kịch bản trống, không có câu nào để phân cảnh.");
+  }
+
+  // Fixed mode: không tạo nhiều chunk hơn số cảnh mục tiêu
+  const chunks = options.chunking === false
+      ? [script]
+      : splitScriptIntoChunks(script, options.maxChunkChars || DEFAULT_CHUNK_CHARS, segmentationMode === 'fixed' ? targetSceneCount : undefined);
+
+  try {
+    if (cueGroups) {
+        const result = finalizeScenes(await generatePromptsForSegments(cueGroups.map((group, index) => ({
+            sceneIndex: index + 1,
+            scriptLine: group.text
+        }))));
+        return { ...result, scenes: result.scenes.map((scene, index) => withCueTiming(scene, cueGroups[index])) };
     }
-    
-    if (!finalScenes) {
-        for (const fallbackKey of FALLBACK_API_KEYS) {
-            try {
-                finalScenes = await attemptGeneration(fallbackKey, "gemini-2.5-flash");
-                usedProvider = "Gemini (System Backup)";
-                usedModel = "gemini-2.5-flash";
-                break;
-            } catch (fallbackError) {
-                console.warn("A fallback key failed, trying next...", fallbackError);
-            }
-        }
+
+    if (localSegments) {
+        return finalizeScenes(await generatePromptsForSegments(localSegments.map((segment, index) => ({
+            sceneIndex: index + 1,
+            scriptLine: segmentText(script, segment)
+        }))));
     }
 
-    if (!finalScenes) {
-        try {
-            finalScenes = await attemptKey4UGeneration(FALLBACK_KEY4U_KEY);
-            usedProvider = "Key4U (System Backup)";
-            usedModel = "gpt-4o-mini";
-            console.log("Successfully used Fallback Key4U API");
-        } catch (fallbackError) {
-            console.warn("Fallback Key4U API failed...", fallbackError);
+    // --- SINGLE REQUEST (kịch bản ngắn) ---
+    if (chunks.length <= 1) {
+        const parser = new IncrementalJsonArrayParser();
+        const generation = await generateWithProviders(chain, {
+            systemInstruction: buildSystemInstruction(targetSceneCount),
+            parts: [...imageParts, { text: script }],
+            responseSchema: sceneArraySchema,
+            mockResponse: JSON.stringify(buildMockScenes(script, styleLock, promptType, variantCount)),
+            signal: options.signal,
+        }, (text) => parseSceneResponse(text, { promptField, requireScriptLine: true }), options.onScenes && ((text) => options.onScenes!([...parser.push(text)])));
+        recordUsage(generation);
+        recordRepairs(generation.result.entries);
+
+        let finalScenes: any[] = generation.result.items;
+        if (generation.result.truncated) {
+            const remaining = segmentationMode === 'fixed' ? targetSceneCount - finalScenes.length : targetSceneCount;
+            finalScenes = [...finalScenes, ...await requestUncoveredTail(script, finalScenes, remaining)];
         }
+
+        // Post-processing to strictly enforce fixed scene count
+        if (segmentationMode === 'fixed' && finalScenes.length !== targetSceneCount) {
+            finalScenes = await refreshAdjustedPrompts(adjustSceneCount(finalScenes, targetSceneCount));
+        }
+
+        return finalizeScenes({ scenes: finalScenes, provider: generation.provider, model: generation.model, usage, repairs });
     }
-    
-    if (!finalScenes) {
-        throw new Error("Tất cả API keys (bao gồm dự phòng) đều lỗi hoặc hết hạn mức.");
-    }
 
-    // Post-processing to strictly enforce fixed scene count
+    // --- CHUNKED PIPELINE (kịch bản dài) ---
+    const chunkTargets = distributeSceneCount(chunks, targetSceneCount);
+    let completedChunks = 0;
+
+    // Cảnh tạm thời của từng chunk, ghép theo thứ tự để hiển thị dần
+    const streamedByChunk: any[][] = chunks.map(() => []);
+    const emitStreamedScenes = () => options.onScenes?.(streamedByChunk.flat());
+
+    const processChunk = async (index: number, continuitySummary: string, signal: AbortSignal | undefined = options.signal) => {
+        throwIfAborted(signal);
+        const contextParts: LLMPart[] = [];
+        if (continuitySummary) {
+            contextParts.push({ text: `CONTINUITY CONTEXT (summary of previous parts, reference only):\n${continuitySummary}` });
+        }
+        if (index > 0) {
+            contextParts.push({ text: `PREVIOUS TEXT (reference only, do NOT include in scriptLine):\n${getTailExcerpt(chunks[index - 1])}` });
+        }
+
+        const parser = new IncrementalJsonArrayParser("scenes");
+        const generation = await generateWithProviders(chain, {
+            systemInstruction: buildSystemInstruction(chunkTargets[index], { index, total: chunks.length }),
+            parts: [...imageParts, ...contextParts, { text: `SCRIPT PART ${index + 1}/${chunks.length}:` }, { text: chunks[index] }],
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: {
+                    scenes: sceneArraySchema,
+                    continuitySummary: { type: Type.STRING }
+                },
+                required: ["scenes", "continuitySummary"]
+            },
+            mockResponse: JSON.stringify({
+                scenes: buildMockScenes(chunks[index], styleLock, promptType, variantCount),
+                continuitySummary: `Mock summary (part ${index + 1})`
+            }),
+            signal,
+        }, (text) => {
+            // Một số model OpenAI-compatible bỏ qua wrapper và trả về mảng
+            const parsed = parseSceneResponse(text, { promptField, requireScriptLine: true, wrapperKey: "scenes" });
+            return { ...parsed, continuitySummary: String(parsed.root?.continuitySummary || continuitySummary) };
+        }, options.onScenes && ((text) => {
+            streamedByChunk[index] = [...parser.push(text)];
+            emitStreamedScenes();
+        }));
+        recordUsage(generation);
+        recordRepairs(generation.result.entries, `Phần ${index + 1}`);
+
+        let chunkScenes = generation.result.items;
+        if (generation.result.truncated) {
+            const remaining = segmentationMode === 'fixed' ? chunkTargets[index] - chunkScenes.length : chunkTargets[index];
+            chunkScenes = [...chunkScenes, ...await requestUncoveredTail(chunks[index], chunkScenes, remaining, `Phần ${index + 1}`, signal)];
+        }
+        if (segmentationMode === 'fixed' && chunkScenes.length !== chunkTargets[index]) {
+            chunkScenes = adjustSceneCount(chunkScenes, chunkTargets[index]);
+        }
+
+        streamedByChunk[index] = chunkScenes;
+        emitStreamedScenes();
+        completedChunks++;
+        options.onChunkProgress?.(completedChunks, chunks.length);
+        return { scenes: chunkScenes, summary: generation.result.continuitySummary, provider: generation.provider, model: generation.model };
+    };
+
+    const results = await runChunkPipeline(chunks.length, options, processChunk);
+
+    let finalScenes = results.flatMap(r => r.scenes);
     if (segmentationMode === 'fixed' && finalScenes.length !== targetSceneCount) {
         finalScenes = adjustSceneCount(finalScenes, targetSceneCount);
     }
+    // Các chunk đã được sửa số cảnh riêng => tạo lại prompt một lần cho mọi cảnh bị gộp/tách
+    finalScenes = await refreshAdjustedPrompts(finalScenes);
 
-    return { scenes: finalScenes, provider: usedProvider, model: usedModel };
+    return finalizeScenes({
+        scenes: finalScenes,
+        provider: uniqueOf(results.map(r => r.provider)),
+        model: uniqueOf(results.map(r => r.model)),
+        usage,
+        repairs
+    });
   } catch (error: any) {
+    if (isAbortError(error)) throw error;
     console.error("AI Analysis Error:", error);
     throw new Error(`Không thể phân tích kịch bản. Lỗi: ${error.message || error}`);
   }
 };
+
+// --- SINGLE SCENE REWRITE ---
+export type SceneRewriteAction = 'regenerate' | 'refine' | 'switch';
+
+export interface SceneContext {
+    scriptLine: string;
+    phase?: string;
+    imagePrompt?: string;
+    videoPrompt?: string;
+    basePrompt?: string;
+}
+
+export interface SceneRewriteRequest {
+    action: SceneRewriteAction;
+    scene: SceneContext;
+    // Các cảnh liền trước / liền sau, giúp giữ mạch hình ảnh và nhân vật
+    previousScenes: SceneContext[];
+    nextScenes: SceneContext[];
+    // Yêu cầu chỉnh sửa của người dùng (action 'refine'), ví dụ: "cận cảnh", "ban đêm"
+    instruction?: string;
+    styleLock: string;
+    referenceImages: { base64: string; mimeType: string }[];
+    // Loại prompt đầu ra ('switch' = loại còn lại so với prompt hiện tại)
+    promptType: 'image' | 'video';
+    aspectRatio: string;
+    enableAspectRatio: boolean;
+    storyBible?: StoryBible;
+    targetGenerator?: TargetGenerator;
+    negativePrompt?: string;
+    durationSeconds?: number;
+    // Mẫu prompt của storyboard (phần prompt ảnh/video)
+    promptTemplate?: PromptTemplate;
+}
+
+// Tạo lại / chỉnh sửa / đổi loại prompt của đúng một cảnh, không động tới các cảnh khác
+export const rewriteScenePrompt = async (
+    request: SceneRewriteRequest,
+    apiKey: string,
+    modelName: string = "gemini-2.5-flash",
+    openAIConfig?: OpenAICompatibleConfig,
+    providerPriority: ProviderSlot[] = DEFAULT_PROVIDER_PRIORITY,
+    options: { signal?: AbortSignal; keyPool?: KeyPool } = {}
+): Promise<{ phase: string; prompt: string; basePrompt: string; negativePrompt?: string; render: PromptRenderSettings; shot: ShotDetails; provider: string; model: string; usage: RunUsage }> => {
+  const { scene, promptType } = request;
+  const promptField = promptType === 'image' ? 'imagePrompt' : 'videoPrompt';
+  const contextPrompt = (s: SceneContext) => s.basePrompt || s.videoPrompt || s.imagePrompt || "";
+  const currentPrompt = contextPrompt(scene);
+  const render = buildRenderSettings(promptType, request.styleLock, request.aspectRatio, request.enableAspectRatio, request);
+  const storyBible = request.storyBible && !isStoryBibleEmpty(request.storyBible) ? request.storyBible : null;
+
+  let taskInstruction = "";
+  if (request.action === 'refine') {
+      taskInstruction = `Apply the USER INSTRUCTION to the CURRENT PROMPT of the TARGET SCENE. Change only what the instruction asks for; keep the subject, characters, setting and style of the current prompt.`;
+  } else if (request.action === 'switch') {
+      taskInstruction = `Convert the CURRENT PROMPT of the TARGET SCENE into a ${promptType === 'video' ? 'video prompt (describe motion, camera movement and how the shot evolves)' : 'static image prompt (a single frozen moment, no camera movement)'}. Keep the same subject, characters, setting and style.`;
+  } else {
+      taskInstruction = `Write a completely new prompt for the TARGET SCENE. Do not reuse the wording of the CURRENT PROMPT.`;
+  }
+
+  const systemInstruction = `You are a professional storyboard artist. You are revising the prompt of ONE scene inside an existing storyboard.
+
+**TASK**
+${taskInstruction}
+- Use the PREVIOUS SCENES and NEXT SCENES only as context: keep characters, setting, era and visual continuity consistent with them. Do NOT describe their content.
+- The "scriptLine" of the target scene must NOT be changed or returned.
+
+${buildStoryBibleInstruction(storyBible)}**OUTPUT FIELDS**
+1. "phase": The narrative phase of the target scene (e.g., "Introduction", "Climax", "Action", "Dialogue").
+2. Do NOT return "scriptLine".
+${buildPromptGenerationInstruction(promptType, request.styleLock, request.aspectRatio, request.enableAspectRatio, resolveGenerator(render.generator, promptType), render.durationSeconds, request.promptTemplate)}${buildShotInstruction(promptType)}
+
+OUTPUT ONLY A JSON OBJECT: { "phase": "...", "${promptField}": "...", "shot": { ... } }.`;
+
+  const describeScenes = (scenes: SceneContext[]) => scenes.length === 0
+      ? "(none)"
+      : scenes.map(s => `- "${s.scriptLine}" => ${contextPrompt(s)}`).join('\n');
+
+  const parts: LLMPart[] = request.referenceImages.map(img => ({ inlineData: { mimeType: img.mimeType, data: img.base64 } }));
+  if (parts.length > 0) {
+      parts.push({ text: "REFER TO THE ABOVE IMAGES FOR VISUAL STYLE (Color, Lighting, Texture)." });
+  }
+  parts.push({ text: `PREVIOUS SCENES:\n${describeScenes(request.previousScenes)}` });
+  parts.push({ text: `NEXT SCENES:\n${describeScenes(request.nextScenes)}` });
+  parts.push({ text: `TARGET SCENE:\nscriptLine: "${scene.scriptLine}"\nphase: ${scene.phase || ""}\nCURRENT PROMPT: ${currentPrompt}` });
+  if (request.action === 'refine' && request.instruction) {
+      parts.push({ text: `USER INSTRUCTION: ${request.instruction}` });
+  }
+
+  const chain = buildProviderChain(providerPriority, {
+      geminiKey: apiKey,
+      geminiKeyPool: options.keyPool,
+      geminiModel: modelName,
+      backupGeminiModel: "gemini-2.5-flash",
+      openAI: openAIConfig
+  });
+
+  try {
+    const generation = await generateWithProviders(chain, {
+        systemInstruction,
+        parts,
+        responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+                phase: { type: Type.STRING },
+                [promptField]: { type: Type.STRING },
+                shot: shotSchema
+            },
+            required: ["phase", promptField, "shot"]
+        },
+        mockResponse: JSON.stringify({
+            phase: scene.phase || "Mock",
+            [promptField]: `${request.styleLock} ${scene.scriptLine}${request.instruction ? ` (${request.instruction})` : ""}`.trim(),
+            shot: buildMockShot(scene.scriptLine, promptType)
+        }),
+        signal: options.signal,
+    }, (text) => {
+        const parsed = parseJsonTolerant(text).value;
+        const prompt = String(parsed?.[promptField] || "").trim();
+        if (!prompt) throw new Error(`Thiếu trường ${promptField} trong phản hồi.`);
+        return { phase: String(parsed.phase || scene.phase || ""), prompt, shot: normalizeShotDetails(parsed.shot) };
+    });
+
+    const usage = toRunUsage(generation);
+    const basePrompt = storyBible ? injectStoryBible(generation.result.prompt, scene.scriptLine, storyBible) : generation.result.prompt;
+    const rendered = renderPrompt(basePrompt, render);
+    return {
+        phase: generation.result.phase,
+        prompt: rendered.prompt,
+        basePrompt,
+        negativePrompt: rendered.negativePrompt,
+        render,
+        shot: generation.result.shot,
+        provider: generation.provider,
+        model: generation.model,
+        usage
+    };
+  } catch (error: any) {
+    if (isAbortError(error)) throw error;
+    console.error("Scene Rewrite Error:", error);
+    throw new Error(`Không thể tạo lại prompt cho cảnh này. Lỗi: ${error.message || error}`);
+  }
+};
+
+// --- MULTI-CLIP VIDEO SCENES ---
+export interface SceneClipRequest {
+    scene: SceneContext;
+    // Thời lượng của cả cảnh (giây), được chia thành nhiều clip theo giới hạn của công cụ đích
+    durationSeconds: number;
+    // Cảnh liền trước: clip đầu tiên nối tiếp từ đó
+    previousScene?: SceneContext;
+    styleLock: string;
+    referenceImages: { base64: string; mimeType: string }[];
+    aspectRatio: string;
+    enableAspectRatio: boolean;
+    storyBible?: StoryBible;
+    targetGenerator?: TargetGenerator;
+    negativePrompt?: string;
+    promptTemplate?: PromptTemplate;
+}
+
+// Tách một cảnh video dài thành các clip liên tiếp, mỗi clip bắt đầu từ khung hình cuối của clip trước
+export const generateSceneClips = async (
+    request: SceneClipRequest,
+    apiKey: string,
+    modelName: string = "gemini-2.5-flash",
+    openAIConfig?: OpenAICompatibleConfig,
+    providerPriority: ProviderSlot[] = DEFAULT_PROVIDER_PRIORITY,
+    options: { signal?: AbortSignal; keyPool?: KeyPool } = {}
+): Promise<{ clips: VideoClip[]; provider: string; model: string; usage: RunUsage }> => {
+  const { scene } = request;
+  const render = buildRenderSettings('video', request.styleLock, request.aspectRatio, request.enableAspectRatio, request);
+  const dialect = resolveGenerator(render.generator, 'video');
+  const durations = planClipDurations(request.durationSeconds, dialect);
+  if (durations.length === 0) {
+      throw new Error(`Cảnh dài ${request.durationSeconds}s, vừa một clip ${dialect.label} (tối đa ${getClipLimit(dialect)}s).`);
+  }
+  const storyBible = request.storyBible && !isStoryBibleEmpty(request.storyBible) ? request.storyBible : null;
+  const contextPrompt = (s: SceneContext) => s.basePrompt || s.videoPrompt || s.imagePrompt || "";
+
+  const systemInstruction = `You are a professional video director. ONE storyboard scene is longer than a single ${dialect.label} clip (max ${getClipLimit(dialect)} seconds), so it must be split into ${durations.length} consecutive clips that play back-to-back as one continuous sequence.
+
+**TASK**
+- Split the action of the TARGET SCENE into exactly ${durations.length} beats in chronological order, one beat per clip. Clip durations in seconds: ${durations.join(', ')}.
+- Each clip is ONE continuous shot with continuous motion: no cuts, no scene changes inside a clip.
+- **HANDOFF**: Clip 1 starts where the TARGET SCENE starts (continuing from the end of the PREVIOUS SCENE, if given). Every following clip must begin EXACTLY from the "endState" of the clip before it (same subject position and pose, same camera position, same lighting) and then continue the motion.
+- Keep characters, setting, style and camera language consistent across all clips. Use the CURRENT PROMPT of the scene as the visual reference.
+
+${buildStoryBibleInstruction(storyBible)}**OUTPUT FIELDS** (for every clip, in order)
+1. "clipIndex": 1-based position of the clip.
+2. "endState": One short English sentence describing the final frame of the clip (subject position, pose, camera framing). The next clip starts from it.
+${buildPromptGenerationInstruction('video', request.styleLock, request.aspectRatio, request.enableAspectRatio, dialect, durations[0], request.promptTemplate)}
+
+OUTPUT ONLY A JSON OBJECT: { "clips": [ { "clipIndex": 1, "endState": "...", "videoPrompt": "..." }, ... ] }.`;
+
+  const parts: LLMPart[] = request.referenceImages.map(img => ({ inlineData: { mimeType: img.mimeType, data: img.base64 } }));
+  if (parts.length > 0) {
+      parts.push({ text: "REFER TO THE ABOVE IMAGES FOR VISUAL STYLE (Color, Lighting, Texture)." });
+  }
+  if (request.previousScene) {
+      parts.push({ text: `PREVIOUS SCENE:\n- "${request.previousScene.scriptLine}" => ${contextPrompt(request.previousScene)}` });
+  }
+  parts.push({ text: `TARGET SCENE:\nscriptLine: "${scene.scriptLine}"\nphase: ${scene.phase || ""}\nCURRENT PROMPT: ${contextPrompt(scene)}` });
+
+  const chain = buildProviderChain(providerPriority, {
+      geminiKey: apiKey,
+      geminiKeyPool: options.keyPool,
+      geminiModel: modelName,
+      backupGeminiModel: "gemini-2.5-flash",
+      openAI: openAIConfig
+  });
+
+  try {
+    const generation = await generateWithProviders(chain, {
+        systemInstruction,
+        parts,
+        responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+                clips: {
+                    type: Type.ARRAY,
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            clipIndex: { type: Type.INTEGER },
+                            endState: { type: Type.STRING },
+                            videoPrompt: { type: Type.STRING }
+                        },
+                        required: ["clipIndex", "endState", "videoPrompt"]
+                    }
+                }
+            },
+            required: ["clips"]
+        },
+        mockResponse: JSON.stringify({
+            clips: durations.map((_, i) => ({
+                clipIndex: i + 1,
+                endState: `End of beat ${i + 1}: ${scene.scriptLine}`.trim(),
+                videoPrompt: `${request.styleLock} ${scene.scriptLine} (clip ${i + 1}/${durations.length}${i > 0 ? ', continuing from the previous clip' : ''})`.trim()
+            }))
+        }),
+        signal: options.signal,
+    }, (text) => {
+        const parsed = parseJsonTolerant(text).value;
+        const items = (Array.isArray(parsed?.clips) ? parsed.clips : [])
+            .filter((item: any) => String(item?.videoPrompt || "").trim())
+            .sort((a: any, b: any) => (Number(a.clipIndex) || 0) - (Number(b.clipIndex) || 0));
+        if (items.length < durations.length) {
+            throw new Error(`Chỉ nhận được ${items.length}/${durations.length} clip.`);
+        }
+        return items.slice(0, durations.length).map((item: any) => ({
+            prompt: String(item.videoPrompt).trim(),
+            endState: String(item.endState || "").trim()
+        }));
+    });
+
+    const clips: VideoClip[] = generation.result.map((item: { prompt: string; endState: string }, i: number) => {
+        const basePrompt = storyBible ? injectStoryBible(item.prompt, scene.scriptLine, storyBible) : item.prompt;
+        const rendered = renderClip(basePrompt, render, durations[i]);
+        return { durationSeconds: durations[i], basePrompt, prompt: rendered.prompt, negativePrompt: rendered.negativePrompt, endState: item.endState };
+    });
+    return { clips, provider: generation.provider, model: generation.model, usage: toRunUsage(generation) };
+  } catch (error: any) {
+    if (isAbortError(error)) throw error;
+    console.error("Scene Clips Error:", error);
+    throw new Error(`Không thể tách cảnh thành nhiều clip. Lỗi: ${error.message || error}`);
+  }
+};
+
+// Tách mọi cảnh dài hơn giới hạn clip của công cụ đích (sau khi tạo storyboard video).
+// Cảnh tách lỗi được giữ nguyên một clip và đếm vào `failed`.
+export const expandLongVideoScenes = async <T extends SceneContext & { shot?: ShotDetails; clips?: VideoClip[] }>(
+    scenes: T[],
+    context: Omit<SceneClipRequest, 'scene' | 'durationSeconds' | 'previousScene'>,
+    apiKey: string,
+    modelName: string = "gemini-2.5-flash",
+    openAIConfig?: OpenAICompatibleConfig,
+    providerPriority: ProviderSlot[] = DEFAULT_PROVIDER_PRIORITY,
+    options: { signal?: AbortSignal; keyPool?: KeyPool; concurrency?: number } = {}
+): Promise<{ scenes: T[]; expanded: number; failed: number; usage: RunUsage }> => {
+  const dialect = resolveGenerator(context.targetGenerator, 'video');
+  const longIndices = scenes
+      .map((scene, index) => ({ index, seconds: scene.shot?.durationSeconds || 0 }))
+      .filter(({ seconds }) => needsClipSplit(seconds, dialect));
+
+  let usage = createEmptyRunUsage();
+  let failed = 0;
+  const results = await runWithConcurrency(longIndices, options.concurrency || 2, async ({ index, seconds }, _, signal) => {
+      throwIfAborted(signal);
+      try {
+          const result = await generateSceneClips({
+              ...context,
+              scene: scenes[index],
+              durationSeconds: seconds,
+              previousScene: scenes[index - 1]
+          }, apiKey, modelName, openAIConfig, providerPriority, { ...options, signal });
+          usage = mergeRunUsage(usage, result.usage);
+          return { index, clips: result.clips };
+      } catch (error) {
+          if (isAbortError(error)) throw error;
+          console.warn(`Không thể tách cảnh ${index + 1} thành nhiều clip:`, error);
+          failed++;
+          return null;
+      }
+  }, options.signal);
+
+  const clipsByIndex = new Map(results.filter(Boolean).map(r => [r!.index, r!.clips]));
+  return {
+      scenes: scenes.map((scene, index) => clipsByIndex.has(index) ? { ...scene, clips: clipsByIndex.get(index) } : scene),
+      expanded: clipsByIndex.size,
+      failed,
+      usage
+  };
+};
@@ -0,0 +1,218 @@
+// --- IMAGE GENERATION ---
+// Tạo ảnh trực tiếp từ imagePrompt của từng cảnh (Gemini Image / Imagen / Mock). Các cảnh chạy qua hàng đợi giới hạn
+// số request song song, mỗi cảnh tự thử lại (xoay key nếu có pool). Ảnh chỉ giữ trong bộ nhớ: quá lớn cho localStorage.
+
+import { GoogleGenAI, Modality } from "@google/genai";
+import JSZip from "jszip";
+import { KeyPool, BASE_RETRY_DELAY_MS, isInvalidKeyError } from "./keyPool";
+import { LLMPart, isAbortError, createAbortError, throwIfAborted, sleep } from "./providers";
+import { runWithConcurrency } from "./chunking";
+
+export type ImageModelId = 'gemini-2.5-flash-image' | 'imagen-4.0-generate-001' | 'imagen-4.0-fast-generate-001' | 'mock';
+
+export interface ImageModelOption {
+    id: ImageModelId;
+    label: string;
+    supportsReferenceImages: boolean;   // Imagen chỉ nhận văn bản
+}
+
+export const IMAGE_MODELS: ImageModelOption[] = [
+    { id: 'gemini-2.5-flash-image', label: 'Nano Banana (Gemini 2.5 Flash Image)', supportsReferenceImages: true },
+    { id: 'imagen-4.0-generate-001', label: 'Imagen 4', supportsReferenceImages: false },
+    { id: 'imagen-4.0-fast-generate-001', label: 'Imagen 4 Fast', supportsReferenceImages: false },
+    { id: 'mock', label: 'Mock (Offline Test)', supportsReferenceImages: true },
+];
+
+export interface ImageGenerationSettings {
+    model: ImageModelId;
+    concurrency: number;    // Số cảnh tạo ảnh cùng lúc
+    maxRetries: number;     // Số lần thử lại mỗi cảnh (không tính lần đầu)
+}
+
+export const DEFAULT_IMAGE_SETTINGS: ImageGenerationSettings = { model: 'gemini-2.5-flash-image', concurrency: 2, maxRetries: 2 };
+
+export const normalizeImageSettings = (raw: any): ImageGenerationSettings => ({
+    model: IMAGE_MODELS.some(m => m.id === raw?.model) ? raw.model : DEFAULT_IMAGE_SETTINGS.model,
+    concurrency: Math.max(1, Math.min(5, parseInt(raw?.concurrency, 10) || DEFAULT_IMAGE_SETTINGS.concurrency)),
+    maxRetries: Math.max(0, Math.min(5, Number.isFinite(parseInt(raw?.maxRetries, 10)) ? parseInt(raw.maxRetries, 10) : DEFAULT_IMAGE_SETTINGS.maxRetries)),
+});
+
+export interface ImageGenerationRequest {
+    prompt: string;
+    aspectRatio?: string;   // undefined = mặc định của model
+    referenceImages: { base64: string; mimeType: string }[];
+    signal?: AbortSignal;
+}
+
+export interface GeneratedImage {
+    dataUrl: string;
+    mimeType: string;
+    model: string;
+    createdAt: number;
+}
+
+export interface ImageProvider {
+    model: string;
+    generate: (request: ImageGenerationRequest) => Promise<{ base64: string; mimeType: string }>;
+}
+
+// --- PROVIDER FACTORIES ---
+// Gemini Image: ảnh tham chiếu được gửi kèm để giữ nhân vật / phong cách nhất quán giữa các cảnh
+export const createGeminiImageProvider = (apiKey: string, model: string): ImageProvider => ({
+    model,
+    generate: async (request) => {
+        const ai = new GoogleGenAI({ apiKey });
+        const parts: LLMPart[] = request.referenceImages.map(img => ({ inlineData: { mimeType: img.mimeType, data: img.base64 } }));
+        parts.push({ text: parts.length > 0 ? `Keep the characters and art style consistent with the reference images above.\n${request.prompt}` : request.prompt });
+        const response = await ai.models.generateContent({
+            model,
+            contents: { parts },
+            config: { responseModalities: [Modality.TEXT, Modality.IMAGE], abortSignal: request.signal }
+        });
+        throwIfAborted(request.signal);
+        const image = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data)?.inlineData;
+        if (!image?.data) throw new Error(`Model không trả về ảnh${response.text ? `: ${response.text.substring(0, 200)}` : ''}.`);
+        return { base64: image.data, mimeType: image.mimeType || 'image/png' };
+    }
+});
+
+const IMAGEN_ASPECT_RATIOS = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+
+export const createImagenProvider = (apiKey: string, model: string): ImageProvider => ({
+    model,
+    generate: async (request) => {
+        const ai = new GoogleGenAI({ apiKey });
+        const response = await ai.models.generateImages({
+            model,
+            prompt: request.prompt,
+            config: {
+                numberOfImages: 1,
+                abortSignal: request.signal,
+                ...(request.aspectRatio && IMAGEN_ASPECT_RATIOS.includes(request.aspectRatio) ? { aspectRatio: request.aspectRatio } : {})
+            }
+        });
+        throwIfAborted(request.signal);
+        const image = response.generatedImages?.[0]?.image;
+        if (!image?.imageBytes) throw new Error("Model không trả về ảnh (có thể bị bộ lọc an toàn chặn).");
+        return { base64: image.imageBytes, mimeType: image.mimeType || 'image/png' };
+    }
+});
+
+const escapeXml = (text: string) => text.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c]!));
+
+const toBase64 = (text: string): string => {
+    const bytes = new TextEncoder().encode(text);
+    let binary = '';
+    bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+    return btoa(binary);
+};
+
+// Ảnh SVG giả lập: màu nền theo nội dung prompt, in vài dòng đầu của prompt (test hàng đợi / ZIP khi offline)
+export const createMockImageProvider = (): ImageProvider => ({
+    model: 'mock',
+    generate: async (request) => {
+        await sleep(300, request.signal);
+        const [w, h] = request.aspectRatio === '9:16' ? [360, 640] : request.aspectRatio === '1:1' ? [512, 512] : [640, 360];
+        const hue = Array.from(request.prompt).reduce((sum, c) => (sum * 31 + c.charCodeAt(0)) % 360, 7);
+        const lines = (request.prompt.match(/.{1,40}(\s|$)/g) || [request.prompt]).slice(0, 6);
+        const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}" viewBox="0 0 ${w} ${h}">`
+            + `<rect width="100%" height="100%" fill="hsl(${hue},45%,28%)"/>`
+            + lines.map((line, i) => `<text x="24" y="${48 + i * 26}" font-family="sans-serif" font-size="18" fill="#fff">${escapeXml(line.trim())}</text>`).join('')
+            + `</svg>`;
+        return { base64: toBase64(svg), mimeType: 'image/svg+xml' };
+    }
+});
+
+export const createImageProvider = (model: ImageModelId, apiKey: string): ImageProvider => {
+    if (model === 'mock') return createMockImageProvider();
+    return model.startsWith('imagen') ? createImagenProvider(apiKey, model) : createGeminiImageProvider(apiKey, model);
+};
+
+// --- RETRY & QUEUE ---
+export interface ImageCredentials {
+    apiKey: string;
+    keyPool?: KeyPool;
+}
+
+// Tạo một ảnh, thử lại với độ trễ tăng dần (2s, 4s, 8s...). Có pool => mỗi lần thử dùng key kế tiếp.
+export const generateImageWithRetry = async (
+    request: ImageGenerationRequest,
+    settings: ImageGenerationSettings,
+    credentials: ImageCredentials
+): Promise<GeneratedImage> => {
+    const poolKeys = credentials.keyPool ? credentials.keyPool.orderedKeys() : [];
+    if (settings.model !== 'mock' && poolKeys.length === 0 && !credentials.apiKey) {
+        throw new Error("Chưa có Gemini API key để tạo ảnh.");
+    }
+    const model = IMAGE_MODELS.find(m => m.id === settings.model);
+    const payload = model?.supportsReferenceImages ? request : { ...request, referenceImages: [] };
+
+    let lastError: any = null;
+    for (let attempt = 0; attempt <= settings.maxRetries; attempt++) {
+        if (attempt > 0) await sleep(Math.min(16_000, BASE_RETRY_DELAY_MS * Math.pow(2, attempt)), request.signal);
+        const key = poolKeys.length > 0 ? poolKeys[attempt % poolKeys.length] : credentials.apiKey;
+        try {
+            const image = await createImageProvider(settings.model, key).generate(payload);
+            if (poolKeys.length > 0) credentials.keyPool!.markSuccess(key);
+            return { dataUrl: `data:${image.mimeType};base64,${image.base64}`, mimeType: image.mimeType, model: settings.model, createdAt: Date.now() };
+        } catch (error) {
+            if (isAbortError(error) || request.signal?.aborted) throw createAbortError();
+            if (poolKeys.length > 0) credentials.keyPool!.markFailure(key, error);
+            console.warn(`Image attempt ${attempt + 1} failed`, error);
+            lastError = error;
+            // Một key sai thì thử lại cũng vô ích
+            if (poolKeys.length === 0 && isInvalidKeyError(error)) break;
+        }
+    }
+    throw lastError;
+};
+
+export interface ImageJob {
+    id: number;
+    prompt: string;
+}
+
+// Chạy các cảnh qua hàng đợi; lỗi của một cảnh không dừng hàng đợi (chỉ hủy mới dừng)
+export const runImageQueue = async (
+    jobs: ImageJob[],
+    shared: Omit<ImageGenerationRequest, 'prompt'>,
+    settings: ImageGenerationSettings,
+    credentials: ImageCredentials,
+    callbacks: {
+        onStart?: (id: number) => void;
+        onSuccess?: (id: number, image: GeneratedImage) => void;
+        onError?: (id: number, error: any) => void;
+    } = {}
+): Promise<{ succeeded: number; failed: number }> => {
+    let succeeded = 0;
+    let failed = 0;
+    await runWithConcurrency(jobs, settings.concurrency, async (job, _, signal) => {
+        throwIfAborted(signal);
+        callbacks.onStart?.(job.id);
+        try {
+            const image = await generateImageWithRetry({ ...shared, prompt: job.prompt, signal }, settings, credentials);
+            succeeded++;
+            callbacks.onSuccess?.(job.id, image);
+        } catch (error) {
+            if (isAbortError(error)) throw error;
+            failed++;
+            callbacks.onError?.(job.id, error);
+        }
+    }, shared.signal);
+    return { succeeded, failed };
+};
+
+// --- EXPORT ---
+const IMAGE_EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp', 'image/svg+xml': 'svg' };
+
+// "scene_003.png": đánh số theo thứ tự cảnh, đủ 3 chữ số để sắp xếp đúng trong trình quản lý file
+export const buildImageFileName = (sceneNumber: number, mimeType: string): string =>
+    `scene_${String(sceneNumber).padStart(3, '0')}.${IMAGE_EXTENSIONS[mimeType] || 'png'}`;
+
+export const buildImagesZip = async (images: { sceneNumber: number; image: GeneratedImage }[]): Promise<Blob> => {
+    const zip = new JSZip();
+    images.forEach(({ sceneNumber, image }) => {
+        zip.file(buildImageFileName(sceneNumber, image.mimeType), image.dataUrl.split(',')[1], { base64: true });
+    });
+    return zip.generateAsync({ type: 'blob' });
+};
@@ -0,0 +1,86 @@
+// --- INCREMENTAL JSON ARRAY PARSER ---
+// Đọc dần phản hồi streaming và trả về các object đã hoàn chỉnh trong mảng scene,
+// hỗ trợ cả dạng mảng thuần `[...]` và dạng bọc `{ "scenes": [...] }`.
+
+export class IncrementalJsonArrayParser {
+    private text = "";
+    private position = 0;
+    private arrayStarted = false;
+    private depth = 0;
+    private inString = false;
+    private escaped = false;
+    private objectStart = -1;
+    private items: any[] = [];
+
+    constructor(private wrapperKey: string = "scenes") {}
+
+    private reset() {
+        this.text = "";
+        this.position = 0;
+        this.arrayStarted = false;
+        this.depth = 0;
+        this.inString = false;
+        this.escaped = false;
+        this.objectStart = -1;
+        this.items = [];
+    }
+
+    // Tìm vị trí bắt đầu của mảng scene (sau khi bỏ qua ```json và wrapper object)
+    private findArrayStart(): number {
+        const firstBracket = this.text.search(/[\[{]/);
+        if (firstBracket === -1) return -1;
+        if (this.text[firstBracket] === '[') return firstBracket + 1;
+
+        const keyMatch = new RegExp(`"${this.wrapperKey}"\\s*:\\s*\\[`).exec(this.text);
+        return keyMatch ? keyMatch.index + keyMatch[0].length : -1;
+    }
+
+    // `fullText` là toàn bộ văn bản đã nhận được tới thời điểm hiện tại.
+    // Nếu văn bản mới không nối tiếp văn bản cũ (provider khác bắt đầu lại), parser tự reset.
+    push(fullText: string): any[] {
+        if (!fullText.startsWith(this.text)) this.reset();
+        this.text = fullText;
+
+        if (!this.arrayStarted) {
+            const start = this.findArrayStart();
+            if (start === -1) return this.items;
+            this.arrayStarted = true;
+            this.position = start;
+            this.depth = 1;
+        }
+
+        for (; this.position < this.text.length && this.depth > 0; this.position++) {
+            const char = this.text[this.position];
+
+            if (this.inString) {
+                if (this.escaped) this.escaped = false;
+                else if (char === '\\') this.escaped = true;
+                else if (char === '"') this.inString = false;
+                continue;
+            }
+
+            if (char === '"') {
+                this.inString = true;
+            } else if (char === '{' || char === '[') {
+                if (this.depth === 1 && char === '{') this.objectStart = this.position;
+                this.depth++;
+            } else if (char === '}' || char === ']') {
+                this.depth--;
+                if (this.depth === 1 && char === '}' && this.objectStart !== -1) {
+                    try {
+                        this.items.push(JSON.parse(this.text.substring(this.objectStart, this.position + 1)));
+                    } catch (e) {
+                        console.warn("Skipping malformed streamed item", e);
+                    }
+                    this.objectStart = -1;
+                }
+            }
+        }
+
+        return this.items;
+    }
+
+    getItems(): any[] {
+        return this.items;
+    }
+}
@@ -0,0 +1,152 @@
+// --- API KEY POOL ---
+// Theo dõi sức khỏe từng key (thành công, lỗi 429/quota, thời gian nghỉ) và chọn key theo chính sách xoay vòng.
+
+export type KeyRotationPolicy = 'round_robin' | 'lru' | 'random';
+
+export interface PooledKey {
+    key: string;
+    isActive: boolean;
+    status: 'valid' | 'invalid' | 'unknown';
+    lastUsed?: number;
+    successCount?: number;
+    errorCount?: number;
+    quotaErrorCount?: number;
+    consecutiveFailures?: number;
+    cooldownUntil?: number;
+    lastError?: string;
+}
+
+export interface KeyPool {
+    policy: KeyRotationPolicy;
+    // Danh sách key theo thứ tự thử (key đang nghỉ được đưa xuống cuối)
+    orderedKeys: () => string[];
+    isCoolingDown: (key: string) => boolean;
+    // Số ms còn lại tới khi có key dùng được (0 = có key sẵn sàng, Infinity = không còn key hợp lệ)
+    msUntilReady: () => number;
+    markSuccess: (key: string) => void;
+    markFailure: (key: string, error: any) => void;
+}
+
+export const KEY_ROTATION_POLICY_LABELS: Record<KeyRotationPolicy, string> = {
+    round_robin: 'Xoay vòng (Round-robin)',
+    lru: 'Ít dùng gần đây nhất (LRU)',
+    random: 'Ngẫu nhiên',
+};
+
+const BASE_COOLDOWN_MS = 30_000;
+const MAX_COOLDOWN_MS = 10 * 60_000;
+export const BASE_RETRY_DELAY_MS = 1_000;
+// Số lần thử tối thiểu của pool, kể cả khi pool chỉ có một key
+export const MIN_POOL_ATTEMPTS = 3;
+// Chờ key hết nghỉ tối đa bao lâu trước khi bỏ qua pool
+export const MAX_COOLDOWN_WAIT_MS = 60_000;
+
+const errorText = (error: any) => String(error?.message || error || '');
+
+export const isQuotaError = (error: any): boolean =>
+    error?.status === 429 || /\b429\b|RESOURCE_EXHAUSTED|quota|rate limit/i.test(errorText(error));
+
+export const isInvalidKeyError = (error: any): boolean =>
+    error?.status === 401 || error?.status === 403 || /API_KEY_INVALID|API key not valid|PERMISSION_DENIED|\b401\b|\b403\b/i.test(errorText(error));
+
+// Lỗi tạm thời phía server / mạng (5xx, mất kết nối): thử lại có thể thành công
+export const isTransientError = (error: any): boolean =>
+    (typeof error?.status === 'number' && error.status >= 500)
+    || /\b50[0-4]\b|UNAVAILABLE|INTERNAL|DEADLINE_EXCEEDED|overloaded|fetch failed|network|ECONNRESET|ETIMEDOUT/i.test(errorText(error));
+
+// Chỉ các lỗi này mới đáng đổi key / chờ rồi thử lại; lỗi do chính request (400, schema, safety) thì thử lại cũng vô ích
+export const isRetryableKeyError = (error: any): boolean =>
+    isQuotaError(error) || isInvalidKeyError(error) || isTransientError(error);
+
+// Thời gian nghỉ tăng theo cấp số nhân sau mỗi lần dính 429 liên tiếp
+export const getCooldownMs = (consecutiveFailures: number): number =>
+    Math.min(MAX_COOLDOWN_MS, BASE_COOLDOWN_MS * Math.pow(2, Math.max(0, consecutiveFailures - 1)));
+
+const shuffle = <T>(items: T[]): T[] => {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+};
+
+export const createKeyPool = (
+    initialKeys: PooledKey[],
+    policy: KeyRotationPolicy,
+    onChange?: (keys: PooledKey[]) => void
+): KeyPool => {
+    let keys = initialKeys.map(k => ({ ...k }));
+
+    const update = (key: string, changes: (k: PooledKey) => Partial<PooledKey>) => {
+        keys = keys.map(k => k.key === key ? { ...k, ...changes(k) } : k);
+        onChange?.(keys);
+    };
+
+    const isCoolingDown = (key: string) => {
+        const entry = keys.find(k => k.key === key);
+        return !!entry?.cooldownUntil && entry.cooldownUntil > Date.now();
+    };
+
+    const orderedKeys = () => {
+        const usable = keys.filter(k => k.isActive && k.status !== 'invalid');
+        let ordered: PooledKey[];
+        if (policy === 'lru') {
+            ordered = [...usable].sort((a, b) => (a.lastUsed || 0) - (b.lastUsed || 0));
+        } else if (policy === 'random') {
+            ordered = shuffle(usable);
+        } else {
+            // Round-robin: bắt đầu từ key đứng sau key được dùng gần nhất
+            const lastIndex = usable.reduce((best, k, i) => (k.lastUsed || 0) > (usable[best]?.lastUsed || 0) ? i : best, -1);
+            const start = lastIndex === -1 ? 0 : (lastIndex + 1) % Math.max(1, usable.length);
+            ordered = [...usable.slice(start), ...usable.slice(0, start)];
+        }
+        const ready = ordered.filter(k => !isCoolingDown(k.key));
+        const cooling = ordered
+            .filter(k => isCoolingDown(k.key))
+            .sort((a, b) => (a.cooldownUntil || 0) - (b.cooldownUntil || 0));
+        return [...ready, ...cooling].map(k => k.key);
+    };
+
+    const msUntilReady = () => {
+        const usable = keys.filter(k => k.isActive && k.status !== 'invalid');
+        if (usable.length === 0) return Infinity;
+        const now = Date.now();
+        return Math.max(0, Math.min(...usable.map(k => (k.cooldownUntil || 0) - now)));
+    };
+
+    return {
+        policy,
+        orderedKeys,
+        isCoolingDown,
+        msUntilReady,
+        markSuccess: (key) => update(key, k => ({
+            status: 'valid',
+            lastUsed: Date.now(),
+            successCount: (k.successCount || 0) + 1,
+            consecutiveFailures: 0,
+            cooldownUntil: undefined,
+            lastError: undefined,
+        })),
+        markFailure: (key, error) => update(key, k => {
+            const base = {
+                lastUsed: Date.now(),
+                errorCount: (k.errorCount || 0) + 1,
+                lastError: errorText(error).substring(0, 200),
+            };
+            if (isQuotaError(error)) {
+                const consecutiveFailures = (k.consecutiveFailures || 0) + 1;
+                return {
+                    ...base,
+                    quotaErrorCount: (k.quotaErrorCount || 0) + 1,
+                    consecutiveFailures,
+                    cooldownUntil: Date.now() + getCooldownMs(consecutiveFailures),
+                };
+            }
+            if (isInvalidKeyError(error)) {
+                return { ...base, status: 'invalid' as const };
+            }
+            return base;
+        }),
+    };
+};
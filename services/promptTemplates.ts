@@ -0,0 +1,180 @@
+// --- PROMPT TEMPLATES ---
+// Phần hướng dẫn có thể tùy biến của system instruction phân cảnh (vai trò & phân tích, phân cảnh, prompt ảnh/video).
+// Biến dạng {{styleLock}} được thay bằng thiết lập của lần chạy. Cấu trúc JSON đầu ra (tên trường, đánh số trường,
+// shot list, phương án prompt, continuity) vẫn do code dựng để kết quả luôn parse được.
+
+export type PromptTemplateSectionId = 'preamble' | 'segmentation_ai' | 'segmentation_punctuation' | 'segmentation_fixed' | 'image_prompt' | 'video_prompt';
+
+export const PROMPT_TEMPLATE_SECTIONS: { id: PromptTemplateSectionId; label: string; hint: string }[] = [
+    { id: 'preamble', label: 'Vai trò & phân tích', hint: 'Mở đầu system instruction: vai trò của model, nguyên tắc giữ nội dung, phân tích bối cảnh và tông màu.' },
+    { id: 'segmentation_ai', label: 'Phân cảnh: AI', hint: 'Dùng khi AI tự phân cảnh theo ngữ nghĩa.' },
+    { id: 'segmentation_punctuation', label: 'Phân cảnh: dấu câu', hint: 'Chỉ dùng khi tắt "Tách cảnh cục bộ" (AI tự tách theo dấu câu).' },
+    { id: 'segmentation_fixed', label: 'Phân cảnh: số cảnh', hint: 'Chỉ dùng khi tắt "Tách cảnh cục bộ" (AI tự chia đúng số cảnh).' },
+    { id: 'image_prompt', label: 'Prompt ảnh', hint: 'Yêu cầu cho trường "imagePrompt". Code tự thêm "3. "imagePrompt":" ở đầu.' },
+    { id: 'video_prompt', label: 'Prompt video', hint: 'Yêu cầu cho trường "videoPrompt". Code tự thêm "3. "videoPrompt":" ở đầu.' },
+];
+
+export interface PromptTemplate {
+    id: string;
+    name: string;
+    description: string;
+    builtIn: boolean;
+    sections: Record<PromptTemplateSectionId, string>;
+}
+
+export type TemplateVariables = Record<string, string | number>;
+
+export const TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+    { name: 'styleLock', description: 'Tiền tố phong cách (Style Lock) của lần chạy' },
+    { name: 'generator', description: 'Tên công cụ đích (VD: Midjourney, Veo 3)' },
+    { name: 'generatorGuidance', description: 'Các dòng hướng dẫn riêng của công cụ đích (mỗi dòng bắt đầu bằng xuống dòng)' },
+    { name: 'aspectRatio', description: 'Tỉ lệ khung hình: 16:9, 9:16 hoặc 1:1' },
+    { name: 'aspectRatioInstruction', description: 'Dòng yêu cầu bố cục theo tỉ lệ khung hình (rỗng nếu không bật tỉ lệ)' },
+    { name: 'framing', description: 'Mô tả khung hình theo tỉ lệ (VD: Widescreen cinematic)' },
+    { name: 'durationSeconds', description: 'Thời lượng clip video (giây)' },
+    { name: 'targetSceneCount', description: 'Số cảnh cần tạo (của từng phần khi kịch bản được chia nhỏ)' },
+    { name: 'tolerance', description: '"exact", hoặc "±5%" khi nhiều hơn 50 cảnh' },
+    { name: 'promptType', description: 'Loại prompt: image hoặc video' },
+];
+
+const STYLE_INJECTION = `   - **STYLE INJECTION**: Analyze the attached Reference Images (if any). Extract their art style (e.g., color palette, lighting key, texture, rendering style) and WRITE IT EXPLICITLY into the prompt description.
+    - **MANDATORY PREFIX**: Start exactly with: "{{styleLock}}"{{generatorGuidance}}
+   - **NO PARAMETERS**: Do not add tool parameters (like --v, --ar, --no), weights or negative prompts. They are appended automatically.{{aspectRatioInstruction}}`;
+
+const TONE_LINE = `- **Tone**: Adapt the visual tone to match the script (e.g., if the script is action-packed, use dynamic angles; if sad, use moody lighting).`;
+
+const DEFAULT_SECTIONS: Record<PromptTemplateSectionId, string> = {
+    preamble: `You are a professional storyboard artist and script analyst.
+
+**CORE DIRECTIVE: FULL CONTENT PRESERVATION**
+Your highest priority is to preserve the input script content exactly. Do not summarize, shorten, or rewrite the script text in the "scriptLine" field.
+
+**TASK 1: CONTEXT & LOGIC ANALYSIS (CRITICAL)**
+- **Analyze the Script**: Determine the setting, time period, atmosphere, and characters based STRICTLY on the provided text.
+- **Character Consistency**: Identify the main characters from the text and maintain their visual consistency (Age, Gender, Ethnicity, Clothing) throughout the prompts.
+- **Setting**: Use the location and era described in the script (e.g., WWII Europe, Modern City, Fantasy World). Do NOT hallucinate a specific setting (like Japan/Tatami) unless it is in the script.
+${TONE_LINE}`,
+    segmentation_ai: `**TASK 2: SEGMENTATION (STRICT & CRITICAL - AI MODE)**
+Do NOT simply split by sentences or punctuation. Use **Semantic Segmentation**.
+- **Rule 1 (Length)**: Break the script into short segments/lines of approximately **7-15 words**. This is optimized for visual pacing.
+- **Rule 2 (Semantic Integrity)**: Do NOT cut in the middle of a thought or content just to meet the word count. Each segment must be a complete logical thought, phrase, or meaningful unit.
+- **Rule 3 (Fidelity - VERBATIM COPY)**: You act as a text splitter, NOT an editor. You MUST preserve the original text exactly character-for-character within the segments. **DO NOT SUMMARIZE. DO NOT PARAPHRASE. DO NOT SKIP SENTENCES.**
+- **Rule 4 (Completeness)**: The concatenation of all "scriptLine" values MUST be identical to the input script.
+- **Rule 5 (Format)**: Each segmented line corresponds to one item (one Scene) in the JSON output array.`,
+    segmentation_punctuation: `**TASK 2: SEGMENTATION (STRICT & CRITICAL - PUNCTUATION MODE)**
+Split the script strictly based on sentence-ending punctuation marks (., ?, !, ...).
+- **Rule 1 (Punctuation)**: Start a new segment after every sentence-ending punctuation mark. If a sentence is extremely long (>50 words), you may split at a major clause (comma/semicolon) to keep prompts manageable.
+- **Rule 2 (Fidelity - VERBATIM COPY)**: You act as a text splitter, NOT an editor. You MUST preserve the original text exactly character-for-character within the segments. **DO NOT SUMMARIZE. DO NOT PARAPHRASE. DO NOT SKIP SENTENCES.**
+- **Rule 3 (Completeness)**: The concatenation of all "scriptLine" values MUST be identical to the input script.
+- **Rule 4 (Format)**: Each segmented line corresponds to one item (one Scene) in the JSON output array.`,
+    segmentation_fixed: `**TASK 2: SEGMENTATION (STRICT & CRITICAL - FIXED COUNT MODE)**
+Target Scene Count: **{{targetSceneCount}}** (Tolerance: {{tolerance}}).
+
+STRATEGY TO ACHIEVE TARGET:
+1. **Analyze Density**: First, estimate the total content of the script. Calculate roughly how much text should be in each scene to reach {{targetSceneCount}} scenes.
+   - *Strategy*: If the script is long and the target count is high, you MUST split frequently (e.g., every sentence or even every major clause). Do not group sentences unless necessary.
+   - *Strategy*: If the script is short and the target is low, group sentences together.
+2. **Distribute Evenly**: Do not bunch up segments at the beginning. Maintain a consistent pacing throughout to reach the end of the script exactly around scene #{{targetSceneCount}}.
+3. **Semantic Priority**: While aiming for the target count, NEVER break a sentence in a way that destroys meaning. It is better to be off by a few scenes (within 5%) than to have broken gibberish.
+4. **Count Check**: Continuously track your scene count as you generate.
+
+- **Rule 1 (Target)**: Aim for exactly {{targetSceneCount}} items in the JSON array. For large counts (>100), a deviation of ±5% is acceptable to preserve semantic integrity.
+- **Rule 2 (Fidelity - VERBATIM COPY)**: You act as a text splitter, NOT an editor. You MUST preserve the original text exactly character-for-character within the segments. **DO NOT SUMMARIZE. DO NOT PARAPHRASE. DO NOT SKIP SENTENCES.**
+- **Rule 3 (Completeness)**: The concatenation of all "scriptLine" values MUST be identical to the input script.
+- **Rule 4 (Format)**: Each segmented line corresponds to one item (one Scene).
+- **Rule 5 (1-to-1 Mapping)**: You MUST generate EXACTLY ONE image/video prompt for EACH scene. The final output MUST contain exactly {{targetSceneCount}} scenes, and therefore exactly {{targetSceneCount}} prompts.`,
+    image_prompt: `A self-contained, highly detailed visual description for a static image, optimized for {{generator}}.
+${STYLE_INJECTION}
+   - **CHARACTER CONSISTENCY**: Analyze the script to identify the main characters. Describe their appearance consistently in EVERY SINGLE PROMPT (Age, Gender, Ethnicity, Hair, Clothing, key features) based on the script's context.
+   - **ACTION & MOOD**: Describe the scene action and atmosphere vividly based on the script context.`,
+    video_prompt: `A highly detailed video generation prompt optimized for {{generator}} (approx {{durationSeconds}} seconds).
+${STYLE_INJECTION}
+   - **VISUAL NARRATIVE**: Describe the continuous motion, physics, and changes within the {{durationSeconds}}s clip.
+   - **CAMERA & CINEMATOGRAPHY**: Specify camera movement (e.g., "Slow tracking shot", "Drone view", "Static camera with subtle subject motion", "Rack focus").
+   - **CHARACTER & ACTION**: Describe fluid movements based on the script. Ensure characters appearance is described fully and consistently with the script's era/setting.
+   - **ATMOSPHERE**: Describe how light interacts with motion (e.g., "Dust motes dancing in light", "Hair blowing in wind", "Explosions", "Smoke").`,
+};
+
+export const DEFAULT_PROMPT_TEMPLATE_ID = 'default';
+
+// Mẫu có sẵn: chỉ đọc, muốn sửa thì nhân bản
+export const BUILT_IN_PROMPT_TEMPLATES: PromptTemplate[] = [
+    {
+        id: DEFAULT_PROMPT_TEMPLATE_ID,
+        name: 'Mặc định',
+        description: 'Storyboard đa dụng, tông hình ảnh theo nội dung kịch bản.',
+        builtIn: true,
+        sections: DEFAULT_SECTIONS,
+    },
+    {
+        id: 'history_explainer',
+        name: 'Giải thích lịch sử',
+        description: 'Video kể chuyện / giải thích lịch sử: trang phục, kiến trúc, đạo cụ đúng thời kỳ.',
+        builtIn: true,
+        sections: {
+            ...DEFAULT_SECTIONS,
+            preamble: DEFAULT_SECTIONS.preamble.replace(TONE_LINE, `- **Historical Accuracy**: Identify the exact period and region of every scene. Clothing, hairstyles, architecture, weapons, tools and everyday objects MUST be accurate for that period. Never mix eras.
+- **Tone**: Documentary realism: natural light, muted period-appropriate palette, museum-quality detail. Abstract ideas (dates, trade, politics) become concrete scenes or map/diagram-like compositions.`),
+        },
+    },
+    {
+        id: 'kids_story',
+        name: 'Truyện thiếu nhi',
+        description: 'Truyện cho trẻ em: hình ảnh tươi sáng, thân thiện, không bạo lực hay đáng sợ.',
+        builtIn: true,
+        sections: {
+            ...DEFAULT_SECTIONS,
+            preamble: DEFAULT_SECTIONS.preamble.replace(TONE_LINE, `- **Audience**: The story is for young children. Every image must be friendly and safe: no violence, blood, horror or frightening imagery. Show danger through expressions and situations instead.
+- **Tone**: Bright, warm and playful. Soft rounded shapes, expressive faces, clear simple compositions with one main subject per scene.`),
+        },
+    },
+];
+
+export const DEFAULT_PROMPT_TEMPLATE = BUILT_IN_PROMPT_TEMPLATES[0];
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Biến không có trong `variables` được giữ nguyên (để thấy ngay trong bản xem trước)
+export const renderTemplate = (text: string, variables: TemplateVariables): string =>
+    text.replace(VARIABLE_PATTERN, (match, name: string) => name in variables ? String(variables[name]) : match);
+
+// Tên biến không được hỗ trợ (gõ sai...) trong một đoạn mẫu
+export const findUnknownVariables = (text: string): string[] => {
+    const known = new Set(TEMPLATE_VARIABLES.map(variable => variable.name));
+    return Array.from(new Set(Array.from(text.matchAll(VARIABLE_PATTERN), match => match[1]).filter(name => !known.has(name))));
+};
+
+export const getPromptTemplate = (templates: PromptTemplate[], id: string): PromptTemplate =>
+    [...BUILT_IN_PROMPT_TEMPLATES, ...templates].find(template => template.id === id) || DEFAULT_PROMPT_TEMPLATE;
+
+// Bản sao có thể chỉnh sửa (tạo mới = nhân bản mẫu mặc định)
+export const duplicatePromptTemplate = (source: PromptTemplate, name: string = `${source.name} (bản sao)`): PromptTemplate => ({
+    id: `tpl-${Date.now()}-${Math.random().toString(36).substring(2, 6)}`,
+    name,
+    description: source.description,
+    builtIn: false,
+    sections: { ...source.sections },
+});
+
+export const normalizePromptTemplate = (raw: any, index: number = 0): PromptTemplate => ({
+    id: String(raw.id || `tpl-${index}`),
+    name: String(raw.name || `Mẫu ${index + 1}`),
+    description: String(raw.description || ''),
+    builtIn: false,
+    sections: Object.fromEntries(PROMPT_TEMPLATE_SECTIONS.map(section => [
+        section.id,
+        typeof raw.sections?.[section.id] === 'string' ? raw.sections[section.id] : DEFAULT_SECTIONS[section.id]
+    ])) as Record<PromptTemplateSectionId, string>,
+});
+
+// Mẫu người dùng đã lưu (localStorage / session): thiếu đoạn nào lấy theo mẫu mặc định, bỏ mẫu trùng id với mẫu có sẵn
+export const normalizePromptTemplates = (raw: any): PromptTemplate[] => {
+    if (!Array.isArray(raw)) return [];
+    const builtInIds = new Set(BUILT_IN_PROMPT_TEMPLATES.map(template => template.id));
+    return raw
+        .filter((template: any) => template && typeof template === 'object' && !builtInIds.has(template.id))
+        .map(normalizePromptTemplate);
+};
+
+export const isSameTemplateContent = (a: PromptTemplate, b: PromptTemplate): boolean =>
+    PROMPT_TEMPLATE_SECTIONS.every(section => a.sections[section.id] === b.sections[section.id]);
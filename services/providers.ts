@@ -0,0 +1,456 @@
+import { GoogleGenAI } from "@google/genai";
+import { KeyPool, BASE_RETRY_DELAY_MS, MIN_POOL_ATTEMPTS, MAX_COOLDOWN_WAIT_MS, isRetryableKeyError } from "./keyPool";
+import { TokenUsage, fromGeminiUsage, fromOpenAIUsage, maskApiKey } from "./usage";
+
+// --- PROVIDER TYPES ---
+export type ProviderKind = 'gemini' | 'openai' | 'mock';
+
+export type LLMPart =
+    | { text: string }
+    | { inlineData: { mimeType: string; data: string } };
+
+export interface LLMRequest {
+    systemInstruction: string;
+    parts: LLMPart[];
+    // Khi có schema, provider sẽ yêu cầu model trả về JSON
+    responseSchema?: any;
+    // Nội dung trả về khi chạy bằng Mock provider (test offline)
+    mockResponse?: string;
+    // Hủy request đang chạy (nút Hủy trên UI)
+    signal?: AbortSignal;
+}
+
+export interface LLMResponse {
+    text: string;
+    usage?: TokenUsage;
+    // Key đã che, dùng để thống kê chi phí theo key
+    keyId?: string;
+    // generateWithProviders gọi sau khi `parse` chấp nhận / từ chối nội dung (pool ghi nhận sức khỏe key lúc này)
+    onAccepted?: () => void;
+    onRejected?: (error: any) => void;
+}
+
+export interface LLMProvider {
+    kind: ProviderKind;
+    label: string;
+    model: string;
+    // Khi có `onText`, provider dùng streaming và gọi lại với toàn bộ văn bản đã nhận
+    generate: (request: LLMRequest, onText?: (text: string) => void) => Promise<LLMResponse>;
+}
+
+// Các "slot" mà người dùng có thể sắp xếp thứ tự ưu tiên trong ApiSettingsModal
+export type ProviderSlotId = 'openai' | 'gemini' | 'gemini_backup' | 'key4u_backup' | 'mock';
+
+export interface ProviderSlot {
+    id: ProviderSlotId;
+    enabled: boolean;
+}
+
+// Cấu hình endpoint tương thích OpenAI (Key4U, LM Studio, Ollama, vLLM...)
+export interface OpenAICompatibleConfig {
+    baseUrl: string;
+    apiKey: string;
+    model: string;
+    temperature: number;
+}
+
+export interface ProviderCredentials {
+    geminiKey: string;
+    // Khi có pool, slot 'gemini' xoay vòng qua các key của người dùng thay vì dùng một key
+    geminiKeyPool?: KeyPool;
+    geminiModel: string;
+    // Model dùng cho key dự phòng của hệ thống (mặc định = geminiModel)
+    backupGeminiModel?: string;
+    openAI?: OpenAICompatibleConfig;
+}
+
+export const PROVIDER_SLOT_LABELS: Record<ProviderSlotId, string> = {
+    openai: 'OpenAI-compatible',
+    gemini: 'Gemini (User Key)',
+    gemini_backup: 'Gemini (System Backup)',
+    key4u_backup: 'Key4U (System Backup)',
+    mock: 'Mock (Offline Test)',
+};
+
+export const DEFAULT_PROVIDER_PRIORITY: ProviderSlot[] = [
+    { id: 'openai', enabled: true },
+    { id: 'gemini', enabled: true },
+    { id: 'gemini_backup', enabled: true },
+    { id: 'key4u_backup', enabled: true },
+    { id: 'mock', enabled: false },
+];
+
+// Hàm giải mã key dự phòng (Obfuscated để tránh bot quét key)
+const getFallbackKeys = () => {
+    // Các chuỗi đã được đảo ngược và mã hóa Base64
+    const encKeys = [
+        "azNNaDRTQXZpTG44a19WWTludkVrV2laVjRUaHVFM3FDeVNheklB"  // Key 2
+    ];
+    return encKeys.map(enc => atob(enc).split('').reverse().join(''));
+};
+
+const FALLBACK_API_KEYS = getFallbackKeys();
+const FALLBACK_KEY4U_KEY = atob("ZWl5Q3htQVVYWmt2Q1dFRlBKNmZmZHd1dGlxR1BNY3F6dWRxYTdybGl3SUFpQ0MyLWtz").split('').reverse().join('');
+
+const KEY4U_BASE_URL = 'https://api.key4u.shop/v1';
+const KEY4U_MODEL = 'gpt-4o-mini';
+
+// Chưa cấu hình endpoint => slot 'openai' được bỏ qua
+export const DEFAULT_OPENAI_CONFIG: OpenAICompatibleConfig = {
+    baseUrl: '',
+    apiKey: '',
+    model: '',
+    temperature: 0.7,
+};
+
+export const KEY4U_OPENAI_CONFIG: OpenAICompatibleConfig = {
+    ...DEFAULT_OPENAI_CONFIG,
+    baseUrl: KEY4U_BASE_URL,
+    model: KEY4U_MODEL,
+};
+
+export const OPENAI_ENDPOINT_PRESETS = [
+    { id: 'key4u', label: 'Key4U', baseUrl: KEY4U_BASE_URL },
+    { id: 'lmstudio', label: 'LM Studio', baseUrl: 'http://localhost:1234/v1' },
+    { id: 'ollama', label: 'Ollama', baseUrl: 'http://localhost:11434/v1' },
+    { id: 'vllm', label: 'vLLM', baseUrl: 'http://localhost:8000/v1' },
+];
+
+const trimBaseUrl = (baseUrl: string) => baseUrl.trim().replace(/\/+$/, '');
+
+// Server local (LM Studio, Ollama...) thường không cần API key, chỉ cần base URL và model
+export const isOpenAIConfigured = (config?: OpenAICompatibleConfig): config is OpenAICompatibleConfig => {
+    return !!config && trimBaseUrl(config.baseUrl) !== '' && config.model.trim() !== '';
+};
+
+const buildOpenAIHeaders = (apiKey: string): Record<string, string> => ({
+    'Content-Type': 'application/json',
+    ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
+});
+
+// Lấy danh sách model từ endpoint /models
+export const listOpenAICompatibleModels = async (baseUrl: string, apiKey: string): Promise<string[]> => {
+    const response = await fetch(`${trimBaseUrl(baseUrl)}/models`, {
+        headers: buildOpenAIHeaders(apiKey)
+    });
+    if (!response.ok) {
+        const errText = await response.text();
+        throw new Error(`Models API Error: ${response.status} - ${errText}`);
+    }
+    const data = await response.json();
+    const models: any[] = Array.isArray(data) ? data : (data.data || data.models || []);
+    return models
+        .map(m => typeof m === 'string' ? m : (m.id || m.name))
+        .filter((id: any): id is string => typeof id === 'string' && id !== '')
+        .sort();
+};
+
+// Đọc Server-Sent Events của /chat/completions (stream: true).
+// Với `stream_options.include_usage`, event cuối chứa `usage` (choices rỗng).
+const readChatCompletionStream = async (body: ReadableStream<Uint8Array>, onText: (text: string) => void): Promise<{ text: string; usage?: TokenUsage }> => {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let text = "";
+    let usage: TokenUsage | undefined;
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || "";
+        for (const line of lines) {
+            const trimmed = line.trim();
+            if (!trimmed.startsWith('data:')) continue;
+            const payload = trimmed.substring(5).trim();
+            if (payload === '[DONE]') return { text, usage };
+            try {
+                const event = JSON.parse(payload);
+                if (event.usage) usage = fromOpenAIUsage(event.usage);
+                const delta = event.choices?.[0]?.delta?.content;
+                if (delta) {
+                    text += delta;
+                    onText(text);
+                }
+            } catch (e) {
+                console.warn("Skipping malformed SSE event", e);
+            }
+        }
+    }
+    return { text, usage };
+};
+
+// --- CANCELLATION ---
+export const createAbortError = () => {
+    const error = new Error("Đã hủy yêu cầu.");
+    error.name = 'AbortError';
+    return error;
+};
+
+export const isAbortError = (error: any): boolean => error?.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw createAbortError();
+};
+
+// Chờ `ms` nhưng dừng ngay khi bị hủy
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+    }
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// --- PROVIDER FACTORIES ---
+export const createGeminiProvider = (apiKey: string, model: string, label: string = 'Gemini'): LLMProvider => ({
+    kind: 'gemini',
+    label,
+    model,
+    generate: async (request, onText) => {
+        const ai = new GoogleGenAI({ apiKey });
+        const params = {
+            model,
+            contents: { parts: request.parts },
+            config: {
+                systemInstruction: request.systemInstruction,
+                abortSignal: request.signal,
+                ...(request.responseSchema ? {
+                    responseMimeType: "application/json",
+                    responseSchema: request.responseSchema,
+                } : {})
+            }
+        };
+
+        if (onText) {
+            let streamed = "";
+            let usageMetadata: any;
+            const stream = await ai.models.generateContentStream(params);
+            for await (const chunk of stream) {
+                throwIfAborted(request.signal);
+                streamed += chunk.text || "";
+                // usageMetadata đầy đủ nằm ở chunk cuối
+                if (chunk.usageMetadata) usageMetadata = chunk.usageMetadata;
+                onText(streamed);
+            }
+            if (!streamed) throw new Error("AI không phản hồi.");
+            return { text: streamed.trim(), usage: fromGeminiUsage(usageMetadata), keyId: maskApiKey(apiKey) };
+        }
+
+        const response = await ai.models.generateContent(params);
+        throwIfAborted(request.signal);
+        const text = response.text;
+        if (!text) throw new Error("AI không phản hồi.");
+        return { text: text.trim(), usage: fromGeminiUsage(response.usageMetadata), keyId: maskApiKey(apiKey) };
+    }
+});
+
+// Xoay vòng qua các key trong pool, chờ theo cấp số nhân giữa các lần thử (1s, 2s, 4s...).
+// Pool ít key vẫn được thử đủ MIN_POOL_ATTEMPTS lần; khi mọi key đang nghỉ thì chờ key hết nghỉ sớm nhất
+// (tối đa MAX_COOLDOWN_WAIT_MS) trước khi nhường cho provider kế tiếp.
+// Chỉ đổi key khi lỗi 429 / key hỏng / lỗi tạm thời; lỗi khác (400, schema, safety) ném ra ngay.
+export const createGeminiPoolProvider = (pool: KeyPool, model: string, label: string = 'Gemini'): LLMProvider => ({
+    kind: 'gemini',
+    label,
+    model,
+    generate: async (request, onText) => {
+        const maxAttempts = Math.max(MIN_POOL_ATTEMPTS, pool.orderedKeys().length);
+
+        let lastError: any = null;
+        for (let attempt = 0; attempt < maxAttempts; attempt++) {
+            if (attempt > 0) await sleep(Math.min(8_000, BASE_RETRY_DELAY_MS * Math.pow(2, attempt - 1)), request.signal);
+            const waitMs = pool.msUntilReady();
+            if (waitMs > MAX_COOLDOWN_WAIT_MS) {
+                throw lastError || new Error("Tất cả key trong pool đang tạm nghỉ (429).");
+            }
+            if (waitMs > 0) await sleep(waitMs, request.signal);
+            const key = pool.orderedKeys()[0];
+            if (!key) break;
+            try {
+                const response = await createGeminiProvider(key, model, label).generate(request, onText);
+                return {
+                    ...response,
+                    onAccepted: () => pool.markSuccess(key),
+                    onRejected: (error) => pool.markFailure(key, error),
+                };
+            } catch (error) {
+                if (isAbortError(error) || request.signal?.aborted) throw createAbortError();
+                if (!isRetryableKeyError(error)) throw error;
+                pool.markFailure(key, error);
+                console.warn(`Key ${maskApiKey(key)} failed, rotating to next key...`, error);
+                lastError = error;
+            }
+        }
+        throw lastError || new Error("Không còn key hợp lệ trong pool.");
+    }
+});
+
+export const createOpenAICompatibleProvider = (
+    apiKey: string,
+    baseUrl: string,
+    model: string,
+    label: string = 'OpenAI',
+    temperature: number = 0.7
+): LLMProvider => ({
+    kind: 'openai',
+    label,
+    model,
+    generate: async (request, onText) => {
+        const userContent: any[] = request.parts.map(part => 'text' in part
+            ? { type: "text", text: part.text }
+            : { type: "image_url", image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } }
+        );
+        const isPlainText = userContent.length === 1 && userContent[0].type === 'text';
+
+        const response = await fetch(`${trimBaseUrl(baseUrl)}/chat/completions`, {
+            method: 'POST',
+            headers: buildOpenAIHeaders(apiKey),
+            body: JSON.stringify({
+                model,
+                messages: [
+                    { role: 'system', content: request.systemInstruction },
+                    { role: 'user', content: isPlainText ? userContent[0].text : userContent }
+                ],
+                temperature,
+                ...(onText ? { stream: true, stream_options: { include_usage: true } } : {})
+            }),
+            signal: request.signal
+        });
+
+        if (!response.ok) {
+            const errText = await response.text();
+            throw new Error(`${label} API Error: ${response.status} - ${errText}`);
+        }
+
+        let text: string;
+        let usage: TokenUsage | undefined;
+        const isEventStream = (response.headers.get('content-type') || '').includes('text/event-stream');
+        if (onText && isEventStream && response.body) {
+            ({ text, usage } = await readChatCompletionStream(response.body, onText));
+        } else {
+            const data = await response.json();
+            text = data.choices?.[0]?.message?.content || "";
+            usage = fromOpenAIUsage(data.usage);
+            onText?.(text);
+        }
+        if (request.responseSchema) {
+            text = text.replace(/```json/g, '').replace(/```/g, '');
+        }
+        text = text.trim();
+        if (!text) throw new Error("AI không phản hồi.");
+        return { text, usage, keyId: apiKey ? maskApiKey(apiKey) : undefined };
+    }
+});
+
+export const createMockProvider = (): LLMProvider => ({
+    kind: 'mock',
+    label: PROVIDER_SLOT_LABELS.mock,
+    model: 'mock',
+    generate: async (request, onText) => {
+        throwIfAborted(request.signal);
+        const text = request.mockResponse !== undefined
+            ? request.mockResponse
+            : request.parts
+                .map(part => 'text' in part ? part.text : '')
+                .join('\n')
+                .trim();
+        onText?.(text);
+        return { text, usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 } };
+    }
+});
+
+// --- PRIORITY & ROUTING ---
+
+// Bổ sung slot còn thiếu / loại bỏ slot không hợp lệ khi đọc từ localStorage
+export const normalizeProviderPriority = (stored: any): ProviderSlot[] => {
+    const validIds = DEFAULT_PROVIDER_PRIORITY.map(s => s.id);
+    const result: ProviderSlot[] = [];
+    if (Array.isArray(stored)) {
+        stored.forEach((slot: any) => {
+            // Slot 'key4u' cũ đã được đổi tên thành 'openai'
+            const id = slot?.id === 'key4u' ? 'openai' : slot?.id;
+            if (slot && validIds.includes(id) && !result.some(s => s.id === id)) {
+                result.push({ id, enabled: slot.enabled !== false });
+            }
+        });
+    }
+    DEFAULT_PROVIDER_PRIORITY.forEach(slot => {
+        if (!result.some(s => s.id === slot.id)) result.push({ ...slot });
+    });
+    return result;
+};
+
+export const buildProviderChain = (priority: ProviderSlot[], credentials: ProviderCredentials): LLMProvider[] => {
+    const chain: LLMProvider[] = [];
+    const backupModel = credentials.backupGeminiModel || credentials.geminiModel;
+
+    priority.filter(slot => slot.enabled).forEach(slot => {
+        switch (slot.id) {
+            case 'openai':
+                if (isOpenAIConfigured(credentials.openAI)) {
+                    const { apiKey, baseUrl, model, temperature } = credentials.openAI;
+                    chain.push(createOpenAICompatibleProvider(apiKey, baseUrl, model, PROVIDER_SLOT_LABELS.openai, temperature));
+                }
+                break;
+            case 'gemini':
+                if (credentials.geminiKeyPool && credentials.geminiKeyPool.orderedKeys().length > 0) {
+                    chain.push(createGeminiPoolProvider(credentials.geminiKeyPool, credentials.geminiModel, PROVIDER_SLOT_LABELS.gemini));
+                } else if (credentials.geminiKey) {
+                    chain.push(createGeminiProvider(credentials.geminiKey, credentials.geminiModel, PROVIDER_SLOT_LABELS.gemini));
+                }
+                break;
+            case 'gemini_backup':
+                FALLBACK_API_KEYS.forEach(key => {
+                    chain.push(createGeminiProvider(key, backupModel, PROVIDER_SLOT_LABELS.gemini_backup));
+                });
+                break;
+            case 'key4u_backup':
+                chain.push(createOpenAICompatibleProvider(FALLBACK_KEY4U_KEY, KEY4U_BASE_URL, KEY4U_MODEL, PROVIDER_SLOT_LABELS.key4u_backup));
+                break;
+            case 'mock':
+                chain.push(createMockProvider());
+                break;
+        }
+    });
+
+    return chain;
+};
+
+// Thử lần lượt từng provider theo thứ tự ưu tiên. `parse` ném lỗi => chuyển sang provider tiếp theo.
+export const generateWithProviders = async <T = string>(
+    chain: LLMProvider[],
+    request: LLMRequest,
+    parse: (text: string) => T = (text) => text as unknown as T,
+    onText?: (text: string) => void
+): Promise<{ result: T; provider: string; model: string; usage?: TokenUsage; keyId?: string }> => {
+    for (const provider of chain) {
+        throwIfAborted(request.signal);
+        try {
+            const response = await provider.generate(request, onText);
+            let result: T;
+            try {
+                result = parse(response.text);
+            } catch (error) {
+                response.onRejected?.(error);
+                throw error;
+            }
+            response.onAccepted?.();
+            return { result, provider: provider.label, model: provider.model, usage: response.usage, keyId: response.keyId };
+        } catch (error) {
+            // Người dùng đã hủy: không thử tiếp các key dự phòng
+            if (isAbortError(error) || request.signal?.aborted) throw createAbortError();
+            console.warn(`${provider.label} failed, trying next provider...`, error);
+        }
+    }
+    throw new Error("Tất cả API keys (bao gồm dự phòng) đều lỗi hoặc hết hạn mức.");
+};
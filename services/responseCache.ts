@@ -0,0 +1,131 @@
+// --- RESPONSE CACHE (IndexedDB) ---
+// Lưu kết quả phân tích theo hash nội dung của toàn bộ đầu vào (kịch bản, thiết lập, byte ảnh tham chiếu).
+// Chạy lại cùng đầu vào (VD: lỡ tải lại trang) dùng lại kết quả thay vì gọi và trả tiền cho model lần nữa.
+// Quá giới hạn dung lượng => xóa các mục lâu không dùng nhất (LRU).
+
+export interface CacheSettings {
+    enabled: boolean;
+    maxSizeMB: number;
+}
+
+export const DEFAULT_CACHE_SETTINGS: CacheSettings = { enabled: true, maxSizeMB: 50 };
+
+export const normalizeCacheSettings = (raw: any): CacheSettings => ({
+    enabled: typeof raw?.enabled === 'boolean' ? raw.enabled : DEFAULT_CACHE_SETTINGS.enabled,
+    maxSizeMB: Math.max(1, Math.min(500, parseInt(raw?.maxSizeMB, 10) || DEFAULT_CACHE_SETTINGS.maxSizeMB)),
+});
+
+export interface CacheEntry<T = any> {
+    key: string;
+    label: string;          // Mô tả ngắn để hiển thị (tên kịch bản, số cảnh...)
+    value: T;
+    size: number;           // Byte (ước lượng theo JSON)
+    createdAt: number;
+    lastUsedAt: number;
+}
+
+export interface CacheStats {
+    entries: number;
+    totalBytes: number;
+}
+
+const DB_NAME = 'sbgen_cache';
+const STORE_NAME = 'responses';
+
+// JSON với key đã sắp xếp: cùng nội dung => cùng chuỗi, bất kể thứ tự khai báo field
+const stableStringify = (value: any): string => {
+    if (value === undefined) return 'null';
+    if (value === null || typeof value !== 'object') return JSON.stringify(value);
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    return `{${Object.keys(value).filter(key => value[key] !== undefined).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+};
+
+// Không có Web Crypto (trang không chạy trên HTTPS / localhost) => null, bỏ qua cache
+export const hashCacheInput = async (input: any): Promise<string | null> => {
+    if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+    const bytes = new TextEncoder().encode(stableStringify(input));
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Trình duyệt chặn IndexedDB (chế độ riêng tư...) => cache tự tắt, không làm hỏng luồng tạo storyboard
+const openDatabase = (): Promise<IDBDatabase | null> => new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') return resolve(null);
+    try {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            console.warn("Không mở được IndexedDB cache:", request.error);
+            resolve(null);
+        };
+    } catch (error) {
+        console.warn("Không mở được IndexedDB cache:", error);
+        resolve(null);
+    }
+});
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => Promise<T>, fallback: T): Promise<T> => {
+    const db = await openDatabase();
+    if (!db) return fallback;
+    try {
+        return await run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    } catch (error) {
+        console.warn("Lỗi cache IndexedDB:", error);
+        return fallback;
+    } finally {
+        db.close();
+    }
+};
+
+export const getCachedResponse = <T>(key: string): Promise<CacheEntry<T> | null> =>
+    withStore('readwrite', async (store) => {
+        const entry = await promisify<CacheEntry<T> | undefined>(store.get(key));
+        if (!entry) return null;
+        const touched = { ...entry, lastUsedAt: Date.now() };
+        await promisify(store.put(touched));
+        return touched;
+    }, null);
+
+const listEntries = (store: IDBObjectStore): Promise<CacheEntry[]> => promisify<CacheEntry[]>(store.getAll());
+
+// Lưu rồi xóa các mục cũ nhất cho tới khi tổng dung lượng nằm trong giới hạn.
+// Một mục lớn hơn cả giới hạn thì không lưu.
+export const putCachedResponse = <T>(key: string, value: T, label: string, settings: CacheSettings): Promise<void> =>
+    withStore('readwrite', async (store) => {
+        const size = new TextEncoder().encode(JSON.stringify(value)).length;
+        const limit = settings.maxSizeMB * 1024 * 1024;
+        if (size > limit) return;
+        const now = Date.now();
+        await promisify(store.put({ key, label, value, size, createdAt: now, lastUsedAt: now } as CacheEntry<T>));
+
+        const entries = (await listEntries(store)).sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+        let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+        for (const entry of entries) {
+            if (total <= limit) break;
+            if (entry.key === key) continue;
+            await promisify(store.delete(entry.key));
+            total -= entry.size;
+        }
+    }, undefined);
+
+export const getCacheStats = (): Promise<CacheStats> =>
+    withStore('readonly', async (store) => {
+        const entries = await listEntries(store);
+        return { entries: entries.length, totalBytes: entries.reduce((sum, entry) => sum + entry.size, 0) };
+    }, { entries: 0, totalBytes: 0 });
+
+export const clearResponseCache = (): Promise<void> =>
+    withStore('readwrite', async (store) => {
+        await promisify(store.clear());
+    }, undefined);
+
+export const formatBytes = (bytes: number): string =>
+    bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
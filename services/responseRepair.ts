@@ -0,0 +1,264 @@
+// --- RESPONSE REPAIR & VALIDATION ---
+// Provider OpenAI-compatible không có responseSchema: phản hồi có thể bọc trong ```json, lẫn chữ thừa, có dấu phẩy
+// thừa, bị cắt ngang khi hết token hoặc thiếu trường. Sửa những gì sửa được, loại cảnh không hợp lệ và ghi lại từng bước
+// để người dùng biết kết quả đã được sửa những gì.
+
+export type RepairAction =
+    | 'code_fence'
+    | 'surrounding_text'
+    | 'trailing_comma'
+    | 'truncated'
+    | 'unwrapped'
+    | 'coerced_field'
+    | 'dropped_item'
+    | 'tail_requested'
+    | 'still_missing';
+
+export interface RepairEntry {
+    action: RepairAction;
+    detail: string;
+}
+
+export const REPAIR_ACTION_LABELS: Record<RepairAction, string> = {
+    code_fence: 'Bỏ khối ```json',
+    surrounding_text: 'Bỏ chữ thừa ngoài JSON',
+    trailing_comma: 'Sửa dấu phẩy thừa',
+    truncated: 'Phản hồi bị cắt ngang',
+    unwrapped: 'Gỡ object bọc ngoài',
+    coerced_field: 'Chuẩn hóa kiểu dữ liệu',
+    dropped_item: 'Loại cảnh không hợp lệ',
+    tail_requested: 'Yêu cầu lại phần còn thiếu',
+    still_missing: 'Vẫn còn thiếu',
+};
+
+// Các bước chỉ là định dạng (không mất dữ liệu) => không cần cảnh báo người dùng
+export const isCosmeticRepair = (entry: RepairEntry): boolean =>
+    entry.action === 'code_fence' || entry.action === 'surrounding_text' || entry.action === 'unwrapped';
+
+// Duyệt JSON bỏ qua nội dung chuỗi; `visit` nhận ký tự cấu trúc và vị trí của nó
+const scanStructure = (text: string, visit: (char: string, index: number) => void) => {
+    let inString = false;
+    let escaped = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (char === '\\') escaped = true;
+            else if (char === '"') inString = false;
+            continue;
+        }
+        if (char === '"') inString = true;
+        visit(char, i);
+    }
+};
+
+// Bỏ dấu phẩy đứng ngay trước } hoặc ] (ngoài chuỗi)
+const removeTrailingCommas = (text: string): string => {
+    const drop = new Set<number>();
+    let lastComma = -1;
+    scanStructure(text, (char, index) => {
+        if (char === ',') lastComma = index;
+        else if ((char === '}' || char === ']') && lastComma !== -1) {
+            drop.add(lastComma);
+            lastComma = -1;
+        } else if (!/\s/.test(char)) lastComma = -1;
+    });
+    return drop.size === 0 ? text : Array.from(text).filter((_, i) => !drop.has(i)).join('');
+};
+
+// Phản hồi bị cắt: giữ tới phần tử hoàn chỉnh cuối cùng rồi đóng các ngoặc còn mở
+const closeTruncatedJson = (text: string): string | null => {
+    const stack: string[] = [];
+    let safeEnd = -1;
+    let safeStack: string[] = [];
+    scanStructure(text, (char, index) => {
+        if (char === '{' || char === '[') {
+            stack.push(char === '{' ? '}' : ']');
+        } else if (char === '}' || char === ']') {
+            stack.pop();
+            if (stack.length > 0) {
+                safeEnd = index + 1;
+                safeStack = [...stack];
+            }
+        }
+    });
+    if (safeEnd === -1) return null;
+    return text.substring(0, safeEnd) + safeStack.reverse().join('');
+};
+
+const tryParse = (text: string): { ok: true; value: any } | { ok: false } => {
+    try {
+        return { ok: true, value: JSON.parse(text) };
+    } catch {
+        return { ok: false };
+    }
+};
+
+// Parse JSON "dễ tính": ném lỗi khi không cứu được gì
+export const parseJsonTolerant = (text: string): { value: any; entries: RepairEntry[]; truncated: boolean } => {
+    const entries: RepairEntry[] = [];
+    let body = text.trim();
+
+    const direct = tryParse(body);
+    if (direct.ok) return { value: direct.value, entries, truncated: false };
+
+    const fence = body.match(/```(?:json|JSON)?\s*([\s\S]*?)(?:```|$)/);
+    if (fence && body.includes('```')) {
+        body = fence[1].trim();
+        entries.push({ action: 'code_fence', detail: 'Phản hồi được bọc trong khối mã Markdown.' });
+    }
+
+    const start = body.search(/[\[{]/);
+    if (start === -1) throw new Error("Phản hồi không chứa JSON.");
+    if (start > 0) {
+        entries.push({ action: 'surrounding_text', detail: `Bỏ ${start} ký tự trước JSON.` });
+        body = body.substring(start);
+    }
+
+    const attempt = tryParse(body);
+    if (attempt.ok) return { value: attempt.value, entries, truncated: false };
+
+    // Chữ thừa phía sau JSON
+    const end = Math.max(body.lastIndexOf('}'), body.lastIndexOf(']'));
+    if (end !== -1 && end < body.length - 1) {
+        const trimmed = tryParse(body.substring(0, end + 1));
+        if (trimmed.ok) {
+            entries.push({ action: 'surrounding_text', detail: `Bỏ ${body.length - end - 1} ký tự sau JSON.` });
+            return { value: trimmed.value, entries, truncated: false };
+        }
+    }
+
+    const withoutCommas = removeTrailingCommas(body);
+    if (withoutCommas !== body) {
+        const fixed = tryParse(withoutCommas);
+        if (fixed.ok) {
+            entries.push({ action: 'trailing_comma', detail: 'Bỏ dấu phẩy thừa trước } hoặc ].' });
+            return { value: fixed.value, entries, truncated: false };
+        }
+    }
+
+    const closed = closeTruncatedJson(withoutCommas);
+    const recovered = closed ? tryParse(removeTrailingCommas(closed)) : { ok: false as const };
+    if (recovered.ok) {
+        entries.push({ action: 'truncated', detail: `Giữ ${closed!.length}/${body.length} ký tự đầu (tới phần tử hoàn chỉnh cuối cùng).` });
+        return { value: recovered.value, entries, truncated: true };
+    }
+    throw new Error("Phản hồi không phải JSON hợp lệ và không thể sửa.");
+};
+
+export interface SceneItemSpec {
+    promptField: string;
+    // AI tự phân cảnh => mỗi cảnh bắt buộc có scriptLine; cảnh đã tách sẵn chỉ cần sceneIndex + prompt
+    requireScriptLine: boolean;
+    // Key của mảng cảnh khi phản hồi là object (VD: { "scenes": [...], "continuitySummary": "..." })
+    wrapperKey?: string;
+}
+
+const isPlainObject = (value: any) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Tìm mảng cảnh trong phản hồi: mảng thuần, object bọc theo wrapperKey, object bọc bằng key khác, hoặc một cảnh đơn lẻ
+const unwrapSceneArray = (root: any, spec: SceneItemSpec, entries: RepairEntry[]): any[] => {
+    if (Array.isArray(root)) return root;
+    if (!isPlainObject(root)) throw new Error("Phản hồi không phải mảng cảnh.");
+    const wrapperKey = spec.wrapperKey || 'scenes';
+    if (Array.isArray(root[wrapperKey])) {
+        if (!spec.wrapperKey) entries.push({ action: 'unwrapped', detail: `Lấy mảng cảnh từ "${wrapperKey}".` });
+        return root[wrapperKey];
+    }
+    const otherKey = Object.keys(root).find(key => Array.isArray(root[key]) && root[key].some(isPlainObject));
+    if (otherKey) {
+        entries.push({ action: 'unwrapped', detail: `Lấy mảng cảnh từ "${otherKey}" thay vì "${wrapperKey}".` });
+        return root[otherKey];
+    }
+    if (typeof root[spec.promptField] === 'string') {
+        entries.push({ action: 'unwrapped', detail: 'Phản hồi là một cảnh đơn lẻ, không phải mảng.' });
+        return [root];
+    }
+    throw new Error(`Thiếu mảng ${wrapperKey} trong phản hồi.`);
+};
+
+const toText = (value: any): string | undefined => {
+    if (typeof value === 'string') return value.trim();
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    return undefined;
+};
+
+// Kiểm tra từng cảnh: thiếu trường bắt buộc => loại; sai kiểu => chuẩn hóa
+export const validateSceneItems = (root: any, spec: SceneItemSpec): { items: any[]; entries: RepairEntry[] } => {
+    const entries: RepairEntry[] = [];
+    const rawItems = unwrapSceneArray(root, spec, entries);
+    const items: any[] = [];
+    let coerced = 0;
+
+    rawItems.forEach((raw, position) => {
+        const label = `Cảnh ${position + 1}`;
+        if (!isPlainObject(raw)) {
+            entries.push({ action: 'dropped_item', detail: `${label}: không phải object.` });
+            return;
+        }
+        const prompt = toText(raw[spec.promptField]);
+        if (!prompt) {
+            entries.push({ action: 'dropped_item', detail: `${label}: thiếu "${spec.promptField}".` });
+            return;
+        }
+        const scriptLine = typeof raw.scriptLine === 'string' ? raw.scriptLine : toText(raw.scriptLine);
+        if (spec.requireScriptLine && !scriptLine?.trim()) {
+            entries.push({ action: 'dropped_item', detail: `${label}: thiếu "scriptLine".` });
+            return;
+        }
+
+        const item: any = { ...raw, [spec.promptField]: prompt, phase: toText(raw.phase) ?? "" };
+        if (scriptLine !== undefined) item.scriptLine = scriptLine;
+        if (typeof raw[spec.promptField] !== 'string' || (raw.phase !== undefined && typeof raw.phase !== 'string')) coerced++;
+        if (raw.sceneIndex !== undefined && typeof raw.sceneIndex !== 'number') {
+            item.sceneIndex = Number(raw.sceneIndex);
+            coerced++;
+        }
+        if (raw.promptVariants !== undefined && !Array.isArray(raw.promptVariants)) {
+            delete item.promptVariants;
+            coerced++;
+        }
+        if (raw.shot !== undefined && !isPlainObject(raw.shot)) {
+            delete item.shot;
+            coerced++;
+        }
+        items.push(item);
+    });
+
+    if (coerced > 0) entries.push({ action: 'coerced_field', detail: `Chuẩn hóa ${coerced} trường sai kiểu dữ liệu.` });
+    if (items.length === 0) throw new Error("Không có cảnh hợp lệ nào trong phản hồi.");
+    return { items, entries };
+};
+
+// Parse + kiểm tra một phản hồi mảng cảnh. `root` giữ object gốc (để đọc continuitySummary...)
+export const parseSceneResponse = (text: string, spec: SceneItemSpec): { items: any[]; root: any; entries: RepairEntry[]; truncated: boolean } => {
+    const parsed = parseJsonTolerant(text);
+    const validated = validateSceneItems(parsed.value, spec);
+    return { items: validated.items, root: parsed.value, entries: [...parsed.entries, ...validated.entries], truncated: parsed.truncated };
+};
+
+// Phần cuối kịch bản chưa có cảnh nào (sau scriptLine cuối cùng tìm được trong kịch bản gốc).
+// Không định vị được cảnh cuối => '' (không đoán).
+export const findUncoveredTail = (script: string, scenes: { scriptLine?: string }[]): string => {
+    let cursor = 0;
+    let located = false;
+    scenes.forEach(scene => {
+        const line = (scene.scriptLine || "").trim();
+        if (!line) return;
+        let index = script.indexOf(line, cursor);
+        let length = line.length;
+        if (index === -1) {
+            // scriptLine bị sửa nhẹ: thử khớp đoạn cuối của nó
+            const ending = line.substring(Math.max(0, line.length - 30));
+            index = script.indexOf(ending, cursor);
+            length = ending.length;
+        }
+        if (index === -1) {
+            located = false;
+            return;
+        }
+        cursor = index + length;
+        located = true;
+    });
+    return located ? script.substring(cursor).trim() : "";
+};
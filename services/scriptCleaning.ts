@@ -0,0 +1,222 @@
+// --- SCRIPT CLEANING REVIEW ---
+// So sánh kịch bản gốc với bản đã làm sạch theo từng dòng. Mỗi dòng khác nhau (ghép cặp dòng gốc - dòng sạch) là một
+// thay đổi người dùng có thể chấp nhận / từ chối; thay đổi làm khác lời thoại (không chỉ bỏ ghi chú sân khấu /
+// Markdown) được đánh dấu.
+
+export type ScriptChangeKind = 'removed' | 'modified' | 'added';
+
+export interface ScriptChange {
+    id: number;
+    kind: ScriptChangeKind;
+    originalLines: string[];
+    cleanedLines: string[];
+    altersSpokenWords: boolean;
+    lostWords: string[];        // Lời thoại có trong bản gốc nhưng mất trong bản sạch
+    addedWords: string[];       // Lời thoại mới xuất hiện trong bản sạch
+}
+
+// Đoạn kịch bản: giữ nguyên (dòng giống nhau) hoặc một thay đổi
+export type ScriptDiffSegment =
+    | { type: 'equal'; lines: string[] }
+    | { type: 'change'; change: ScriptChange };
+
+export interface ScriptDiff {
+    segments: ScriptDiffSegment[];
+    changes: ScriptChange[];
+}
+
+// Dòng chỉ chứa tiêu đề cảnh / ghi chú sân khấu / đường kẻ => không phải lời thoại
+const NON_SPOKEN_LINE = /^\s*(?:(?:scene|cảnh|act|hồi)\s*\d+\b.*|(?:INT|EXT|INT\/EXT)\.?\s.*|[-=*_~#]{3,}|\[[^\]]*\]|\([^)]*\))\s*$/i;
+
+// Lời thoại của một đoạn: bỏ [ghi chú], (ghi chú), ký hiệu Markdown, dấu câu đầu/cuối từ
+export const extractSpokenWords = (lines: string[]): string[] =>
+    lines
+        .filter(line => !NON_SPOKEN_LINE.test(line))
+        .join(' ')
+        .replace(/\[[^\]]*\]|\([^)]*\)/g, ' ')
+        .replace(/[*_`~#>|]+/g, ' ')
+        .split(/\s+/)
+        .map(word => word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ''))
+        .filter(Boolean);
+
+// Hiệu hai danh sách từ (tính cả số lần xuất hiện)
+const subtractWords = (from: string[], remove: string[]): string[] => {
+    const counts = new Map<string, number>();
+    remove.forEach(word => counts.set(word, (counts.get(word) || 0) + 1));
+    return from.filter(word => {
+        const count = counts.get(word) || 0;
+        if (count === 0) return true;
+        counts.set(word, count - 1);
+        return false;
+    });
+};
+
+const buildChange = (id: number, originalLines: string[], cleanedLines: string[]): ScriptChange => {
+    const originalWords = extractSpokenWords(originalLines);
+    const cleanedWords = extractSpokenWords(cleanedLines);
+    const altersSpokenWords = originalWords.join(' ') !== cleanedWords.join(' ');
+    return {
+        id,
+        kind: originalLines.length === 0 ? 'added' : cleanedLines.length === 0 ? 'removed' : 'modified',
+        originalLines,
+        cleanedLines,
+        altersSpokenWords,
+        lostWords: altersSpokenWords ? subtractWords(originalWords, cleanedWords) : [],
+        addedWords: altersSpokenWords ? subtractWords(cleanedWords, originalWords) : [],
+    };
+};
+
+// Quá nhiều dòng khác nhau (model viết lại cả bài) => coi toàn bộ là một thay đổi thay vì tốn bộ nhớ cho trace
+const MAX_EDIT_DISTANCE = 1500;
+
+// Diff Myers (O((N+M)·D)): bản sạch thường chỉ khác vài dòng nên D nhỏ kể cả với kịch bản dài.
+// Khoảng trắng đầu/cuối dòng không tính là khác biệt.
+const diffLines = (a: string[], b: string[]): { type: 'equal' | 'delete' | 'insert'; line: string }[] => {
+    const same = (i: number, j: number) => a[i].trim() === b[j].trim();
+    const max = a.length + b.length;
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+    const trace: Int32Array[] = [];
+
+    outer: for (let d = 0; d <= max; d++) {
+        if (d > MAX_EDIT_DISTANCE) {
+            return [...a.map(line => ({ type: 'delete' as const, line })), ...b.map(line => ({ type: 'insert' as const, line }))];
+        }
+        trace.push(v.slice());
+        for (let k = -d; k <= d; k += 2) {
+            let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < a.length && y < b.length && same(x, y)) { x++; y++; }
+            v[offset + k] = x;
+            if (x >= a.length && y >= b.length) break outer;
+        }
+    }
+
+    // Lần ngược trace để dựng lại chuỗi thao tác
+    const ops: { type: 'equal' | 'delete' | 'insert'; line: string }[] = [];
+    let x = a.length;
+    let y = b.length;
+    for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+        const vd = trace[d];
+        const k = x - y;
+        const prevK = (k === -d || (k !== d && vd[offset + k - 1] < vd[offset + k + 1])) ? k + 1 : k - 1;
+        const prevX = d === 0 ? 0 : vd[offset + prevK];
+        const prevY = prevX - prevK;
+        while (x > prevX && y > prevY) {
+            ops.push({ type: 'equal', line: b[y - 1] });
+            x--;
+            y--;
+        }
+        if (d === 0) break;
+        if (x === prevX) ops.push({ type: 'insert', line: b[--y] });
+        else ops.push({ type: 'delete', line: a[--x] });
+    }
+    return ops.reverse();
+};
+
+const lineTokens = (line: string): string[] => line.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+// Số từ chung của hai dòng (0 = không liên quan, không ghép cặp)
+const sharedTokenCount = (a: string[], b: string[]): number => {
+    const set = new Set(b);
+    return a.filter(token => set.has(token)).length;
+};
+
+// Hunk quá lớn (model viết lại cả bài) => ghép theo vị trí thay vì dựng bảng quy hoạch động
+const MAX_PAIRING_CELLS = 250_000;
+
+// Ghép 1-1 các dòng bị xóa với các dòng mới trong một hunk (giữ thứ tự, ưu tiên cặp có nhiều từ chung).
+// Dòng không ghép được là thay đổi riêng (chỉ xóa / chỉ thêm), để mỗi dòng được duyệt độc lập.
+const pairHunkLines = (removed: string[], added: string[]): { originalLines: string[]; cleanedLines: string[] }[] => {
+    const n = removed.length;
+    const m = added.length;
+    if (n === 0 || m === 0 || n * m > MAX_PAIRING_CELLS) {
+        const count = n * m > MAX_PAIRING_CELLS ? Math.min(n, m) : 0;
+        return [
+            ...Array.from({ length: count }, (_, i) => ({ originalLines: [removed[i]], cleanedLines: [added[i]] })),
+            ...removed.slice(count).map(line => ({ originalLines: [line], cleanedLines: [] })),
+            ...added.slice(count).map(line => ({ originalLines: [], cleanedLines: [line] })),
+        ];
+    }
+
+    const removedTokens = removed.map(lineTokens);
+    const addedTokens = added.map(lineTokens);
+    const score = (i: number, j: number) => sharedTokenCount(removedTokens[i], addedTokens[j]);
+    // best[i][j]: tổng số từ chung lớn nhất khi ghép removed[i..] với added[j..]
+    const best = Array.from({ length: n + 1 }, () => new Int32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            const shared = score(i, j);
+            best[i][j] = Math.max(best[i + 1][j], best[i][j + 1], shared > 0 ? best[i + 1][j + 1] + shared : 0);
+        }
+    }
+
+    const pairs: { originalLines: string[]; cleanedLines: string[] }[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+        const shared = score(i, j);
+        if (shared > 0 && best[i][j] === best[i + 1][j + 1] + shared) {
+            pairs.push({ originalLines: [removed[i++]], cleanedLines: [added[j++]] });
+        } else if (best[i][j] === best[i + 1][j]) {
+            pairs.push({ originalLines: [removed[i++]], cleanedLines: [] });
+        } else {
+            pairs.push({ originalLines: [], cleanedLines: [added[j++]] });
+        }
+    }
+    while (i < n) pairs.push({ originalLines: [removed[i++]], cleanedLines: [] });
+    while (j < m) pairs.push({ originalLines: [], cleanedLines: [added[j++]] });
+    return pairs;
+};
+
+export const diffScript = (original: string, cleaned: string): ScriptDiff => {
+    const segments: ScriptDiffSegment[] = [];
+    const changes: ScriptChange[] = [];
+    let removed: string[] = [];
+    let added: string[] = [];
+
+    const pushEqual = (lines: string[]) => {
+        const last = segments[segments.length - 1];
+        if (last?.type === 'equal') last.lines.push(...lines);
+        else segments.push({ type: 'equal', lines: [...lines] });
+    };
+
+    const flushChange = () => {
+        pairHunkLines(removed, added).forEach(({ originalLines, cleanedLines }) => {
+            // Chỉ thêm/bớt dòng trống => không đáng để duyệt, giữ theo bản sạch
+            if ([...originalLines, ...cleanedLines].every(line => !line.trim())) {
+                if (cleanedLines.length > 0) pushEqual(cleanedLines);
+                return;
+            }
+            const change = buildChange(changes.length, originalLines, cleanedLines);
+            changes.push(change);
+            segments.push({ type: 'change', change });
+        });
+        removed = [];
+        added = [];
+    };
+
+    diffLines(original.replace(/\r\n?/g, '\n').split('\n'), cleaned.replace(/\r\n?/g, '\n').split('\n')).forEach(op => {
+        if (op.type === 'delete') removed.push(op.line);
+        else if (op.type === 'insert') added.push(op.line);
+        else {
+            flushChange();
+            pushEqual([op.line]);
+        }
+    });
+    flushChange();
+    return { segments, changes };
+};
+
+// Mặc định chỉ chấp nhận các thay đổi không đụng tới lời thoại
+export const defaultChangeDecisions = (diff: ScriptDiff): Record<number, boolean> =>
+    Object.fromEntries(diff.changes.map(change => [change.id, !change.altersSpokenWords]));
+
+// Dựng kịch bản từ các quyết định: thay đổi được chấp nhận lấy bản sạch, bị từ chối giữ bản gốc
+export const applyScriptChanges = (diff: ScriptDiff, accepted: Record<number, boolean>): string =>
+    diff.segments
+        .flatMap(segment => segment.type === 'equal'
+            ? segment.lines
+            : (accepted[segment.change.id] ? segment.change.cleanedLines : segment.change.originalLines))
+        .join('\n')
+        .trim();
@@ -0,0 +1,179 @@
+// --- RULE-BASED SCRIPT CLEANER ---
+// Làm sạch kịch bản ngay trên trình duyệt theo đúng các quy tắc của standardizeScriptWithAI (bỏ ghi chú sân khấu,
+// tiêu đề cảnh, Markdown, nối dòng bị ngắt) nhưng không cần gọi model: chạy offline, xem trước tức thì.
+
+import { isSubtitleTimingLine, looksLikeSubtitles } from "./subtitles";
+
+export type CleanerRuleId = 'brackets' | 'parentheses' | 'scene_headings' | 'markdown' | 'join_lines' | 'whitespace';
+
+export const CLEANER_RULES: { id: CleanerRuleId; label: string; example: string }[] = [
+    { id: 'brackets', label: 'Ghi chú trong ngoặc vuông', example: '[Laughs], [Nhạc nền]' },
+    { id: 'parentheses', label: 'Ghi chú trong ngoặc tròn', example: '(Sighs), (cười)' },
+    { id: 'scene_headings', label: 'Tiêu đề cảnh', example: 'Scene 1, Cảnh 2, EXT. DAY' },
+    { id: 'markdown', label: 'Markdown & đường kẻ', example: '**đậm**, *nghiêng*, # tiêu đề, ---' },
+    { id: 'join_lines', label: 'Nối dòng bị ngắt giữa câu', example: 'Xin chào các / bạn. → một dòng' },
+    { id: 'whitespace', label: 'Khoảng trắng & dòng trống thừa', example: '3 dòng trống → 1' },
+];
+
+// Quy tắc người dùng tự thêm: áp dụng cho từng dòng, trước các quy tắc có sẵn
+export interface CustomCleanerRule {
+    id: string;
+    label: string;
+    pattern: string;
+    flags: string;
+    replacement: string;
+    enabled: boolean;
+}
+
+// Chuỗi làm sạch: chỉ quy tắc (offline), chỉ AI, hoặc quy tắc trước rồi AI
+export type CleaningPipeline = 'rules' | 'ai' | 'rules_then_ai';
+
+export const CLEANING_PIPELINE_LABELS: Record<CleaningPipeline, string> = {
+    rules: 'Quy tắc (offline)',
+    ai: 'AI',
+    rules_then_ai: 'Quy tắc → AI',
+};
+
+export interface ScriptCleanerSettings {
+    pipeline: CleaningPipeline;
+    rules: Record<CleanerRuleId, boolean>;
+    customRules: CustomCleanerRule[];
+}
+
+export const DEFAULT_CLEANER_SETTINGS: ScriptCleanerSettings = {
+    pipeline: 'rules',
+    rules: { brackets: true, parentheses: true, scene_headings: true, markdown: true, join_lines: true, whitespace: true },
+    customRules: [],
+};
+
+export const EMPTY_CUSTOM_RULE: Omit<CustomCleanerRule, 'id'> = { label: '', pattern: '', flags: 'g', replacement: '', enabled: true };
+
+export const normalizeCleanerSettings = (raw: any): ScriptCleanerSettings => ({
+    pipeline: raw?.pipeline in CLEANING_PIPELINE_LABELS ? raw.pipeline : DEFAULT_CLEANER_SETTINGS.pipeline,
+    rules: Object.fromEntries(CLEANER_RULES.map(rule => [
+        rule.id,
+        typeof raw?.rules?.[rule.id] === 'boolean' ? raw.rules[rule.id] : DEFAULT_CLEANER_SETTINGS.rules[rule.id]
+    ])) as Record<CleanerRuleId, boolean>,
+    customRules: Array.isArray(raw?.customRules)
+        ? raw.customRules.filter((rule: any) => typeof rule?.pattern === 'string').map((rule: any, index: number) => ({
+            id: String(rule.id || `rule-${index}`),
+            label: String(rule.label || ''),
+            pattern: rule.pattern,
+            flags: String(rule.flags ?? 'g'),
+            replacement: String(rule.replacement || ''),
+            enabled: rule.enabled !== false,
+        }))
+        : [],
+});
+
+// Regex không hợp lệ => thông báo lỗi (để hiện ngay cạnh ô nhập), hợp lệ => null
+export const validateCustomRule = (rule: Pick<CustomCleanerRule, 'pattern' | 'flags'>): string | null => {
+    if (!rule.pattern) return 'Chưa nhập biểu thức.';
+    try {
+        new RegExp(rule.pattern, rule.flags);
+        return null;
+    } catch (error: any) {
+        return error.message;
+    }
+};
+
+export interface RuleCleaningResult {
+    text: string;
+    counts: Partial<Record<CleanerRuleId | 'custom', number>>;
+}
+
+const SCENE_HEADING = /^(?:(?:scene|cảnh|act|hồi|shot)\s*\d+\b|(?:INT|EXT|INT\.?\/EXT|I\/E)\.\s)/i;
+const SEPARATOR_LINE = /^\s*([-=*_~#])\1{2,}\s*$/;
+const SENTENCE_END = /(?:[.!?…:;。！？]|["'”’»)\]])$/;
+// Dòng thoại mới (gạch đầu dòng hoặc "TÊN:") không bao giờ được nối vào dòng trước
+const DIALOGUE_START = /^(?:[-–—•]\s|[\p{Lu}][\p{Lu}\s.]{1,30}:)/u;
+
+const MARKDOWN_REPLACEMENTS: [RegExp, string][] = [
+    [/^\s{0,3}#{1,6}\s+/, ''],
+    [/^\s*>\s?/, ''],
+    [/\*\*(.+?)\*\*/g, '$1'],
+    [/__(.+?)__/g, '$1'],
+    [/~~(.+?)~~/g, '$1'],
+    [/`([^`]+)`/g, '$1'],
+    [/\*(?!\s)(.+?)(?<!\s)\*/g, '$1'],
+    [/(?<![\p{L}\p{N}])_(?!\s)(.+?)(?<!\s)_(?![\p{L}\p{N}])/gu, '$1'],
+];
+
+// Đánh dấu tạm chỗ vừa bỏ ghi chú [..] / (..) để chỉ dọn khoảng trắng quanh đúng chỗ đó
+const REMOVED_NOTE = '\u0000';
+
+const tidyRemovedNotes = (text: string): string => text
+    .replace(/^[ \t]*(?:\u0000[ \t]*)+/, '')
+    .replace(/(?:[ \t]*\u0000)+[ \t]*$/, '')
+    .replace(/[ \t]*(?:\u0000[ \t]*)+(?=[,.!?…;:])/g, '')
+    .replace(/[ \t]*(?:\u0000[ \t]*)+/g, ' ');
+
+// Thay thế và trả về số lần khớp (để báo "đã bỏ N ghi chú")
+const replaceCounting = (text: string, pattern: RegExp, replacement: string): [string, number] => {
+    const hits = pattern.global ? (text.match(pattern) || []).length : (pattern.test(text) ? 1 : 0);
+    return hits > 0 ? [text.replace(pattern, replacement), hits] : [text, 0];
+};
+
+export const cleanScriptWithRules = (script: string, settings: ScriptCleanerSettings): RuleCleaningResult => {
+    const { rules } = settings;
+    const counts: RuleCleaningResult['counts'] = {};
+    const count = (id: CleanerRuleId | 'custom', hits: number = 1) => { if (hits > 0) counts[id] = (counts[id] || 0) + hits; };
+    const apply = (text: string, pattern: RegExp, replacement: string, id: CleanerRuleId | 'custom') => {
+        const [result, hits] = replaceCounting(text, pattern, replacement);
+        count(id, hits);
+        return result;
+    };
+    const isSubtitle = looksLikeSubtitles(script);
+    const customRules = settings.customRules
+        .filter(rule => rule.enabled && !validateCustomRule(rule))
+        .map(rule => ({ regex: new RegExp(rule.pattern, rule.flags.includes('g') ? rule.flags : rule.flags + 'g'), replacement: rule.replacement }));
+
+    // Phụ đề: giữ nguyên số thứ tự cue, dòng thời gian và header WEBVTT, chỉ làm sạch phần chữ
+    const isProtected = (line: string) => isSubtitle && (isSubtitleTimingLine(line) || /^\s*\d+\s*$/.test(line) || /^(WEBVTT|NOTE\b|STYLE\b|REGION\b)/.test(line));
+
+    // null = dòng bị xóa hẳn (khác dòng trống có sẵn trong kịch bản). Tiêu đề Markdown giữ dòng riêng, không nối.
+    const headingLines = new Set<number>();
+    const cleanedLines: (string | null)[] = script.replace(/\r\n?/g, '\n').split('\n').map((line, index) => {
+        if (!line.trim() || isProtected(line)) return line;
+        let result = line;
+        customRules.forEach(rule => { result = apply(result, rule.regex, rule.replacement, 'custom'); });
+        if (rules.scene_headings && SCENE_HEADING.test(result.trim()) && result.trim().split(/\s+/).length <= 10) {
+            count('scene_headings');
+            return null;
+        }
+        if (rules.markdown) {
+            if (SEPARATOR_LINE.test(result)) {
+                count('markdown');
+                return null;
+            }
+            if (MARKDOWN_REPLACEMENTS[0][0].test(result)) headingLines.add(index);
+            MARKDOWN_REPLACEMENTS.forEach(([pattern, replacement]) => { result = apply(result, pattern, replacement, 'markdown'); });
+        }
+        if (rules.brackets) result = apply(result, /\[[^\]]*\]/g, REMOVED_NOTE, 'brackets');
+        if (rules.parentheses) result = apply(result, /\([^)]*\)/g, REMOVED_NOTE, 'parentheses');
+        if (result.includes(REMOVED_NOTE)) result = tidyRemovedNotes(result);
+        if (rules.whitespace) result = result.replace(/[ \t]{2,}/g, ' ').trim();
+        return result.trim() ? result : null;
+    });
+
+    const lines: string[] = [];
+    let previousIsHeading = false;
+    cleanedLines.forEach((line, index) => {
+        if (line === null) return;
+        const previous = lines[lines.length - 1];
+        if (rules.join_lines && !isSubtitle && !previousIsHeading && !headingLines.has(index) && previous?.trim() && line.trim()
+            && !SENTENCE_END.test(previous.trim()) && !DIALOGUE_START.test(line.trim())) {
+            lines[lines.length - 1] = `${previous.trimEnd()} ${line.trim()}`;
+            count('join_lines');
+            return;
+        }
+        lines.push(line);
+        previousIsHeading = headingLines.has(index);
+    });
+
+    let text = lines.join('\n');
+    if (rules.whitespace) {
+        text = apply(text.split('\n').map(line => line.trimEnd()).join('\n'), /\n{3,}/g, '\n\n', 'whitespace');
+    }
+    return { text: text.trim(), counts };
+};
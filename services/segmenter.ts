@@ -0,0 +1,241 @@
+// --- LOCAL SEGMENTATION ENGINE ---
+// Tách cảnh hoàn toàn offline và tất định: cùng một kịch bản luôn cho cùng một danh sách cảnh.
+// Mỗi cảnh là một đoạn con nguyên văn của kịch bản gốc (chỉ bỏ khoảng trắng ở đầu/cuối cảnh).
+
+export interface ScriptSegment {
+    start: number;          // Vị trí ký tự bắt đầu trong kịch bản gốc
+    end: number;            // Vị trí kết thúc (không gồm khoảng trắng cuối)
+    wordCount: number;
+}
+
+export type LocalSegmentationMode = 'punctuation' | 'fixed';
+
+// Câu dài hơn ngưỡng này được tách tiếp tại dấu phẩy/chấm phẩy (giống quy tắc của chế độ dấu chấm câu)
+export const MAX_SENTENCE_WORDS = 50;
+
+// Từ viết tắt kết thúc bằng dấu chấm không phải là kết câu (so sánh chữ thường, bỏ dấu chấm cuối)
+const ABBREVIATIONS = new Set([
+    // English
+    'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'vs', 'etc', 'inc', 'ltd', 'co', 'corp',
+    'no', 'vol', 'fig', 'approx', 'dept', 'est', 'gen', 'gov', 'lt', 'col', 'capt', 'sgt', 'rev',
+    'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec',
+    // Tiếng Việt
+    'tp', 'q', 'p', 'tx', 'gs', 'pgs', 'ts', 'ths', 'bs', 'ks', 'th.s', 'ng', 'tr', 'đ', 'v.v',
+]);
+
+// Dấu kết câu: ..., …, ., !, ?, 。, ！, ？ (kèm dấu nháy/ngoặc đóng phía sau)
+const SENTENCE_END = /(?:\.{2,}|…|[.!?。！？])+["'”’»)\]]*/g;
+const CLOSING_MARKS = /["'”’»)\]]+$/;
+
+export const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+const makeSegment = (script: string, start: number, end: number): ScriptSegment | null => {
+    while (start < end && /\s/.test(script[start])) start++;
+    while (end > start && /\s/.test(script[end - 1])) end--;
+    if (start >= end) return null;
+    return { start, end, wordCount: countWords(script.substring(start, end)) };
+};
+
+export const segmentText = (script: string, segment: ScriptSegment): string => script.substring(segment.start, segment.end);
+
+// Ký tự đầu của câu tiếp theo: chữ hoa, số, dấu nháy/ngoặc mở hoặc gạch đầu dòng hội thoại
+const startsNewSentence = (text: string): boolean => /^[\p{Lu}\p{N}"'“‘«(\[\-–—]/u.test(text);
+
+const isAbbreviation = (script: string, markStart: number, mark: string): boolean => {
+    if (mark.replace(CLOSING_MARKS, '') !== '.') return false;
+    const before = script.substring(0, markStart);
+    const word = (before.match(/\S+$/) || [''])[0].replace(/^["'“‘«(\[]+/, '');
+    if (!word) return false;
+    const lower = word.toLowerCase();
+    if (ABBREVIATIONS.has(lower)) return true;
+    // Chữ cái viết tắt tên riêng (J. K. Rowling) hoặc dạng U.S. / e.g. / i.e.
+    if (/^\p{L}$/u.test(word) || /^(\p{L}\.)+\p{L}$/u.test(word)) return true;
+    // Số thứ tự đầu dòng (1. 2. ...)
+    if (/^\d{1,2}$/.test(word) && /(^|\n)\s*$/.test(before.substring(0, before.length - word.length))) return true;
+    return false;
+};
+
+// Tách câu: dấu kết câu + khoảng trắng + đầu câu mới, đoạn trống (\n\n), hoặc xuống dòng trước đầu câu mới
+export const splitSentences = (script: string): ScriptSegment[] => {
+    const boundaries = new Set<number>();
+
+    SENTENCE_END.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = SENTENCE_END.exec(script)) !== null) {
+        const markEnd = match.index + match[0].length;
+        const rest = script.substring(markEnd);
+        const whitespace = (rest.match(/^\s+/) || [''])[0];
+        if (markEnd < script.length && !whitespace) continue;
+        const next = rest.substring(whitespace.length);
+        if (next && !startsNewSentence(next) && !whitespace.includes('\n')) continue;
+        if (isAbbreviation(script, match.index, match[0]) && !whitespace.includes('\n')) continue;
+        boundaries.add(markEnd);
+    }
+
+    const lineBreak = /\n(\s*\n)?/g;
+    while ((match = lineBreak.exec(script)) !== null) {
+        const next = script.substring(match.index + match[0].length).replace(/^\s+/, '');
+        if (match[1] || startsNewSentence(next)) boundaries.add(match.index);
+    }
+
+    const segments: ScriptSegment[] = [];
+    let start = 0;
+    Array.from(boundaries).sort((a, b) => a - b).concat(script.length).forEach(boundary => {
+        if (boundary <= start) return;
+        const segment = makeSegment(script, start, boundary);
+        if (segment) segments.push(segment);
+        start = boundary;
+    });
+    return segments;
+};
+
+// Tách một cảnh làm đôi gần giữa nhất (theo số từ): ưu tiên dấu phẩy/chấm phẩy/gạch ngang,
+// `clauseOnly` = false thì cho phép cắt tại khoảng trắng bất kỳ
+const splitSegmentInTwo = (script: string, segment: ScriptSegment, clauseOnly: boolean): [ScriptSegment, ScriptSegment] | null => {
+    if (segment.wordCount < 2) return null;
+    const text = segmentText(script, segment);
+    const candidates: { position: number; wordsBefore: number; isClause: boolean }[] = [];
+    const whitespace = /\s+/g;
+    let match: RegExpExecArray | null;
+    let wordsBefore = 0;
+    while ((match = whitespace.exec(text)) !== null) {
+        if (match.index === 0) continue;
+        wordsBefore++;
+        candidates.push({
+            position: segment.start + match.index,
+            wordsBefore,
+            isClause: /[,;:，；：\-–—]["'”’»)\]]*$/.test(text.substring(0, match.index)),
+        });
+    }
+
+    const middle = segment.wordCount / 2;
+    const distance = (c: { wordsBefore: number }) => Math.abs(c.wordsBefore - middle);
+    // Dấu phẩy chỉ được chọn khi nằm trong khoảng 25%-75% của câu để tránh cảnh quá ngắn
+    const clauses = candidates.filter(c => c.isClause && c.wordsBefore >= segment.wordCount * 0.25 && c.wordsBefore <= segment.wordCount * 0.75);
+    const pool = clauses.length > 0 ? clauses : (clauseOnly ? [] : candidates);
+    if (pool.length === 0) return null;
+    const best = pool.reduce((a, b) => distance(b) < distance(a) ? b : a);
+
+    const left = makeSegment(script, segment.start, best.position);
+    const right = makeSegment(script, best.position, segment.end);
+    return left && right ? [left, right] : null;
+};
+
+// Tách một đoạn văn làm đôi: ưu tiên ranh giới câu gần giữa (20%-80% số từ), sau đó tới dấu phẩy/chấm phẩy,
+// cuối cùng mới cắt tại khoảng trắng. Hai nửa không chứa khoảng trắng thừa ở đầu/cuối.
+export const splitTextInTwo = (text: string): [string, string] | null => {
+    const whole = makeSegment(text, 0, text.length);
+    if (!whole || whole.wordCount < 2) return null;
+
+    const sentences = splitSentences(text);
+    if (sentences.length > 1) {
+        let bestIndex = -1;
+        let bestWordsBefore = 0;
+        let wordsBefore = 0;
+        for (let i = 0; i < sentences.length - 1; i++) {
+            wordsBefore += sentences[i].wordCount;
+            if (bestIndex === -1 || Math.abs(wordsBefore - whole.wordCount / 2) < Math.abs(bestWordsBefore - whole.wordCount / 2)) {
+                bestIndex = i;
+                bestWordsBefore = wordsBefore;
+            }
+        }
+        if (bestWordsBefore >= whole.wordCount * 0.2 && bestWordsBefore <= whole.wordCount * 0.8) {
+            return [text.substring(whole.start, sentences[bestIndex].end), text.substring(sentences[bestIndex + 1].start, whole.end)];
+        }
+    }
+
+    const halves = splitSegmentInTwo(text, whole, false);
+    return halves ? [segmentText(text, halves[0]), segmentText(text, halves[1])] : null;
+};
+
+// Tách đệ quy các cảnh dài hơn `maxWords` tại ranh giới mệnh đề
+const splitLongSegments = (script: string, segments: ScriptSegment[], maxWords: number): ScriptSegment[] =>
+    segments.flatMap(segment => {
+        if (segment.wordCount <= maxWords) return [segment];
+        const halves = splitSegmentInTwo(script, segment, true);
+        return halves ? splitLongSegments(script, halves, maxWords) : [segment];
+    });
+
+const mergeSegments = (script: string, first: ScriptSegment, last: ScriptSegment): ScriptSegment =>
+    makeSegment(script, first.start, last.end)!;
+
+// Chia các câu thành đúng `count` cảnh liên tiếp có số từ cân bằng nhất có thể
+export const partitionByWordCount = (script: string, sentences: ScriptSegment[], count: number): ScriptSegment[] => {
+    if (sentences.length === 0 || count <= 0) return [];
+    const totalWords = sentences.reduce((sum, s) => sum + s.wordCount, 0);
+
+    // Câu quá dài so với độ dài trung bình của một cảnh được tách tại dấu phẩy trước
+    let segments = splitLongSegments(script, sentences, Math.max(1, Math.ceil((totalWords / count) * 1.5)));
+
+    // Thiếu cảnh: tách dần cảnh dài nhất (cho phép cắt tại khoảng trắng)
+    while (segments.length < count) {
+        const longestIndex = segments.reduce((best, s, i) => s.wordCount > segments[best].wordCount ? i : best, 0);
+        const halves = splitSegmentInTwo(script, segments[longestIndex], false);
+        if (!halves) break;
+        segments = [...segments.slice(0, longestIndex), ...halves, ...segments.slice(longestIndex + 1)];
+    }
+    if (segments.length <= count) return segments;
+
+    // Thừa cảnh: đặt ranh giới thứ k tại vị trí có số từ tích lũy gần k * (tổng / count) nhất
+    const cumulative: number[] = [0];
+    segments.forEach(s => cumulative.push(cumulative[cumulative.length - 1] + s.wordCount));
+    const result: ScriptSegment[] = [];
+    let groupStart = 0;
+    for (let k = 1; k < count; k++) {
+        const target = (k * totalWords) / count;
+        const maxBoundary = segments.length - (count - k);
+        let boundary = groupStart + 1;
+        while (boundary < maxBoundary && Math.abs(cumulative[boundary + 1] - target) <= Math.abs(cumulative[boundary] - target)) {
+            boundary++;
+        }
+        result.push(mergeSegments(script, segments[groupStart], segments[boundary - 1]));
+        groupStart = boundary;
+    }
+    result.push(mergeSegments(script, segments[groupStart], segments[segments.length - 1]));
+    return result;
+};
+
+export const segmentScript = (script: string, mode: LocalSegmentationMode, targetSceneCount: number = 10): ScriptSegment[] => {
+    const sentences = splitSentences(script);
+    if (mode === 'fixed') return partitionByWordCount(script, sentences, Math.max(1, targetSceneCount));
+    return splitLongSegments(script, sentences, MAX_SENTENCE_WORDS);
+};
+
+// --- NARRATION DURATION ---
+// Ước lượng thời lượng đọc (voice-over) theo tốc độ nói để chia cảnh "mỗi cảnh N giây".
+
+export interface SpeakingRatePreset {
+    id: string;
+    label: string;
+    wordsPerMinute: number;
+}
+
+// Tiếng Việt tính theo âm tiết (mỗi âm tiết là một "từ" khi đếm theo khoảng trắng)
+export const SPEAKING_RATE_PRESETS: SpeakingRatePreset[] = [
+    { id: 'vi_slow', label: 'Tiếng Việt - chậm (kể chuyện)', wordsPerMinute: 140 },
+    { id: 'vi_normal', label: 'Tiếng Việt - vừa', wordsPerMinute: 170 },
+    { id: 'vi_fast', label: 'Tiếng Việt - nhanh (review, tin tức)', wordsPerMinute: 200 },
+    { id: 'en_slow', label: 'English - slow (documentary)', wordsPerMinute: 120 },
+    { id: 'en_normal', label: 'English - normal', wordsPerMinute: 150 },
+    { id: 'en_fast', label: 'English - fast', wordsPerMinute: 175 },
+];
+
+export const estimateNarrationSeconds = (text: string, wordsPerMinute: number): number =>
+    wordsPerMinute > 0 ? (countWords(text) / wordsPerMinute) * 60 : 0;
+
+// Số cảnh để mỗi cảnh dài khoảng giữa [minSeconds, maxSeconds]; không đạt được cả hai đầu thì ưu tiên không vượt max
+export const sceneCountForDuration = (totalSeconds: number, minSeconds: number, maxSeconds: number): number => {
+    if (totalSeconds <= 0) return 1;
+    const low = Math.max(0.5, Math.min(minSeconds, maxSeconds));
+    const high = Math.max(low, maxSeconds);
+    const fewest = Math.max(1, Math.ceil(totalSeconds / high));
+    const most = Math.max(1, Math.floor(totalSeconds / low));
+    const ideal = Math.round(totalSeconds / ((low + high) / 2));
+    return Math.max(fewest, Math.min(most, Math.max(1, ideal)));
+};
+
+// 95 => "1:35"
+export const formatDuration = (seconds: number): string => {
+    const total = Math.round(seconds);
+    return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
@@ -0,0 +1,86 @@
+// --- SHOT LIST ---
+// Thông số quay có cấu trúc cho từng cảnh (cỡ cảnh, góc máy, ống kính...). AI điền `shot`,
+// người dùng có thể ghi đè từng trường trong `shotOverrides` mà không mất giá trị gốc.
+
+export interface ShotDetails {
+    shotSize: string;           // VD: "Wide shot", "Close-up"
+    cameraAngle: string;        // VD: "Eye level", "Low angle"
+    lens: string;               // VD: "35mm", "85mm telephoto"
+    cameraMovement: string;     // VD: "Static", "Slow dolly in"
+    lightingKey: string;        // VD: "High key", "Low key, warm practicals"
+    mood: string;
+    durationSeconds: number;    // Thời lượng ước tính (0 = chưa có)
+    characters: string[];       // Nhân vật xuất hiện trong cảnh
+    location: string;
+}
+
+export type ShotField = keyof ShotDetails;
+
+export const SHOT_FIELDS: ShotField[] = ['shotSize', 'cameraAngle', 'lens', 'cameraMovement', 'lightingKey', 'mood', 'durationSeconds', 'characters', 'location'];
+
+export const SHOT_FIELD_LABELS: Record<ShotField, string> = {
+    shotSize: 'Cỡ cảnh',
+    cameraAngle: 'Góc máy',
+    lens: 'Ống kính',
+    cameraMovement: 'Chuyển động máy',
+    lightingKey: 'Ánh sáng',
+    mood: 'Cảm xúc',
+    durationSeconds: 'Thời lượng (giây)',
+    characters: 'Nhân vật',
+    location: 'Bối cảnh',
+};
+
+export const EMPTY_SHOT_DETAILS: ShotDetails = {
+    shotSize: '', cameraAngle: '', lens: '', cameraMovement: '', lightingKey: '', mood: '', durationSeconds: 0, characters: [], location: '',
+};
+
+const toText = (value: any): string => (typeof value === 'string' ? value.trim() : value == null ? '' : String(value).trim());
+
+const toSeconds = (value: any): number => {
+    const seconds = typeof value === 'number' ? value : parseFloat(toText(value));
+    return isFinite(seconds) && seconds > 0 ? Math.round(seconds * 10) / 10 : 0;
+};
+
+const toList = (value: any): string[] =>
+    (Array.isArray(value) ? value.map(toText) : toText(value).split(',').map(v => v.trim())).filter(Boolean);
+
+// Chuẩn hóa phản hồi của AI / dữ liệu cũ trong localStorage
+export const normalizeShotDetails = (raw: any): ShotDetails => ({
+    shotSize: toText(raw?.shotSize),
+    cameraAngle: toText(raw?.cameraAngle),
+    lens: toText(raw?.lens),
+    cameraMovement: toText(raw?.cameraMovement),
+    lightingKey: toText(raw?.lightingKey),
+    mood: toText(raw?.mood),
+    durationSeconds: toSeconds(raw?.durationSeconds),
+    characters: toList(raw?.characters),
+    location: toText(raw?.location),
+});
+
+// Chỉ giữ các trường người dùng thực sự nhập (chuỗi rỗng = dùng lại giá trị của AI)
+export const normalizeShotOverrides = (raw: any): Partial<ShotDetails> => {
+    const overrides: Partial<ShotDetails> = {};
+    if (!raw) return overrides;
+    const normalized = normalizeShotDetails(raw);
+    SHOT_FIELDS.forEach(field => {
+        if (raw[field] === undefined) return;
+        const value = normalized[field];
+        if (Array.isArray(value) ? value.length > 0 : value !== '' && value !== 0) {
+            (overrides as any)[field] = value;
+        }
+    });
+    return overrides;
+};
+
+export const resolveShotDetails = (shot?: ShotDetails, overrides?: Partial<ShotDetails>): ShotDetails =>
+    ({ ...EMPTY_SHOT_DETAILS, ...shot, ...overrides });
+
+export const formatShotValue = (shot: ShotDetails, field: ShotField): string => {
+    const value = shot[field];
+    if (Array.isArray(value)) return value.join(', ');
+    if (field === 'durationSeconds') return value ? `${value}s` : '';
+    return String(value || '');
+};
+
+export const isShotDetailsEmpty = (shot?: ShotDetails): boolean =>
+    !shot || SHOT_FIELDS.every(field => formatShotValue(shot, field) === '');
@@ -0,0 +1,125 @@
+// --- STORY BIBLE (NHÂN VẬT & BỐI CẢNH) ---
+// Mô tả cố định của nhân vật/địa điểm được trích xuất một lần, sau đó chèn nguyên văn vào mọi prompt
+// để ngoại hình nhân vật không bị "trôi" giữa các cảnh.
+
+export interface StoryCharacter {
+    name: string;
+    age: string;
+    gender: string;
+    ethnicity: string;
+    hair: string;
+    clothing: string;
+    features: string;       // Đặc điểm nhận dạng (sẹo, kính, hình xăm...)
+}
+
+export interface StoryLocation {
+    name: string;
+    description: string;
+}
+
+export interface StoryBible {
+    era: string;
+    characters: StoryCharacter[];
+    locations: StoryLocation[];
+}
+
+export const EMPTY_STORY_BIBLE: StoryBible = { era: '', characters: [], locations: [] };
+
+export const EMPTY_CHARACTER: StoryCharacter = { name: '', age: '', gender: '', ethnicity: '', hair: '', clothing: '', features: '' };
+
+export const CHARACTER_FIELD_LABELS: Record<Exclude<keyof StoryCharacter, 'name'>, string> = {
+    age: 'Tuổi',
+    gender: 'Giới tính',
+    ethnicity: 'Dân tộc',
+    hair: 'Tóc',
+    clothing: 'Trang phục',
+    features: 'Đặc điểm',
+};
+
+const toText = (value: any): string => (typeof value === 'string' ? value.trim() : value == null ? '' : String(value).trim());
+
+// Chuẩn hóa phản hồi của AI / dữ liệu cũ trong localStorage
+export const normalizeStoryBible = (raw: any): StoryBible => ({
+    era: toText(raw?.era),
+    characters: (Array.isArray(raw?.characters) ? raw.characters : [])
+        .map((c: any) => ({
+            name: toText(c?.name),
+            age: toText(c?.age),
+            gender: toText(c?.gender),
+            ethnicity: toText(c?.ethnicity),
+            hair: toText(c?.hair),
+            clothing: toText(c?.clothing),
+            features: toText(c?.features),
+        }))
+        .filter((c: StoryCharacter) => c.name !== ''),
+    locations: (Array.isArray(raw?.locations) ? raw.locations : [])
+        .map((l: any) => ({ name: toText(l?.name), description: toText(l?.description) }))
+        .filter((l: StoryLocation) => l.name !== ''),
+});
+
+export const isStoryBibleEmpty = (bible?: StoryBible | null): boolean =>
+    !bible || (bible.era === '' && bible.characters.length === 0 && bible.locations.length === 0);
+
+// "Lan (25, female, Vietnamese, long black hair, white ao dai, mole under left eye)"
+export const describeCharacter = (character: StoryCharacter): string => {
+    const details = [character.age, character.gender, character.ethnicity, character.hair, character.clothing, character.features].filter(Boolean);
+    return details.length > 0 ? `${character.name} (${details.join(', ')})` : character.name;
+};
+
+export const describeLocation = (location: StoryLocation): string =>
+    location.description ? `${location.name} (${location.description})` : location.name;
+
+// Khối văn bản đưa vào system instruction
+export const formatStoryBibleForInstruction = (bible: StoryBible): string => {
+    const lines: string[] = [];
+    if (bible.era) lines.push(`- Era / Setting: ${bible.era}`);
+    bible.characters.forEach(c => lines.push(`- Character: ${describeCharacter(c)}`));
+    bible.locations.forEach(l => lines.push(`- Location: ${describeLocation(l)}`));
+    return lines.join('\n');
+};
+
+const mentions = (text: string, name: string): boolean => {
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'iu').test(text);
+};
+
+// Chèn nguyên văn mô tả của nhân vật/địa điểm xuất hiện trong cảnh vào cuối prompt
+// (trước tham số --ar nếu có). Không ai được nhắc tên mà chỉ có một nhân vật => dùng nhân vật đó.
+export const injectStoryBible = (prompt: string, scriptLine: string, bible: StoryBible): string => {
+    if (!prompt || isStoryBibleEmpty(bible)) return prompt;
+    const sceneText = `${scriptLine}\n${prompt}`;
+
+    let characters = bible.characters.filter(c => mentions(sceneText, c.name));
+    if (characters.length === 0 && bible.characters.length === 1) characters = bible.characters;
+    const locations = bible.locations.filter(l => mentions(sceneText, l.name));
+
+    const additions: string[] = [];
+    const characterText = characters.map(describeCharacter).filter(text => !prompt.includes(text));
+    if (characterText.length > 0) additions.push(`Characters: ${characterText.join('; ')}.`);
+    const locationText = locations.map(describeLocation).filter(text => !prompt.includes(text));
+    if (locationText.length > 0) additions.push(`Location: ${locationText.join('; ')}.`);
+    if (bible.era && !prompt.includes(bible.era)) additions.push(`Era: ${bible.era}.`);
+    if (additions.length === 0) return prompt;
+
+    const parameterMatch = prompt.match(/\s+--ar\s+\S+\s*$/);
+    const body = parameterMatch ? prompt.substring(0, parameterMatch.index) : prompt;
+    const separator = /[.!?]$/.test(body.trim()) ? ' ' : '. ';
+    return `${body.trim()}${separator}${additions.join(' ')}${parameterMatch ? parameterMatch[0] : ''}`;
+};
+
+// Thứ tự các câu mà injectStoryBible thêm vào cuối prompt
+const INJECTED_LABELS = ['Characters', 'Location', 'Era'];
+
+// Tách phần Story Bible đã chèn ở cuối prompt khỏi phần mô tả cảnh, để lớp dialect chỉ cắt bớt phần mô tả.
+// Chỉ nhận các câu "Characters: / Location: / Era:" liền nhau ở cuối, đúng thứ tự injectStoryBible tạo ra.
+export const splitStoryBibleText = (prompt: string): { description: string; bibleText: string } => {
+    const starts = Array.from(prompt.matchAll(/(^|[.!?]\s+)(Characters|Location|Era): /g))
+        .map(match => ({ index: (match.index || 0) + match[1].length, order: INJECTED_LABELS.indexOf(match[2]) }));
+    let tailStart = -1;
+    for (let i = starts.length - 1; i >= 0; i--) {
+        if (i < starts.length - 1 && starts[i].order >= starts[i + 1].order) break;
+        tailStart = starts[i].index;
+    }
+    if (tailStart === -1) return { description: prompt, bibleText: '' };
+    return { description: prompt.substring(0, tailStart).trim(), bibleText: prompt.substring(tailStart).trim() };
+};
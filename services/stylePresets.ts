@@ -0,0 +1,138 @@
+// --- STYLE PRESETS ---
+// Phong cách hình ảnh: prompt phong cách (style lock), negative prompt riêng và ảnh mẫu (tùy chọn).
+// Phong cách có sẵn chỉ đọc; phong cách của người dùng lưu trong localStorage và chia sẻ cho cả nhóm qua file JSON.
+
+export interface StylePreset {
+    id: string;
+    label: string;
+    prompt: string;
+    negativePrompt: string;     // Gộp với negative prompt của lần chạy
+    thumbnail?: string;         // Ảnh mẫu đã thu nhỏ (data URL)
+    builtIn: boolean;
+}
+
+// Style Presets (Translated to Vietnamese Labels)
+export const BUILT_IN_STYLE_PRESETS: StylePreset[] = ([
+    { id: 'cinematic', label: '🎬 Điện ảnh thực tế (Cinematic)', prompt: 'Cinematic style, 8k resolution, highly detailed, professional composition, atmospheric lighting, sharp focus, photorealistic, raw style.' },
+    { id: 'anime', label: '🌸 Anime (Ghibli)', prompt: 'Anime style, Studio Ghibli inspired, vibrant colors, lush backgrounds, expressive characters, hand-drawn animation feel, detailed aesthetic.' },
+    { id: '3d_pixar', label: '🧸 Hoạt hình 3D (Pixar)', prompt: '3D Disney/Pixar style, cute characters, soft lighting, 3d render, high fidelity, octane render, smooth textures, expressive eyes.' },
+    { id: 'stick_figure', label: '🖍️ Người que (Stick Figure)', prompt: 'Stick figure style, simple line drawing, white background, childish and funny, minimal details, hand-drawn marker look.' },
+    { id: 'oil_painting', label: '🎨 Tranh sơn dầu', prompt: 'Oil painting style, textured brushstrokes, artistic, classic masterpiece vibe, rich colors, heavy impasto, traditional art.' },
+    { id: 'watercolor', label: '💧 Màu nước', prompt: 'Watercolor painting style, soft edges, pastel colors, artistic and dreamy, wet-on-wet technique, paper texture.' },
+    { id: 'cyberpunk', label: '🌃 Cyberpunk (Tương lai)', prompt: 'Cyberpunk style, neon lights, futuristic city, high tech low life, vibrant purple and blue tones, rain-slicked streets, holographic details.' },
+    { id: 'vintage_1950', label: '📺 Cổ điển 1950s', prompt: 'Vintage 1950s photo style, film grain, sepia or faded technicolor, retro fashion, old-school photography aesthetics, nostalgia.' },
+    { id: 'noir', label: '🕵️ Phim Noir (Trắng đen)', prompt: 'Film Noir style, black and white, high contrast, dramatic shadows, dutch angles, mystery, silhouette, classic cinema.' },
+    { id: 'pixel_art', label: '👾 Pixel Art (8-Bit)', prompt: '8-bit Pixel Art, retro game style, blocky, vibrant colors, nostalgic gaming aesthetic, clean sprites.' },
+    { id: 'claymation', label: '🧱 Đất sét (Claymation)', prompt: 'Claymation style, plasticine texture, stop motion look, Aardman inspired, fingerprint details on clay, handmade feel.' },
+    { id: 'comic_book', label: '💬 Truyện tranh (Comic)', prompt: 'Comic book style, bold outlines, halftone patterns, vibrant colors, action lines, graphic novel aesthetic.' },
+    { id: 'fantasy_art', label: '🐉 Giả tưởng Epic (Fantasy)', prompt: 'Fantasy art style, Dungeons & Dragons style, magical atmosphere, glowing effects, epic composition, highly detailed armor and environments.' },
+    { id: 'horror', label: '🧟 Kinh dị (Horror)', prompt: 'Horror style, dark atmosphere, mist, eerie lighting, scary vibes, muted colors, cinematic thriller look.' },
+    { id: 'pencil_sketch', label: '✏️ Phác thảo chì', prompt: 'Pencil sketch style, charcoal, rough lines, artistic shading, monochrome, sketchbook aesthetic.' },
+    { id: 'low_poly', label: '🔷 Low Poly (3D khối)', prompt: 'Low Poly 3D style, geometric shapes, flat shading, minimalist, vibrant colors, game art aesthetic.' },
+    { id: 'steampunk', label: '⚙️ Steampunk (Hơi nước)', prompt: 'Steampunk style, brass and copper tones, gears and clockwork, victorian sci-fi, steam power, industrial aesthetic.' },
+    { id: 'origami', label: '📄 Gấp giấy (Origami)', prompt: 'Paper cut-out style, origami, layered paper texture, depth of field, craft art, soft shadows.' },
+    { id: 'ukiyo_e', label: '🌊 Tranh khắc gỗ Nhật (Ukiyo-e)', prompt: 'Japanese Ukiyo-e woodblock print style, traditional patterns, flat perspective, sweeping lines, Hokusai inspired.' },
+    { id: 'abstract', label: '🌀 Trừu tượng siêu thực', prompt: 'Abstract surrealism, dreamlike, weird shapes, vibrant and contrasting colors, dali-esque, melting reality.' },
+    { id: 'vector_art', label: '📐 Vector Art (Đồ họa phẳng)', prompt: 'Vector art style, flat design, clean lines, bold colors, minimalist, corporate illustration style, smooth gradients, scalable vector graphics aesthetic.' },
+    { id: 'sitcom_cartoon', label: '📺 Sitcom Cartoon (2D)', prompt: 'American 2D sitcom cartoon style, thick black outline, flat colors, clean vector, simple and recognizable character design, slightly goofy but expressive facial expressions.' },
+] as Pick<StylePreset, 'id' | 'label' | 'prompt'>[]).map(style => ({ ...style, negativePrompt: '', builtIn: true }));
+
+// 'reference' = dùng ảnh tham chiếu, không phải một phong cách
+export const REFERENCE_STYLE_ID = 'reference';
+
+export const EMPTY_STYLE_PRESET: Omit<StylePreset, 'id'> = { label: '', prompt: '', negativePrompt: '', builtIn: false };
+
+const createStyleId = () => `style-${Date.now()}-${Math.random().toString(36).substring(2, 6)}`;
+
+export const createStylePreset = (label: string = 'Phong cách mới'): StylePreset => ({ ...EMPTY_STYLE_PRESET, id: createStyleId(), label });
+
+export const duplicateStylePreset = (source: StylePreset): StylePreset => ({
+    ...source,
+    id: createStyleId(),
+    label: `${source.label} (bản sao)`,
+    builtIn: false,
+});
+
+export const findStylePreset = (presets: StylePreset[], id: string): StylePreset | undefined =>
+    [...presets, ...BUILT_IN_STYLE_PRESETS].find(style => style.id === id);
+
+// Đổi chỗ phong cách ở `index` với phong cách liền trước (-1) / liền sau (+1)
+export const moveStylePreset = (presets: StylePreset[], index: number, delta: -1 | 1): StylePreset[] => {
+    const target = index + delta;
+    if (target < 0 || target >= presets.length) return presets;
+    const moved = [...presets];
+    [moved[index], moved[target]] = [moved[target], moved[index]];
+    return moved;
+};
+
+const RESERVED_IDS = new Set([REFERENCE_STYLE_ID, ...BUILT_IN_STYLE_PRESETS.map(style => style.id)]);
+
+// Phong cách của người dùng (localStorage / file JSON): cần có prompt; bỏ id trùng với phong cách có sẵn hoặc trùng nhau
+export const normalizeStylePresets = (raw: any): StylePreset[] => {
+    if (!Array.isArray(raw)) return [];
+    const seen = new Set<string>();
+    return raw
+        .filter((style: any) => typeof style?.prompt === 'string' && style.prompt.trim() !== '')
+        .map((style: any, index: number): StylePreset => ({
+            id: String(style.id || `style-${index}`),
+            label: String(style.label || `Phong cách ${index + 1}`),
+            prompt: style.prompt,
+            negativePrompt: typeof style.negativePrompt === 'string' ? style.negativePrompt : '',
+            ...(typeof style.thumbnail === 'string' && style.thumbnail.startsWith('data:image/') ? { thumbnail: style.thumbnail } : {}),
+            builtIn: false,
+        }))
+        .filter(style => {
+            if (RESERVED_IDS.has(style.id) || seen.has(style.id)) return false;
+            seen.add(style.id);
+            return true;
+        });
+};
+
+// --- IMPORT / EXPORT ---
+const FILE_TYPE = 'sbgen_style_presets';
+
+export const exportStylePresets = (presets: StylePreset[]): string => JSON.stringify({
+    type: FILE_TYPE,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    presets: presets.map(({ builtIn, ...style }) => style),
+}, null, 2);
+
+// Nhận cả file xuất từ công cụ ({ type, presets }) lẫn mảng phong cách thuần
+export const parseStylePresetsFile = (text: string): StylePreset[] => {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error("File không phải JSON hợp lệ.");
+    }
+    const list = Array.isArray(data) ? data : data?.presets;
+    if (!Array.isArray(list)) throw new Error("File không chứa danh sách phong cách.");
+    const presets = normalizeStylePresets(list);
+    if (presets.length === 0) throw new Error("Không có phong cách hợp lệ nào trong file.");
+    return presets;
+};
+
+// Gộp phong cách nhập vào: trùng id => cập nhật tại chỗ, id mới => thêm vào cuối
+export const mergeStylePresets = (existing: StylePreset[], incoming: StylePreset[]): { presets: StylePreset[]; added: number; updated: number } => {
+    const incomingById = new Map(incoming.map(style => [style.id, style]));
+    const presets = existing.map(style => incomingById.get(style.id) || style);
+    const existingIds = new Set(existing.map(style => style.id));
+    const added = incoming.filter(style => !existingIds.has(style.id));
+    return { presets: [...presets, ...added], added: added.length, updated: incoming.length - added.length };
+};
+
+// Negative prompt của lần chạy + của phong cách, bỏ cụm trùng (không phân biệt hoa thường)
+export const mergeNegativePrompts = (...parts: (string | undefined)[]): string => {
+    const seen = new Set<string>();
+    return parts
+        .flatMap(part => (part || '').split(','))
+        .map(term => term.trim())
+        .filter(term => {
+            const key = term.toLowerCase();
+            if (!term || seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        })
+        .join(', ');
+};
@@ -0,0 +1,154 @@
+// --- SUBTITLES (SRT / WebVTT) ---
+// Phân tích phụ đề thành các cue ngay trên trình duyệt và gom cue thành cảnh: không bao giờ cắt giữa một cue,
+// mỗi cảnh giữ thời gian bắt đầu/kết thúc và số thứ tự các cue gốc.
+
+import { countWords, MAX_SENTENCE_WORDS } from "./segmenter";
+
+export interface SubtitleCue {
+    index: number;          // Số thứ tự cue (theo file SRT, hoặc vị trí nếu không có)
+    start: number;          // Giây
+    end: number;            // Giây
+    text: string;           // Nội dung đã bỏ thẻ định dạng, các dòng được nối bằng khoảng trắng
+}
+
+export interface CueGroup {
+    cueIndices: number[];
+    start: number;
+    end: number;
+    text: string;
+}
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+// 00:01:02,500 | 00:01:02.500 | 01:02.500 (VTT cho phép bỏ giờ)
+const TIMESTAMP = /(?:(\d{1,2}):)?(\d{1,2}):(\d{1,2})[,.](\d{1,3})/;
+const TIMING_LINE = new RegExp(`^\\s*${TIMESTAMP.source}\\s*-->\\s*${TIMESTAMP.source}`);
+
+export const isSubtitleTimingLine = (line: string): boolean => TIMING_LINE.test(line);
+
+export const isSubtitleFileName = (fileName: string): boolean => /\.(srt|vtt)$/i.test(fileName);
+
+// Có ít nhất một dòng thời gian "a --> b" => coi là phụ đề
+export const looksLikeSubtitles = (content: string): boolean =>
+    /^WEBVTT/.test(content.trimStart()) || content.split(/\r?\n/).some(line => TIMING_LINE.test(line));
+
+const toSeconds = (hours: string | undefined, minutes: string, seconds: string, millis: string): number =>
+    (parseInt(hours || '0', 10) * 3600) + (parseInt(minutes, 10) * 60) + parseInt(seconds, 10) + parseInt(millis.padEnd(3, '0'), 10) / 1000;
+
+// Bỏ thẻ <i>, <b>, <c.class>, <v Speaker>, <00:00:01.000> và thẻ ASS {\an8}
+const cleanCueText = (lines: string[]): string =>
+    lines
+        .map(line => line.replace(/<[^>]*>/g, '').replace(/\{\\[^}]*\}/g, '').trim())
+        .filter(Boolean)
+        .join(' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+export const parseSubtitles = (content: string): SubtitleCue[] => {
+    const blocks = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+    const cues: SubtitleCue[] = [];
+    blocks.forEach(block => {
+        const lines = block.split('\n').filter(line => line.trim() !== '');
+        const timingIndex = lines.findIndex(line => TIMING_LINE.test(line));
+        // Header WEBVTT, khối NOTE / STYLE / REGION không có dòng thời gian
+        if (timingIndex === -1) return;
+        const match = lines[timingIndex].match(TIMING_LINE)!;
+        const text = cleanCueText(lines.slice(timingIndex + 1));
+        if (!text) return;
+        const identifier = timingIndex > 0 ? parseInt(lines[timingIndex - 1].trim(), 10) : NaN;
+        cues.push({
+            index: isFinite(identifier) ? identifier : cues.length + 1,
+            start: toSeconds(match[1], match[2], match[3], match[4]),
+            end: toSeconds(match[5], match[6], match[7], match[8]),
+            text,
+        });
+    });
+    return cues;
+};
+
+export const cuesToPlainText = (cues: SubtitleCue[]): string => cues.map(cue => cue.text).join('\n');
+
+export const formatTimestamp = (seconds: number, format: SubtitleFormat = 'srt'): string => {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const hours = Math.floor(totalMs / 3_600_000);
+    const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+    const secs = Math.floor((totalMs % 60_000) / 1000);
+    const millis = totalMs % 1000;
+    const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${format === 'srt' ? ',' : '.'}${pad(millis, 3)}`;
+};
+
+// "3" hoặc "3-5" (cue liên tiếp)
+export const formatCueRange = (cueIndices: number[]): string => {
+    if (cueIndices.length === 0) return '';
+    const first = cueIndices[0];
+    const last = cueIndices[cueIndices.length - 1];
+    return first === last ? String(first) : `${first}-${last}`;
+};
+
+const makeGroup = (cues: SubtitleCue[]): CueGroup => ({
+    cueIndices: cues.map(cue => cue.index),
+    start: cues[0].start,
+    end: cues[cues.length - 1].end,
+    text: cues.map(cue => cue.text).join(' '),
+});
+
+const endsSentence = (text: string) => /(?:\.{2,}|…|[.!?。！？])["'”’»)\]]*$/.test(text);
+
+// Gom cue liên tiếp cho tới khi hết câu (hoặc vượt `maxWords`); `minWords` > 0 thì gom tiếp các nhóm quá ngắn
+const groupBySentence = (cues: SubtitleCue[], minWords: number, maxWords: number): CueGroup[] => {
+    const groups: CueGroup[] = [];
+    let current: SubtitleCue[] = [];
+    let words = 0;
+    cues.forEach((cue, i) => {
+        current.push(cue);
+        words += countWords(cue.text);
+        const next = cues[i + 1];
+        const nextWords = next ? countWords(next.text) : 0;
+        if (!next || (endsSentence(cue.text) && words >= minWords) || words + nextWords > maxWords) {
+            groups.push(makeGroup(current));
+            current = [];
+            words = 0;
+        }
+    });
+    return groups;
+};
+
+// Chia cue thành đúng `count` nhóm liên tiếp có số từ cân bằng nhất (tối đa bằng số cue)
+const partitionCues = (cues: SubtitleCue[], count: number): CueGroup[] => {
+    const groupCount = Math.max(1, Math.min(count, cues.length));
+    const cumulative: number[] = [0];
+    cues.forEach(cue => cumulative.push(cumulative[cumulative.length - 1] + Math.max(1, countWords(cue.text))));
+    const total = cumulative[cumulative.length - 1];
+
+    const groups: CueGroup[] = [];
+    let groupStart = 0;
+    for (let k = 1; k < groupCount; k++) {
+        const target = (k * total) / groupCount;
+        const maxBoundary = cues.length - (groupCount - k);
+        let boundary = groupStart + 1;
+        while (boundary < maxBoundary && Math.abs(cumulative[boundary + 1] - target) <= Math.abs(cumulative[boundary] - target)) {
+            boundary++;
+        }
+        groups.push(makeGroup(cues.slice(groupStart, boundary)));
+        groupStart = boundary;
+    }
+    groups.push(makeGroup(cues.slice(groupStart)));
+    return groups;
+};
+
+// 'ai': nhóm ngắn khoảng 7-15 từ, 'punctuation': theo câu, 'fixed': đúng số cảnh mục tiêu (không vượt số cue)
+export const segmentCues = (cues: SubtitleCue[], mode: 'ai' | 'punctuation' | 'fixed', targetSceneCount: number = 10): CueGroup[] => {
+    if (cues.length === 0) return [];
+    if (mode === 'fixed') return partitionCues(cues, targetSceneCount);
+    if (mode === 'ai') return groupBySentence(cues, 7, 15);
+    return groupBySentence(cues, 0, MAX_SENTENCE_WORDS);
+};
+
+// Xuất danh sách cảnh thành file phụ đề (mỗi cảnh một cue)
+export const buildSubtitleFile = (entries: { start: number; end: number; text: string }[], format: SubtitleFormat = 'srt'): string => {
+    const body = entries
+        .map((entry, i) => `${i + 1}\n${formatTimestamp(entry.start, format)} --> ${formatTimestamp(entry.end, format)}\n${entry.text}`)
+        .join('\n\n');
+    return format === 'vtt' ? `WEBVTT\n\n${body}\n` : `${body}\n`;
+};
@@ -0,0 +1,166 @@
+// --- TOKEN USAGE & COST ---
+// Gom số token của từng request (theo provider/model/key) và tính chi phí theo bảng giá người dùng cấu hình.
+
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+}
+
+export interface UsageEntry extends TokenUsage {
+    provider: string;
+    model: string;
+    keyId?: string;         // Key đã che (Gemini / OpenAI-compatible; trống với endpoint local không cần key)
+    requests: number;
+}
+
+// Tổng token của một lần tạo storyboard (có thể gồm nhiều chunk / nhiều provider)
+export interface RunUsage extends TokenUsage {
+    requests: number;
+    entries: UsageEntry[];
+}
+
+// Giá USD cho 1 triệu token. `model` khớp chính xác; muốn khớp theo tiền tố phải ghi rõ `*` ở cuối (ví dụ `gemini-2.5-flash*`).
+export interface ModelPrice {
+    model: string;
+    inputPerMillion: number;
+    outputPerMillion: number;
+}
+
+export const DEFAULT_PRICE_TABLE: ModelPrice[] = [
+    { model: 'gemini-2.5-flash', inputPerMillion: 0.30, outputPerMillion: 2.50 },
+    { model: 'gemini-2.5-pro', inputPerMillion: 1.25, outputPerMillion: 10.00 },
+    { model: 'gemini-3.1-pro-preview', inputPerMillion: 2.00, outputPerMillion: 12.00 },
+    { model: 'gemini-3-flash-preview', inputPerMillion: 0.50, outputPerMillion: 3.00 },
+    { model: 'gemini-flash-latest', inputPerMillion: 0.30, outputPerMillion: 2.50 },
+    { model: 'gpt-4o-mini', inputPerMillion: 0.15, outputPerMillion: 0.60 },
+    { model: 'gpt-4o', inputPerMillion: 2.50, outputPerMillion: 10.00 },
+    { model: 'mock', inputPerMillion: 0, outputPerMillion: 0 },
+];
+
+// Che key khi lưu vào session (giống cách hiển thị trong ApiSettingsModal)
+export const maskApiKey = (key: string): string =>
+    key.length <= 14 ? key : `${key.substring(0, 8)}...${key.substring(key.length - 6)}`;
+
+const toCount = (value: any): number => (typeof value === 'number' && isFinite(value) ? value : 0);
+
+// Gemini: token "thinking" được tính tiền như output
+export const fromGeminiUsage = (metadata: any): TokenUsage | undefined => {
+    if (!metadata) return undefined;
+    const inputTokens = toCount(metadata.promptTokenCount);
+    const outputTokens = toCount(metadata.candidatesTokenCount) + toCount(metadata.thoughtsTokenCount);
+    return { inputTokens, outputTokens, totalTokens: toCount(metadata.totalTokenCount) || inputTokens + outputTokens };
+};
+
+export const fromOpenAIUsage = (usage: any): TokenUsage | undefined => {
+    if (!usage) return undefined;
+    const inputTokens = toCount(usage.prompt_tokens);
+    const outputTokens = toCount(usage.completion_tokens);
+    return { inputTokens, outputTokens, totalTokens: toCount(usage.total_tokens) || inputTokens + outputTokens };
+};
+
+export const createEmptyRunUsage = (): RunUsage => ({ inputTokens: 0, outputTokens: 0, totalTokens: 0, requests: 0, entries: [] });
+
+// Gộp token của hai lượt theo provider + model + key (ví dụ: lượt trích xuất Story Bible + lượt tạo prompt)
+export const mergeRunUsage = (first: RunUsage, second: RunUsage): RunUsage =>
+    second.entries.reduce((run, entry) => {
+        const sameBucket = (e: UsageEntry) => e.provider === entry.provider && e.model === entry.model && e.keyId === entry.keyId;
+        const existing = run.entries.find(sameBucket);
+        return {
+            inputTokens: run.inputTokens + entry.inputTokens,
+            outputTokens: run.outputTokens + entry.outputTokens,
+            totalTokens: run.totalTokens + entry.totalTokens,
+            requests: run.requests + entry.requests,
+            entries: existing
+                ? run.entries.map(e => sameBucket(e) ? {
+                    ...e,
+                    inputTokens: e.inputTokens + entry.inputTokens,
+                    outputTokens: e.outputTokens + entry.outputTokens,
+                    totalTokens: e.totalTokens + entry.totalTokens,
+                    requests: e.requests + entry.requests,
+                } : e)
+                : [...run.entries, { ...entry }],
+        };
+    }, first);
+
+// Cộng một request vào tổng của run
+export const addUsage = (run: RunUsage, entry: Omit<UsageEntry, 'requests'>): RunUsage =>
+    mergeRunUsage(run, {
+        inputTokens: entry.inputTokens,
+        outputTokens: entry.outputTokens,
+        totalTokens: entry.totalTokens,
+        requests: 1,
+        entries: [{ ...entry, requests: 1 }],
+    });
+
+// Không tự khớp theo tiền tố: `gemini-2.5-flash-lite` không được tính theo giá `gemini-2.5-flash`
+export const findModelPrice = (model: string, priceTable: ModelPrice[]): ModelPrice | undefined => {
+    const exact = priceTable.find(p => p.model === model);
+    if (exact) return exact;
+    return priceTable
+        .filter(p => p.model.endsWith('*') && model.startsWith(p.model.slice(0, -1)))
+        .sort((a, b) => b.model.length - a.model.length)[0];
+};
+
+// Các model đã dùng nhưng chưa có trong bảng giá
+export const findUnpricedModels = (entries: UsageEntry[], priceTable: ModelPrice[]): string[] =>
+    Array.from(new Set(entries.filter(entry => !findModelPrice(entry.model, priceTable)).map(entry => entry.model)));
+
+// Model không có trong bảng giá (ví dụ model local) không được cộng vào chi phí, UI hiển thị "không có giá"
+export const calculateCost = (entries: UsageEntry[], priceTable: ModelPrice[]): number =>
+    entries.reduce((sum, entry) => {
+        const price = findModelPrice(entry.model, priceTable);
+        if (!price) return sum;
+        return sum + (entry.inputTokens * price.inputPerMillion + entry.outputTokens * price.outputPerMillion) / 1_000_000;
+    }, 0);
+
+export interface UsageSummaryRow extends TokenUsage {
+    label: string;
+    runs: number;
+    cost: number;
+    unpricedModels: string[];
+}
+
+const summarize = (
+    runs: { timestamp: number; usage?: RunUsage }[],
+    priceTable: ModelPrice[],
+    groupEntry: (entry: UsageEntry, timestamp: number) => string | undefined
+): UsageSummaryRow[] => {
+    const rows = new Map<string, UsageSummaryRow & { runIds: Set<number> }>();
+    runs.forEach((run, runIndex) => {
+        run.usage?.entries.forEach(entry => {
+            const label = groupEntry(entry, run.timestamp);
+            if (!label) return;
+            const row = rows.get(label) || { label, runs: 0, cost: 0, unpricedModels: [], inputTokens: 0, outputTokens: 0, totalTokens: 0, runIds: new Set<number>() };
+            row.inputTokens += entry.inputTokens;
+            row.outputTokens += entry.outputTokens;
+            row.totalTokens += entry.totalTokens;
+            row.cost += calculateCost([entry], priceTable);
+            if (!findModelPrice(entry.model, priceTable) && !row.unpricedModels.includes(entry.model)) row.unpricedModels.push(entry.model);
+            row.runIds.add(runIndex);
+            row.runs = row.runIds.size;
+            rows.set(label, row);
+        });
+    });
+    return Array.from(rows.values()).map(({ runIds, ...row }) => row);
+};
+
+// Tổng theo tháng (YYYY-MM), mới nhất trước
+export const summarizeUsageByMonth = (runs: { timestamp: number; usage?: RunUsage }[], priceTable: ModelPrice[]): UsageSummaryRow[] =>
+    summarize(runs, priceTable, (_entry, timestamp) => {
+        const date = new Date(timestamp);
+        return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    }).sort((a, b) => b.label.localeCompare(a.label));
+
+// Tổng theo key (chỉ các request có keyId)
+export const summarizeUsageByKey = (runs: { timestamp: number; usage?: RunUsage }[], priceTable: ModelPrice[]): UsageSummaryRow[] =>
+    summarize(runs, priceTable, entry => entry.keyId).sort((a, b) => b.cost - a.cost);
+
+export const formatCost = (usd: number, unpricedModels: string[] = []): string => {
+    const amount = usd === 0 ? '$0' : usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+    if (unpricedModels.length === 0) return amount;
+    return usd === 0 ? 'không có giá' : `${amount} + không có giá`;
+};
+
+export const formatTokens = (count: number): string =>
+    count >= 1_000_000 ? `${(count / 1_000_000).toFixed(2)}M` : count >= 1_000 ? `${(count / 1_000).toFixed(1)}K` : String(count);